@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalyzerController } from './analyzer.controller';
+import { AnalyzerService } from './analyzer.service';
+import { AnalysisMode } from './types/analysis.types';
+
+describe('AnalyzerController', () => {
+  let dir: string;
+  let upload: Express.Multer.File;
+  let profileFile: jest.Mock;
+  let controller: AnalyzerController;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analyzer-'));
+    const filePath = path.join(dir, 'upload.csv');
+    fs.writeFileSync(filePath, 'phone\n79161234567\n');
+    upload = {
+      path: filePath,
+      originalname: 'clients.csv',
+    } as Express.Multer.File;
+    profileFile = jest.fn().mockResolvedValue({ columns: [] });
+    controller = new AnalyzerController({
+      profileFile,
+    } as unknown as AnalyzerService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('removes the uploaded file after profiling', async () => {
+    await expect(controller.profileCsvFile(upload, 'full')).resolves.toEqual({
+      columns: [],
+    });
+
+    expect(profileFile).toHaveBeenCalledWith(upload.path, {
+      mode: 'full',
+      sampleSize: undefined,
+      encoding: 'auto',
+    });
+    expect(fs.existsSync(upload.path)).toBe(false);
+  });
+
+  it('removes the uploaded file when the request is rejected', async () => {
+    await expect(
+      controller.profileCsvFile(upload, 'deep' as AnalysisMode),
+    ).rejects.toThrow(BadRequestException);
+    expect(fs.existsSync(upload.path)).toBe(false);
+
+    fs.writeFileSync(upload.path, 'phone\n');
+    profileFile.mockRejectedValue(new Error('Файл повреждён'));
+    await expect(controller.profileCsvFile(upload)).rejects.toThrow(
+      'Файл повреждён',
+    );
+    expect(fs.existsSync(upload.path)).toBe(false);
+  });
+});
@@ -1,10 +1,45 @@
-import { Controller, Post, UploadedFile, UseInterceptors } from '@nestjs/common';
+import { BadRequestException, Body, Controller, HttpCode, HttpStatus, Param, Post, Query, UploadedFile, UseInterceptors } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiConsumes, ApiBody, ApiQuery, ApiParam } from '@nestjs/swagger';
 import { AnalyzerService } from './analyzer.service';
-import { AnalysisResult } from './types/analysis.types';
+import { AnalysisMode, AnalysisResult, EncodingType } from './types/analysis.types';
+import { CsvAnalysisResult } from './dto/csv-analysis-result.dto';
+import { IndexSuggestion, StartImportDto } from './dto/index-suggestion.dto';
+import { IndexingJobInfo } from '../indexer/types/index.types';
+import { uploadDirFromEnv } from '../indexer/storage/storage.factory';
+import { Request } from 'express';
 import { diskStorage } from 'multer';
 import * as path from 'path';
+import * as fs from 'fs';
+
+const CSV_UPLOAD_BODY = {
+  schema: {
+    type: 'object',
+    properties: {
+      file: {
+        type: 'string',
+        format: 'binary',
+      },
+    },
+  },
+};
+
+const uploadOptions = (extensions: string[]) => ({
+  storage: diskStorage({
+    // Папка определяется при загрузке, когда переменные окружения уже прочитаны
+    destination: (req, file, cb) => cb(null, uploadDirFromEnv()),
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+      cb(null, `${uniqueSuffix}${path.extname(file.originalname)}`);
+    },
+  }),
+  fileFilter: (req: Request, file: Express.Multer.File, cb: (error: Error | null, accept: boolean) => void) => {
+    if (!extensions.includes(path.extname(file.originalname).toLowerCase())) {
+      return cb(new Error(`Only ${extensions.join(', ')} files are allowed`), false);
+    }
+    cb(null, true);
+  },
+});
 
 @ApiTags('Анализ CSV')
 @Controller('analyzer')
@@ -14,35 +49,77 @@ export class AnalyzerController {
   @Post('analyze')
   @ApiOperation({ summary: 'Анализ CSV файла' })
   @ApiConsumes('multipart/form-data')
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: {
-          type: 'string',
-          format: 'binary',
-        },
-      },
-    },
-  })
-  @UseInterceptors(
-    FileInterceptor('file', {
-      storage: diskStorage({
-        destination: './uploads',
-        filename: (req, file, cb) => {
-          const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-          cb(null, `${uniqueSuffix}${path.extname(file.originalname)}`);
-        },
-      }),
-      fileFilter: (req, file, cb) => {
-        if (path.extname(file.originalname).toLowerCase() !== '.csv') {
-          return cb(new Error('Only CSV files are allowed'), false);
-        }
-        cb(null, true);
-      },
-    }),
-  )
+  @ApiBody(CSV_UPLOAD_BODY)
+  @UseInterceptors(FileInterceptor('file', uploadOptions(['.csv'])))
   async analyzeCsvFile(@UploadedFile() file: Express.Multer.File): Promise<AnalysisResult> {
     return await this.analyzerService.analyzeCsvFile(file.path);
   }
+
+  @Post('profile')
+  @ApiOperation({ summary: 'Профилирование колонок CSV файла (выборка или полный проход)' })
+  @ApiQuery({ name: 'mode', required: false, enum: ['sample', 'full'] })
+  @ApiQuery({ name: 'sampleSize', required: false, type: Number })
+  @ApiQuery({ name: 'encoding', required: false, enum: ['auto', 'utf8', 'windows1251', 'koi8r', 'iso88595'] })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(CSV_UPLOAD_BODY)
+  @UseInterceptors(FileInterceptor('file', uploadOptions(['.csv'])))
+  async profileCsvFile(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('mode') mode: AnalysisMode = 'sample',
+    @Query('sampleSize') sampleSize?: string,
+    @Query('encoding') encoding: EncodingType = 'auto'
+  ): Promise<CsvAnalysisResult> {
+    // Файл нужен только на время анализа
+    try {
+      if (mode !== 'sample' && mode !== 'full') {
+        throw new BadRequestException(`Неизвестный режим анализа: ${mode as string}`);
+      }
+
+      return await this.analyzerService.profileFile(file.path, {
+        mode,
+        sampleSize: this.parseSampleSize(sampleSize),
+        encoding
+      });
+    } finally {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+    }
+  }
+
+  @Post('suggest')
+  @ApiOperation({ summary: 'Предложить настройки индексации: колонку телефонов, поля, кодировку и разделитель' })
+  @ApiQuery({ name: 'sampleSize', required: false, type: Number })
+  @ApiQuery({ name: 'encoding', required: false, enum: ['auto', 'utf8', 'windows1251', 'koi8r', 'iso88595'] })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(CSV_UPLOAD_BODY)
+  @UseInterceptors(FileInterceptor('file', uploadOptions(['.csv', '.txt'])))
+  async suggestIndexConfig(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('sampleSize') sampleSize?: string,
+    @Query('encoding') encoding: EncodingType = 'auto'
+  ): Promise<IndexSuggestion> {
+    return await this.analyzerService.suggestIndexConfig(file.path, file.originalname, {
+      sampleSize: this.parseSampleSize(sampleSize),
+      encoding
+    });
+  }
+
+  @Post('import/:fileId')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Запустить индексацию загруженного файла с принятыми настройками' })
+  @ApiParam({ name: 'fileId', description: 'ID файла из ответа /analyzer/suggest' })
+  @ApiBody({ type: StartImportDto, description: 'Принятое (при необходимости исправленное) предложение' })
+  async startImport(
+    @Param('fileId') fileId: string,
+    @Body() dto: StartImportDto
+  ): Promise<IndexingJobInfo> {
+    return await this.analyzerService.startImport(fileId, dto || {});
+  }
+
+  private parseSampleSize(sampleSize?: string): number | undefined {
+    const size = sampleSize ? parseInt(sampleSize, 10) : undefined;
+    if (size !== undefined && (isNaN(size) || size <= 0)) {
+      throw new BadRequestException('sampleSize должен быть положительным числом');
+    }
+    return size;
+  }
 }
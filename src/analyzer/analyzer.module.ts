@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { AnalyzerController } from './analyzer.controller';
 import { AnalyzerService } from './analyzer.service';
 import { IndexerModule } from '../indexer/indexer.module';
+import { ParsingModule } from '../parsing/parsing.module';
 
 @Module({
-  imports: [IndexerModule],
+  imports: [IndexerModule, ParsingModule],
   controllers: [AnalyzerController],
   providers: [AnalyzerService]
 })
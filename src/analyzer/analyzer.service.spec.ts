@@ -0,0 +1,123 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import { PartitionCacheService } from '../indexer/cache/partition-cache.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { SearchCatalogService } from '../indexer/manifest/search-catalog.service';
+import { PhoneNormalizerService } from '../indexer/phone/phone-normalizer.service';
+import { LocalStorageBackend } from '../indexer/storage/local-storage.backend';
+import { ParsingService } from '../parsing/parsing.service';
+import { AnalyzerService } from './analyzer.service';
+
+describe('AnalyzerService', () => {
+  const csv = [
+    'Фамилия;Имя;Тел;Почта',
+    'Иванов;Иван;+7 916 123-45-67;ivanov@mail.ru',
+    'Петров;Пётр;8 (916) 765-43-21;petrov@mail.ru',
+    'Сидоров;Сидор;;sidorov@mail.ru',
+  ].join('\n');
+
+  const env = process.env;
+  let dir: string;
+  let uploadDir: string;
+  let storage: LocalStorageBackend;
+  let indexer: IndexerService;
+  let service: AnalyzerService;
+
+  const eventsOf = (jobId: string) =>
+    lastValueFrom(indexer.watchJob(jobId).pipe(toArray()));
+
+  // При хранилище S3 multer кладёт загрузку в uploads рабочей директории
+  const upload = (fileId: string) => {
+    fs.writeFileSync(path.join(uploadDir, fileId), csv);
+    return fileId;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analyzer-'));
+    uploadDir = path.join(dir, 'uploads');
+    fs.mkdirSync(uploadDir);
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+    process.env = { ...env, STORAGE_BACKEND: 's3' };
+
+    // Хранилище вне uploads, как бакет S3
+    storage = new LocalStorageBackend({
+      type: 'local',
+      rootDir: path.join(dir, 'storage'),
+    });
+    const parsing = new ParsingService();
+    indexer = new IndexerService(
+      storage,
+      parsing,
+      new PhoneNormalizerService(),
+      new SearchCatalogService(storage),
+      new PartitionCacheService(),
+    );
+    service = new AnalyzerService(parsing, indexer, storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('suggests the format, the phone column and the field mapping', async () => {
+    const fileId = upload('1700000000000-42.csv');
+
+    const suggestion = await service.suggestIndexConfig(
+      path.join(uploadDir, fileId),
+      'Клиенты май 2024.csv',
+    );
+
+    expect(suggestion).toMatchObject({
+      fileId,
+      databaseId: 'Клиенты_май_2024',
+      encoding: 'utf8',
+      delimiter: ';',
+      phoneColumn: 'Тел',
+      fieldMapping: {
+        phone: 'Тел',
+        lastName: 'Фамилия',
+        firstName: 'Имя',
+        email: 'Почта',
+      },
+    });
+    expect(suggestion.phoneCandidates).toHaveLength(1);
+  });
+
+  it('moves the upload into the storage and indexes it from there', async () => {
+    const fileId = upload('1700000000000-42.csv');
+
+    const job = await service.startImport(fileId, {
+      databaseId: 'clients',
+      phoneColumn: 'Тел',
+    });
+    expect((await eventsOf(job.id)).pop()).toMatchObject({ type: 'completed' });
+    expect(fs.existsSync(path.join(uploadDir, fileId))).toBe(false);
+    expect(await storage.objectExists(fileId)).toBe(true);
+    expect(await indexer.findByPhone('clients', '79161234567')).toMatchObject({
+      lastName: 'Иванов',
+    });
+
+    // Повторный запуск берёт файл, уже перенесённый в хранилище
+    const copy = await service.startImport(fileId, {
+      databaseId: 'clients_copy',
+      phoneColumn: 'Тел',
+    });
+    expect((await eventsOf(copy.id)).pop()).toMatchObject({
+      type: 'completed',
+    });
+  });
+
+  it('rejects file ids outside the uploads and unknown files', async () => {
+    await expect(service.startImport('../secret.csv', {})).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.startImport('missing.csv', {})).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -1,10 +1,18 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import * as csv from 'csv-parser';
 import * as fs from 'fs';
-import * as iconv from 'iconv-lite';
-import { AnalysisResult, EncodingType } from './types/analysis.types';
-import * as chardet from 'chardet';
+import { AnalysisResult, EncodingType, ProfileOptions } from './types/analysis.types';
+import { CsvAnalysisResult, ColumnStats } from './dto/csv-analysis-result.dto';
+import { ColumnProfiler } from './profiling/column-profiler';
+import { IndexSuggestion, StartImportDto } from './dto/index-suggestion.dto';
+import { rankPhoneCandidates, suggestFieldMapping } from './profiling/index-suggestion';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexingJobInfo } from '../indexer/types/index.types';
 import * as path from 'path';
+import { ParsingService } from '../parsing/parsing.service';
+import { ConcreteEncoding } from '../parsing/types/parsing.types';
+import { STORAGE_BACKEND, StorageBackend } from '../indexer/storage/storage.types';
+import { uploadDirFromEnv } from '../indexer/storage/storage.factory';
 
 @Injectable()
 export class AnalyzerService {
@@ -12,7 +20,16 @@ export class AnalyzerService {
   private readonly MAX_ROWS = 100;
   private readonly PREVIEW_ROWS = 3;
   private readonly LOG_FREQUENCY = 10;
-  private readonly SAMPLE_SIZE = 4096; // Размер выборки для определения кодировки (4KB)
+  private readonly SAMPLE_DATA_ROWS = 5;
+  private readonly PROFILE_LOG_FREQUENCY = 100000;
+
+  private readonly UPLOAD_DIR = uploadDirFromEnv();
+
+  constructor(
+    private readonly parsingService: ParsingService,
+    private readonly indexerService: IndexerService,
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend
+  ) {}
 
   /**
    * Анализирует CSV/TSV-файл с поддержкой различных кодировок
@@ -50,12 +67,7 @@ export class AnalyzerService {
     if (encoding === 'auto') {
       try {
         // Читаем только начало файла для определения кодировки
-        const fd = fs.openSync(filePath, 'r');
-        const buffer = Buffer.alloc(this.SAMPLE_SIZE);
-        fs.readSync(fd, buffer, 0, this.SAMPLE_SIZE, 0);
-        fs.closeSync(fd);
-        
-        const detectedEncoding = await this.detectEncoding(buffer);
+        const detectedEncoding = this.parsingService.detectEncoding(this.readSample(filePath));
         result.encoding = detectedEncoding;
         this.logger.log(`Автоматически определена кодировка: ${detectedEncoding}`);
       } catch (error) {
@@ -69,29 +81,8 @@ export class AnalyzerService {
     
     try {
       // Читаем первые несколько строк файла для определения разделителя
-      const fd = fs.openSync(filePath, 'r');
-      const buffer = Buffer.alloc(1024);
-      const bytesRead = fs.readSync(fd, buffer, 0, 1024, 0);
-      fs.closeSync(fd);
-      
-      const sample = buffer.slice(0, bytesRead).toString();
-      
-      // Определяем, какой разделитель чаще встречается
-      const tabCount = (sample.match(/\t/g) || []).length;
-      const commaCount = (sample.match(/,/g) || []).length;
-      const semicolonCount = (sample.match(/;/g) || []).length;
-      
-      this.logger.log(`Обнаружено символов: табуляций=${tabCount}, запятых=${commaCount}, точек с запятой=${semicolonCount}`);
-      
-      if (tabCount > commaCount && tabCount > semicolonCount) {
-        delimiter = '\t';
-        this.logger.log('Определен разделитель: табуляция');
-      } else if (semicolonCount > commaCount) {
-        delimiter = ';';
-        this.logger.log('Определен разделитель: точка с запятой');
-      } else {
-        this.logger.log('Определен разделитель: запятая');
-      }
+      const sample = this.parsingService.decodeSample(this.readSample(filePath), result.encoding as ConcreteEncoding);
+      delimiter = this.parsingService.detectDelimiter(sample);
     } catch (error) {
       this.logger.warn(`Ошибка при определении разделителя: ${error.message}. Используем стандартный разделитель.`);
     }
@@ -103,18 +94,8 @@ export class AnalyzerService {
           highWaterMark: 64 * 1024 // 64KB буфер
         });
         
-        // Конвертируем кодировку, если это не UTF-8
-        let streamToUse: NodeJS.ReadableStream = readStream;
-        
-        if (result.encoding !== 'utf8') {
-          const encodingMap: Record<string, string> = {
-            'windows1251': 'win1251',
-            'koi8r': 'koi8-r',
-            'iso88595': 'iso-8859-5'
-          };
-          const iconvEncoding = encodingMap[result.encoding || 'utf8'] || result.encoding;
-          streamToUse = readStream.pipe(iconv.decodeStream(iconvEncoding as string));
-        }
+        // Декодируем поток (BOM отбрасывается)
+        const streamToUse = this.parsingService.decodeStream(readStream, result.encoding as ConcreteEncoding);
         
         // Настраиваем парсер CSV/TSV с оптимальными опциями
         const parserOptions = {
@@ -241,17 +222,7 @@ export class AnalyzerService {
           highWaterMark: 64 * 1024
         });
         
-        let streamToUse: NodeJS.ReadableStream = readStream;
-        
-        if (encoding !== 'utf8') {
-          const encodingMap: Record<string, string> = {
-            'windows1251': 'win1251',
-            'koi8r': 'koi8-r',
-            'iso88595': 'iso-8859-5'
-          };
-          const iconvEncoding = encodingMap[encoding || 'utf8'] || encoding;
-          streamToUse = readStream.pipe(iconv.decodeStream(iconvEncoding as string));
-        }
+        const streamToUse = this.parsingService.decodeStream(readStream, encoding as ConcreteEncoding);
         
         const parserOptions = {
           separator: delimiter,
@@ -309,40 +280,209 @@ export class AnalyzerService {
   }
 
   /**
-   * Определяет кодировку файла по содержимому
-   * @param buffer Буфер с содержимым файла
-   * @returns Тип кодировки
+   * Профилирует колонки файла. В режиме full читается весь файл и totalRows
+   * точен; в режиме sample читаются первые sampleSize строк, а totalRows
+   * оценивается по доле прочитанных байт.
    */
-  private async detectEncoding(buffer: Buffer): Promise<EncodingType> {
+  async profileFile(
+    filePath: string,
+    options: ProfileOptions = {}
+  ): Promise<CsvAnalysisResult> {
+    const mode = options.mode || 'sample';
+    const sampleSize = options.sampleSize || this.MAX_ROWS;
+    const fileSize = fs.statSync(filePath).size;
+
+    const format = this.parsingService.detectFormat(this.readSample(filePath), {
+      encoding: options.encoding,
+      delimiter: options.delimiter
+    });
+
+    this.logger.log(
+      `Профилирование файла ${filePath} (${this.formatFileSize(fileSize)}), режим: ${mode}` +
+      (mode === 'sample' ? `, выборка: ${sampleSize} строк` : '')
+    );
+
+    const readStream = fs.createReadStream(filePath, {
+      highWaterMark: 64 * 1024
+    });
+    let bytesRead = 0;
+    readStream.on('data', (chunk) => {
+      bytesRead += chunk.length;
+    });
+
+    let columns: string[] = [];
+    let profilers: ColumnProfiler[] = [];
+    const sampleData: Record<string, string>[] = [];
+    let analyzedRows = 0;
+    let skippedRows = 0;
+    let sampledBytes = 0;
+    let truncated = false;
+
     try {
-      // Используем chardet для определения кодировки
-      const detected = await chardet.detect(buffer);
-      
-      // Преобразуем результат в тип EncodingType
-      const detectedStr = String(detected).toLowerCase();
-      
-      if (detectedStr.includes('windows') || detectedStr.includes('1251')) {
-        return 'windows1251';
-      }
-      if (detectedStr.includes('koi8')) {
-        return 'koi8r';
-      }
-      if (detectedStr.includes('8859-5') || detectedStr.includes('88595')) {
-        return 'iso88595';
+      for await (const fields of this.parsingService.readRecords(readStream, format)) {
+        if (!columns.length) {
+          columns = fields.map(header => header.replace(/^["']+|["']+$/g, '').trim());
+          profilers = columns.map(() => new ColumnProfiler(
+            value => this.indexerService.normalizePhone(value) !== null
+          ));
+          sampledBytes += this.recordSize(fields, format.encoding);
+          continue;
+        }
+
+        if (mode === 'sample' && analyzedRows >= sampleSize) {
+          // Файл уже целиком в памяти — дешевле досчитать строки точно
+          if (bytesRead >= fileSize) {
+            skippedRows++;
+            continue;
+          }
+          truncated = true;
+          break;
+        }
+
+        analyzedRows++;
+        if (mode === 'sample') {
+          sampledBytes += this.recordSize(fields, format.encoding);
+        }
+        profilers.forEach((profiler, i) => profiler.add(fields[i]));
+
+        if (sampleData.length < this.SAMPLE_DATA_ROWS) {
+          const row: Record<string, string> = {};
+          columns.forEach((column, i) => {
+            row[column] = fields[i] ?? '';
+          });
+          sampleData.push(row);
+        }
+
+        if (analyzedRows % this.PROFILE_LOG_FREQUENCY === 0) {
+          this.logger.log(
+            `Прогресс: обработано ${analyzedRows} строк ` +
+            `(${Math.min(100, Math.round(bytesRead / fileSize * 100))}%)`
+          );
+        }
       }
-      
-      // Дополнительная проверка на UTF-8 BOM
-      if (buffer.length >= 3 && 
-          buffer[0] === 0xEF && 
-          buffer[1] === 0xBB && 
-          buffer[2] === 0xBF) {
-        return 'utf8';
+    } finally {
+      readStream.destroy();
+    }
+
+    const columnStats: { [key: string]: ColumnStats } = {};
+    columns.forEach((column, i) => {
+      columnStats[column] = profilers[i].getStats();
+    });
+
+    // Оценка по среднему размеру прочитанной записи: счётчик байт потока
+    // опережает парсер на размер буферов и для оценки не годится
+    const totalRows = truncated && sampledBytes > 0
+      ? Math.round(analyzedRows * fileSize / sampledBytes)
+      : analyzedRows + skippedRows;
+
+    this.logger.log(
+      `Профилирование завершено: ${analyzedRows} строк, ${columns.length} колонок` +
+      (truncated ? `, оценка общего числа строк: ~${totalRows}` : '')
+    );
+
+    return {
+      totalRows,
+      totalRowsEstimated: truncated,
+      analyzedRows,
+      mode,
+      encoding: format.encoding,
+      delimiter: format.delimiter,
+      fileSize,
+      columns,
+      columnStats,
+      sampleData
+    };
+  }
+
+  /**
+   * Предлагает настройки индексации по выборке из файла: кодировку,
+   * разделитель, колонку с телефонами (с ранжированными кандидатами)
+   * и соответствие полей колонкам
+   */
+  async suggestIndexConfig(
+    filePath: string,
+    originalName: string = path.basename(filePath),
+    options: ProfileOptions = {}
+  ): Promise<IndexSuggestion> {
+    const profile = await this.profileFile(filePath, { ...options, mode: 'sample' });
+    const phoneCandidates = rankPhoneCandidates(profile);
+    const phone = phoneCandidates[0];
+
+    if (phone) {
+      this.logger.log(
+        `Колонка с телефонами: "${phone.column}" (${Math.round(phone.score * 100)}% значений)`
+      );
+    } else {
+      this.logger.warn(`Колонка с телефонами не найдена среди ${profile.columns.length} колонок`);
+    }
+
+    return {
+      fileId: path.basename(filePath),
+      databaseId: path
+        .basename(originalName, path.extname(originalName))
+        .replace(/[^\wа-яё-]+/gi, '_'),
+      encoding: profile.encoding,
+      delimiter: profile.delimiter,
+      phoneColumn: phone ? phone.column : null,
+      phoneCandidates,
+      fieldMapping: suggestFieldMapping(profile, phone?.index),
+      profile
+    };
+  }
+
+  /**
+   * Запускает индексацию загруженного файла с принятыми настройками.
+   * Индексатор читает файл из хранилища, поэтому загрузка сначала
+   * переносится туда под своим ID. Описание колонок проверяется
+   * индексатором по заголовкам файла.
+   */
+  async startImport(fileId: string, dto: StartImportDto): Promise<IndexingJobInfo> {
+    if (!fileId || path.basename(fileId) !== fileId) {
+      throw new BadRequestException(`Некорректный ID файла: ${fileId}`);
+    }
+
+    // Повторный импорт (например, после ошибки в описании колонок) берёт уже перенесённый файл
+    if (!(await this.storage.objectExists(fileId))) {
+      const filePath = path.join(this.UPLOAD_DIR, fileId);
+      if (!fs.existsSync(filePath)) {
+        throw new NotFoundException(`Загруженный файл не найден: ${fileId}`);
       }
-      
-      return 'utf8';
-    } catch (error) {
-      this.logger.error(`Ошибка при определении кодировки: ${error.message}`);
-      return 'utf8';
+
+      this.logger.log(`Перенос файла ${fileId} в хранилище ${this.storage.location}`);
+      await this.storage.uploadFile(fileId, filePath);
+      await fs.promises.unlink(filePath);
+    }
+
+    const databaseId = dto.databaseId || path.basename(fileId, path.extname(fileId));
+    this.logger.log(`Импорт файла ${fileId} в базу ${databaseId}`);
+
+    return await this.indexerService.createIndex(fileId, { ...dto, databaseId });
+  }
+
+  /**
+   * Приблизительный размер записи в байтах исходного файла
+   */
+  private recordSize(fields: string[], encoding: EncodingType): number {
+    // Разделители и перевод строки
+    let size = fields.length;
+    for (const field of fields) {
+      // Прочие поддерживаемые кодировки однобайтовые
+      size += encoding === 'utf8' ? Buffer.byteLength(field) : field.length;
+    }
+    return size;
+  }
+
+  /**
+   * Читает начало файла для определения формата
+   */
+  private readSample(filePath: string): Buffer {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(this.parsingService.SAMPLE_SIZE);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
     }
   }
 
@@ -1,4 +1,17 @@
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  AnalysisMode,
+  EncodingType,
+  InferredType,
+} from '../types/analysis.types';
+
+export class TopValue {
+  @ApiProperty({ description: 'Значение' })
+  value: string;
+
+  @ApiProperty({ description: 'Количество вхождений' })
+  count: number;
+}
 
 export class ColumnStats {
   @ApiProperty({ description: 'Количество непустых значений' })
@@ -7,19 +20,73 @@ export class ColumnStats {
   @ApiProperty({ description: 'Количество пустых значений' })
   empty: number;
 
+  @ApiProperty({
+    description: 'Количество значений, распознанных как номер телефона',
+  })
+  validPhones: number;
+
+  @ApiProperty({ description: 'Доля заполненных значений (0..1)' })
+  fillRate: number;
+
   @ApiProperty({ description: 'Количество уникальных значений' })
   uniqueCount?: number;
 
-  uniqueValues?: Set<string>;
+  @ApiProperty({ description: 'Точный ли подсчёт уникальных значений' })
+  uniqueCountExact: boolean;
+
+  @ApiProperty({ description: 'Минимальная длина значения' })
+  minLength: number;
+
+  @ApiProperty({ description: 'Максимальная длина значения' })
+  maxLength: number;
+
+  @ApiProperty({
+    description: 'Предполагаемый тип колонки',
+    enum: [
+      'phone',
+      'email',
+      'date',
+      'inn',
+      'snils',
+      'numeric',
+      'string',
+      'empty',
+    ],
+  })
+  inferredType: InferredType;
+
+  @ApiProperty({ description: 'Количество значений каждого типа' })
+  typeCounts: Partial<Record<InferredType, number>>;
+
+  @ApiProperty({ description: 'Самые частые значения', type: [TopValue] })
+  topValues: TopValue[];
+
+  @ApiProperty({ description: 'Точны ли счётчики частых значений' })
+  topValuesExact: boolean;
 }
 
 export class CsvAnalysisResult {
   @ApiProperty({ description: 'Общее количество строк в файле' })
   totalRows: number;
 
+  @ApiProperty({ description: 'Является ли totalRows оценкой (режим выборки)' })
+  totalRowsEstimated: boolean;
+
   @ApiProperty({ description: 'Количество проанализированных строк' })
   analyzedRows: number;
 
+  @ApiProperty({ description: 'Режим анализа', enum: ['sample', 'full'] })
+  mode: AnalysisMode;
+
+  @ApiProperty({ description: 'Кодировка файла' })
+  encoding: EncodingType;
+
+  @ApiProperty({ description: 'Разделитель полей' })
+  delimiter: string;
+
+  @ApiProperty({ description: 'Размер файла в байтах' })
+  fileSize: number;
+
   @ApiProperty({ description: 'Список колонок' })
   columns: string[];
 
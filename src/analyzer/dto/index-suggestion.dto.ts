@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IndexOptionsDto } from '../../indexer/dto/create-index.dto';
+import { FieldMapping } from '../../indexer/types/index.types';
+import { EncodingType, PhoneColumnCandidate } from '../types/analysis.types';
+import { CsvAnalysisResult } from './csv-analysis-result.dto';
+
+export class IndexSuggestion {
+  @ApiProperty({ description: 'ID загруженного файла для запуска импорта' })
+  fileId: string;
+
+  @ApiProperty({ description: 'Предлагаемый ID базы данных' })
+  databaseId: string;
+
+  @ApiProperty({ description: 'Кодировка файла' })
+  encoding: EncodingType;
+
+  @ApiProperty({ description: 'Разделитель полей' })
+  delimiter: string;
+
+  @ApiProperty({
+    description: 'Предлагаемая колонка с телефонами',
+    nullable: true,
+  })
+  phoneColumn: string | null;
+
+  @ApiProperty({ description: 'Колонки-кандидаты по убыванию доли телефонов' })
+  phoneCandidates: PhoneColumnCandidate[];
+
+  @ApiProperty({ description: 'Предлагаемое соответствие полей колонкам' })
+  fieldMapping: FieldMapping;
+
+  @ApiProperty({
+    description: 'Профиль выборки, по которой сделано предложение',
+  })
+  profile: CsvAnalysisResult;
+}
+
+export class StartImportDto extends IndexOptionsDto {
+  @ApiProperty({
+    description: 'ID базы данных (по умолчанию — из предложения)',
+    required: false,
+  })
+  databaseId?: string;
+
+  @ApiProperty({ description: 'Кодировка', required: false })
+  encoding?: EncodingType;
+}
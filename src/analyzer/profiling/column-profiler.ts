@@ -0,0 +1,143 @@
+import { ColumnStats } from '../dto/csv-analysis-result.dto';
+import { InferredType } from '../types/analysis.types';
+import { HyperLogLog } from './hyperloglog';
+import { inferValueType } from './value-types';
+
+// Пока различных значений не больше этого числа, счётчики точные
+const EXACT_DISTINCT_LIMIT = 1000;
+// Размер сводки Мисры — Гриса для частых значений после перехода к приближению
+const FREQUENT_CAPACITY = 200;
+const TOP_VALUES = 10;
+// Доля непустых значений, при которой тип считается типом колонки
+const DOMINANT_TYPE_SHARE = 0.6;
+
+/**
+ * Накопитель статистики по одной колонке. Память ограничена:
+ * уникальные значения считаются через HyperLogLog, частые — сводкой Мисры — Гриса.
+ */
+export class ColumnProfiler {
+  private nonEmpty = 0;
+  private empty = 0;
+  private minLength = Number.POSITIVE_INFINITY;
+  private maxLength = 0;
+  private validPhones = 0;
+  private exact = true;
+  private readonly counts = new Map<string, number>();
+  private readonly hll = new HyperLogLog();
+  private readonly typeCounts: Partial<Record<InferredType, number>> = {};
+
+  /**
+   * @param isPhone Проверка значения нормализатором телефонов индексатора
+   */
+  constructor(private readonly isPhone?: (value: string) => boolean) {}
+
+  add(raw: string | undefined): void {
+    const value = (raw ?? '').trim();
+
+    if (!value) {
+      this.empty++;
+      return;
+    }
+
+    this.nonEmpty++;
+    this.minLength = Math.min(this.minLength, value.length);
+    this.maxLength = Math.max(this.maxLength, value.length);
+
+    const type = inferValueType(value);
+    this.typeCounts[type] = (this.typeCounts[type] || 0) + 1;
+
+    // ИНН и СНИЛС нормализатор тоже принимает за номера по числу цифр
+    if (
+      this.isPhone &&
+      type !== 'inn' &&
+      type !== 'snils' &&
+      this.isPhone(value)
+    ) {
+      this.validPhones++;
+    }
+
+    this.hll.add(value);
+    this.countValue(value);
+  }
+
+  getStats(): ColumnStats {
+    const total = this.nonEmpty + this.empty;
+    const topValues = Array.from(this.counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+
+    return {
+      nonEmpty: this.nonEmpty,
+      empty: this.empty,
+      validPhones: this.validPhones,
+      fillRate: total ? Math.round((this.nonEmpty / total) * 10000) / 10000 : 0,
+      uniqueCount: this.exact ? this.counts.size : this.hll.count(),
+      uniqueCountExact: this.exact,
+      minLength: this.nonEmpty ? this.minLength : 0,
+      maxLength: this.maxLength,
+      inferredType: this.dominantType(),
+      typeCounts: this.typeCounts,
+      topValues,
+      topValuesExact: this.exact,
+    };
+  }
+
+  private dominantType(): InferredType {
+    if (!this.nonEmpty) {
+      return 'empty';
+    }
+
+    const [type, count] = Object.entries(this.typeCounts).sort(
+      (a, b) => b[1] - a[1],
+    )[0] as [InferredType, number];
+
+    return count / this.nonEmpty >= DOMINANT_TYPE_SHARE ? type : 'string';
+  }
+
+  private countValue(value: string): void {
+    const current = this.counts.get(value);
+    if (current !== undefined) {
+      this.counts.set(value, current + 1);
+      return;
+    }
+
+    if (this.exact) {
+      this.counts.set(value, 1);
+      if (this.counts.size > EXACT_DISTINCT_LIMIT) {
+        this.exact = false;
+        this.shrinkCounts();
+      }
+      return;
+    }
+
+    if (this.counts.size < FREQUENT_CAPACITY) {
+      this.counts.set(value, 1);
+      return;
+    }
+
+    // Новое значение при заполненной сводке уменьшает все счётчики на единицу
+    for (const [key, count] of this.counts) {
+      if (count <= 1) {
+        this.counts.delete(key);
+      } else {
+        this.counts.set(key, count - 1);
+      }
+    }
+  }
+
+  // Слияние точных счётчиков в сводку: вычитаем (k+1)-й по величине счётчик
+  private shrinkCounts(): void {
+    const sorted = Array.from(this.counts.entries()).sort(
+      (a, b) => b[1] - a[1],
+    );
+    const threshold = sorted[FREQUENT_CAPACITY]?.[1] ?? 0;
+
+    this.counts.clear();
+    for (const [value, count] of sorted.slice(0, FREQUENT_CAPACITY)) {
+      if (count > threshold) {
+        this.counts.set(value, count - threshold);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * HyperLogLog для приблизительного подсчёта уникальных значений
+ * на полном проходе по файлу (погрешность ~1.6% при p = 12).
+ */
+export class HyperLogLog {
+  private readonly registers: Uint8Array;
+  private readonly m: number;
+
+  constructor(private readonly precision = 12) {
+    this.m = 1 << precision;
+    this.registers = new Uint8Array(this.m);
+  }
+
+  add(value: string): void {
+    const hash = hash32(value);
+    const index = hash >>> (32 - this.precision);
+    const rest = (hash << this.precision) >>> 0;
+    const rank = Math.min(Math.clz32(rest) + 1, 32 - this.precision + 1);
+
+    if (rank > this.registers[index]) {
+      this.registers[index] = rank;
+    }
+  }
+
+  count(): number {
+    let sum = 0;
+    let zeros = 0;
+    for (const register of this.registers) {
+      sum += 2 ** -register;
+      if (register === 0) {
+        zeros++;
+      }
+    }
+
+    const alpha = 0.7213 / (1 + 1.079 / this.m);
+    const estimate = (alpha * this.m * this.m) / sum;
+
+    // Поправка для малых значений — линейный подсчёт
+    if (estimate <= 2.5 * this.m && zeros > 0) {
+      return Math.round(this.m * Math.log(this.m / zeros));
+    }
+    return Math.round(estimate);
+  }
+}
+
+// FNV-1a с финальным перемешиванием из MurmurHash3
+function hash32(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
@@ -0,0 +1,100 @@
+import { ColumnStats, CsvAnalysisResult } from '../dto/csv-analysis-result.dto';
+import { rankPhoneCandidates, suggestFieldMapping } from './index-suggestion';
+
+describe('index suggestion', () => {
+  const profileOf = (
+    columns: [string, Partial<ColumnStats>][],
+    analyzedRows = 10,
+  ): CsvAnalysisResult =>
+    ({
+      analyzedRows,
+      columns: columns.map(([column]) => column),
+      columnStats: Object.fromEntries(
+        columns.map(([column, stats]) => [
+          column,
+          {
+            validPhones: 0,
+            nonEmpty: analyzedRows,
+            fillRate: 1,
+            inferredType: 'string',
+            ...stats,
+          },
+        ]),
+      ),
+    }) as CsvAnalysisResult;
+
+  describe('rankPhoneCandidates', () => {
+    it('orders columns by the share of phones and drops rare ones', () => {
+      const profile = profileOf([
+        ['Комментарий', { validPhones: 0 }],
+        ['Доп. номер', { validPhones: 4 }],
+        ['Номер', { validPhones: 9 }],
+        ['Код', { validPhones: 0.5 }],
+      ]);
+
+      expect(rankPhoneCandidates(profile)).toEqual([
+        { column: 'Номер', index: 2, score: 0.9, validPhones: 9, nonEmpty: 10 },
+        {
+          column: 'Доп. номер',
+          index: 1,
+          score: 0.4,
+          validPhones: 4,
+          nonEmpty: 10,
+        },
+      ]);
+    });
+
+    it('prefers a phone-like header when the shares are equal', () => {
+      const profile = profileOf([
+        ['Номер договора', { validPhones: 5 }],
+        ['Тел', { validPhones: 5 }],
+      ]);
+
+      expect(
+        rankPhoneCandidates(profile).map((candidate) => candidate.column),
+      ).toEqual(['Тел', 'Номер договора']);
+    });
+
+    it('returns no candidates for an empty sample', () => {
+      expect(
+        rankPhoneCandidates(profileOf([['Тел', { validPhones: 0 }]], 0)),
+      ).toEqual([]);
+    });
+  });
+
+  describe('suggestFieldMapping', () => {
+    it('maps headers by synonyms and the rest by the value type', () => {
+      const profile = profileOf([
+        ['Фамилия', {}],
+        ['Имя', {}],
+        ['Mobile', { inferredType: 'phone' }],
+        ['Д.р.', {}],
+        ['Контакт', { inferredType: 'email', fillRate: 0.5 }],
+        ['Почта2', { inferredType: 'email', fillRate: 0.9 }],
+        ['Номер', { inferredType: 'snils' }],
+      ]);
+
+      expect(suggestFieldMapping(profile, 2)).toEqual({
+        phone: 'Mobile',
+        lastName: 'Фамилия',
+        firstName: 'Имя',
+        birthDate: 'Д.р.',
+        snils: 'Номер',
+        email: 'Почта2',
+      });
+    });
+
+    it('refers to repeated headers by index', () => {
+      const profile = profileOf([
+        ['Телефон', {}],
+        ['Телефон', {}],
+        ['Имя', {}],
+      ]);
+
+      expect(suggestFieldMapping(profile, 1)).toEqual({
+        phone: 1,
+        firstName: 'Имя',
+      });
+    });
+  });
+});
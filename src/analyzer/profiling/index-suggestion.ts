@@ -0,0 +1,131 @@
+import {
+  CanonicalField,
+  ColumnRef,
+  FieldMapping,
+} from '../../indexer/types/index.types';
+import { CsvAnalysisResult } from '../dto/csv-analysis-result.dto';
+import { InferredType, PhoneColumnCandidate } from '../types/analysis.types';
+
+// Колонка с меньшей долей распознанных телефонов кандидатом не считается
+const MIN_PHONE_SCORE = 0.1;
+
+const HEADER_SYNONYMS: Record<CanonicalField, string[]> = {
+  lastName: ['фамилия', 'lastname', 'surname', 'familia', 'fam'],
+  firstName: ['имя', 'firstname', 'name'],
+  middleName: ['отчество', 'middlename', 'patronymic', 'otchestvo'],
+  birthDate: ['датарождения', 'др', 'birthdate', 'birthday', 'dob'],
+  phone: ['телефон', 'тел', 'мобильный', 'phone', 'mobile', 'tel'],
+  snils: ['снилс', 'snils'],
+  inn: ['инн', 'inn'],
+  email: ['email', 'почта', 'электроннаяпочта', 'mail'],
+};
+
+// Поля, которые можно узнать по содержимому, если заголовок не помог
+const FIELD_TYPES: Partial<Record<CanonicalField, InferredType>> = {
+  birthDate: 'date',
+  snils: 'snils',
+  inn: 'inn',
+  email: 'email',
+};
+
+/**
+ * Ранжирует колонки по доле значений, распознанных как телефон.
+ * При равной доле выше колонка, чей заголовок похож на телефон.
+ */
+export function rankPhoneCandidates(
+  profile: CsvAnalysisResult,
+): PhoneColumnCandidate[] {
+  return profile.columns
+    .map((column, index) => {
+      const stats = profile.columnStats[column];
+      return {
+        column,
+        index,
+        score: profile.analyzedRows
+          ? Math.round((stats.validPhones / profile.analyzedRows) * 10000) /
+            10000
+          : 0,
+        validPhones: stats.validPhones,
+        nonEmpty: stats.nonEmpty,
+      };
+    })
+    .filter((candidate) => candidate.score >= MIN_PHONE_SCORE)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(matchesHeader(b.column, 'phone')) -
+          Number(matchesHeader(a.column, 'phone')),
+    );
+}
+
+/**
+ * Предлагает соответствие канонических полей колонкам: сначала по заголовкам,
+ * затем по предполагаемому типу значений.
+ */
+export function suggestFieldMapping(
+  profile: CsvAnalysisResult,
+  phoneIndex: number | undefined,
+): FieldMapping {
+  const mapping: FieldMapping = {};
+  const used = new Set<number>();
+
+  const assign = (field: CanonicalField, index: number) => {
+    mapping[field] = columnRef(profile.columns, index);
+    used.add(index);
+  };
+
+  if (phoneIndex !== undefined) {
+    assign('phone', phoneIndex);
+  }
+
+  for (const field of Object.keys(HEADER_SYNONYMS) as CanonicalField[]) {
+    if (mapping[field] !== undefined) {
+      continue;
+    }
+    const index = profile.columns.findIndex(
+      (column, i) => !used.has(i) && matchesHeader(column, field),
+    );
+    if (index !== -1) {
+      assign(field, index);
+    }
+  }
+
+  for (const [field, type] of Object.entries(FIELD_TYPES) as [
+    CanonicalField,
+    InferredType,
+  ][]) {
+    if (mapping[field] !== undefined) {
+      continue;
+    }
+    let best = -1;
+    profile.columns.forEach((column, i) => {
+      const stats = profile.columnStats[column];
+      if (
+        !used.has(i) &&
+        stats.inferredType === type &&
+        (best === -1 ||
+          stats.fillRate > profile.columnStats[profile.columns[best]].fillRate)
+      ) {
+        best = i;
+      }
+    });
+    if (best !== -1) {
+      assign(field, best);
+    }
+  }
+
+  return mapping;
+}
+
+function matchesHeader(column: string, field: CanonicalField): boolean {
+  const normalized = column.toLowerCase().replace(/[\s_.-]/g, '');
+  return HEADER_SYNONYMS[field].includes(normalized);
+}
+
+// Повторяющиеся заголовки по имени не различить — для них нужен индекс
+function columnRef(columns: string[], index: number): ColumnRef {
+  const name = columns[index];
+  return name && columns.indexOf(name) === columns.lastIndexOf(name)
+    ? name
+    : index;
+}
@@ -0,0 +1,25 @@
+import { inferValueType, isValidInn, isValidSnils } from './value-types';
+
+describe('value-types', () => {
+  it('validates INN and SNILS checksums', () => {
+    expect(isValidInn('7707083893')).toBe(true);
+    expect(isValidInn('7707083894')).toBe(false);
+    expect(isValidInn('500100732259')).toBe(true);
+    expect(isValidSnils('112-233-445 95')).toBe(true);
+    expect(isValidSnils('11223344596')).toBe(false);
+  });
+
+  it('infers value types', () => {
+    expect(inferValueType('')).toBe('empty');
+    expect(inferValueType('ivanov@mail.ru')).toBe('email');
+    expect(inferValueType('01.02.1990')).toBe('date');
+    expect(inferValueType('1990-02-01')).toBe('date');
+    expect(inferValueType('+7 (916) 222-33-44')).toBe('phone');
+    expect(inferValueType('89162223344')).toBe('phone');
+    expect(inferValueType('9162223344')).toBe('phone');
+    expect(inferValueType('7707083893')).toBe('inn');
+    expect(inferValueType('11223344595')).toBe('snils');
+    expect(inferValueType('42,5')).toBe('numeric');
+    expect(inferValueType('Иванов')).toBe('string');
+  });
+});
@@ -0,0 +1,88 @@
+import { InferredType } from '../types/analysis.types';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE =
+  /^(\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{4}-\d{2}-\d{2})(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/;
+const SNILS_FORMATTED = /^\d{3}-\d{3}-\d{3}[ -]\d{2}$/;
+const PHONE_FORMATTED = /^\+?[\d\s().-]+$/;
+const NUMERIC = /^[-+]?\d+(?:[.,]\d+)?$/;
+
+/**
+ * Определяет тип отдельного значения. Цифровые строки различаются
+ * по длине и контрольным суммам ИНН и СНИЛС.
+ */
+export function inferValueType(value: string): InferredType {
+  if (!value) {
+    return 'empty';
+  }
+  if (EMAIL.test(value)) {
+    return 'email';
+  }
+  if (DATE.test(value)) {
+    return 'date';
+  }
+  if (SNILS_FORMATTED.test(value)) {
+    return 'snils';
+  }
+
+  if (/^\d+$/.test(value)) {
+    switch (value.length) {
+      case 10:
+        if (isValidInn(value)) return 'inn';
+        return value[0] === '9' ? 'phone' : 'numeric';
+      case 11:
+        if (/^[78]9/.test(value)) return 'phone';
+        if (isValidSnils(value)) return 'snils';
+        return /^[78]/.test(value) ? 'phone' : 'numeric';
+      case 12:
+        return isValidInn(value) ? 'inn' : 'numeric';
+      default:
+        return 'numeric';
+    }
+  }
+
+  if (PHONE_FORMATTED.test(value)) {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length >= 10 && digits.length <= 12) {
+      return 'phone';
+    }
+  }
+
+  return NUMERIC.test(value) ? 'numeric' : 'string';
+}
+
+export function isValidInn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  const checksum = (coefficients: number[]) =>
+    (coefficients.reduce((sum, k, i) => sum + k * Number(digits[i]), 0) % 11) %
+    10;
+
+  if (digits.length === 10) {
+    return checksum([2, 4, 10, 3, 5, 9, 4, 6, 8]) === Number(digits[9]);
+  }
+  if (digits.length === 12) {
+    return (
+      checksum([7, 2, 4, 10, 3, 5, 9, 4, 6, 8]) === Number(digits[10]) &&
+      checksum([3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8]) === Number(digits[11])
+    );
+  }
+  return false;
+}
+
+export function isValidSnils(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 11) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(digits[i]) * (9 - i);
+  }
+
+  let control = sum % 101;
+  if (control === 100) {
+    control = 0;
+  }
+  return control === Number(digits.substring(9));
+}
@@ -1,5 +1,7 @@
 
-export type EncodingType = 'auto' | 'utf8' | 'windows1251' | 'koi8r' | 'iso88595';
+import type { EncodingType } from '../../parsing/types/parsing.types';
+
+export type { EncodingType };
 
 export interface ColumnInfo {
   filled: number;
@@ -14,4 +16,31 @@ export interface AnalysisResult {
     [key: string]: ColumnInfo;
   };
   encoding?: EncodingType; // Добавлено поле для кодировки
-}
\ No newline at end of file
+}
+
+export type InferredType =
+  | 'phone'
+  | 'email'
+  | 'date'
+  | 'inn'
+  | 'snils'
+  | 'numeric'
+  | 'string'
+  | 'empty';
+
+export type AnalysisMode = 'sample' | 'full';
+
+export interface ProfileOptions {
+  mode?: AnalysisMode;
+  sampleSize?: number; // Только для режима sample
+  encoding?: EncodingType;
+  delimiter?: string;
+}
+
+export interface PhoneColumnCandidate {
+  column: string;
+  index: number;
+  score: number; // Доля проанализированных строк с распознанным телефоном
+  validPhones: number;
+  nonEmpty: number;
+}
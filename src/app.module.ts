@@ -1,25 +1,22 @@
 import { Module } from '@nestjs/common';
 import { MulterModule } from '@nestjs/platform-express';
-import { ServeStaticModule } from '@nestjs/serve-static';
 import { ConfigModule } from '@nestjs/config';
-import { join } from 'path';
 import { AnalyzerModule } from './analyzer/analyzer.module';
 import { IndexerModule } from './indexer/indexer.module';
+import { DatabaseModule } from './database/database.module';
+import { uploadDirFromEnv } from './indexer/storage/storage.factory';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
-    MulterModule.register({
-      dest: './uploads',
-    }),
-    ServeStaticModule.forRoot({
-      rootPath: join(__dirname, '..', 'uploads'),
-      serveRoot: '/uploads',
+    MulterModule.registerAsync({
+      useFactory: () => ({ dest: uploadDirFromEnv() }),
     }),
     AnalyzerModule,
     IndexerModule,
+    DatabaseModule,
   ],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule {}
@@ -0,0 +1,26 @@
+import { BadRequestException } from '@nestjs/common';
+import { DatabaseType } from '../types/database.types';
+import { MysqlConnector } from './mysql.connector';
+import { PostgresConnector } from './postgres.connector';
+import { SourceConnector } from './source-connector';
+import { SqliteConnector, sqlitePathOf } from './sqlite.connector';
+
+export async function createSourceConnector(
+  type: DatabaseType,
+  connectionString: string,
+): Promise<SourceConnector> {
+  switch (type) {
+    case DatabaseType.SQLITE:
+      return new SqliteConnector(sqlitePathOf(connectionString));
+    case DatabaseType.POSTGRES:
+      return PostgresConnector.open(connectionString);
+    case DatabaseType.MYSQL:
+      return MysqlConnector.open(connectionString);
+    case DatabaseType.MONGODB:
+      throw new BadRequestException(
+        'MongoDB не поддерживается: индексировать можно только SQL-базы',
+      );
+    default:
+      throw new BadRequestException(`У источника типа ${type} нет подключения`);
+  }
+}
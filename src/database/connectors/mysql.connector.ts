@@ -0,0 +1,184 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ConnectionOptions,
+  FieldPacket,
+  RowDataPacket,
+  createConnection,
+} from 'mysql2';
+import {
+  Connection as PromiseConnection,
+  createConnection as createPromiseConnection,
+} from 'mysql2/promise';
+import { RecordSource } from '../../indexer/types/index.types';
+import { Table } from '../types/database.types';
+import {
+  SourceConnector,
+  SourceSelection,
+  columnTypeOfSql,
+  fieldValue,
+  findTable,
+} from './source-connector';
+
+interface MysqlColumnRow extends RowDataPacket {
+  table_name: string;
+  column_name: string;
+  column_type: string;
+  is_nullable: string;
+  column_key: string;
+}
+
+const COLUMNS_SQL = `
+  SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+    COLUMN_TYPE AS column_type, IS_NULLABLE AS is_nullable, COLUMN_KEY AS column_key
+  FROM information_schema.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+  ORDER BY TABLE_NAME, ORDINAL_POSITION`;
+
+// TABLE_ROWS для InnoDB — оценка, зато без полного прохода по таблице
+const ROW_ESTIMATES_SQL = `
+  SELECT TABLE_NAME AS table_name, TABLE_ROWS AS table_rows
+  FROM information_schema.TABLES
+  WHERE TABLE_SCHEMA = DATABASE()`;
+
+function connectionOptions(connectionString: string): ConnectionOptions {
+  // Даты и большие числа приходят строками, без пересчёта в часовой пояс сервера
+  return {
+    uri: connectionString,
+    dateStrings: true,
+    supportBigNumbers: true,
+    bigNumberStrings: true,
+  };
+}
+
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
+async function connect(connectionString: string): Promise<PromiseConnection> {
+  try {
+    return await createPromiseConnection(connectionOptions(connectionString));
+  } catch (error) {
+    throw new BadRequestException(
+      `Не удалось подключиться к MySQL: ${(error as Error).message}`,
+    );
+  }
+}
+
+async function* readMysqlRows(
+  connectionString: string,
+  sql: string,
+): AsyncGenerator<string[]> {
+  const connection = createConnection(connectionOptions(connectionString));
+  try {
+    await connection.promise().query('START TRANSACTION READ ONLY');
+    const stream = connection.query({ sql, rowsAsArray: true }).stream();
+    try {
+      for await (const row of stream) {
+        yield (row as unknown[]).map(fieldValue);
+      }
+    } finally {
+      stream.destroy();
+    }
+  } finally {
+    // end() дождался бы недочитанного результата
+    connection.destroy();
+  }
+}
+
+/**
+ * MySQL: строки читаются потоком в транзакции только для чтения
+ */
+export class MysqlConnector implements SourceConnector {
+  private constructor(
+    private readonly connectionString: string,
+    private readonly connection: PromiseConnection,
+  ) {}
+
+  static async open(connectionString: string): Promise<MysqlConnector> {
+    return new MysqlConnector(
+      connectionString,
+      await connect(connectionString),
+    );
+  }
+
+  async listTables(): Promise<Table[]> {
+    const [columns] =
+      await this.connection.query<MysqlColumnRow[]>(COLUMNS_SQL);
+    const [estimates] =
+      await this.connection.query<RowDataPacket[]>(ROW_ESTIMATES_SQL);
+    const rowCounts = new Map(
+      estimates.map((row) => [
+        row.table_name as string,
+        Number(row.table_rows ?? 0),
+      ]),
+    );
+
+    const tables = new Map<string, Table>();
+    for (const row of columns) {
+      if (!tables.has(row.table_name)) {
+        tables.set(row.table_name, {
+          name: row.table_name,
+          columns: [],
+          rowCount: rowCounts.get(row.table_name),
+        });
+      }
+      tables.get(row.table_name)!.columns.push({
+        name: row.column_name,
+        type: columnTypeOfSql(row.column_type),
+        nullable: row.is_nullable === 'YES',
+        isPrimaryKey: row.column_key === 'PRI' || undefined,
+      });
+    }
+
+    return [...tables.values()];
+  }
+
+  async prepare(selection: SourceSelection): Promise<RecordSource> {
+    let name = 'query';
+    // Точка с запятой в конце мешает обернуть запрос в подзапрос
+    let sql = (selection.query ?? '').trim().replace(/;+$/, '');
+    let estimatedRows: number | undefined;
+
+    if (selection.table) {
+      const table = findTable(await this.listTables(), selection.table);
+      if (!table) {
+        throw new BadRequestException(`Таблица ${selection.table} не найдена`);
+      }
+      name = table.name;
+      sql = `SELECT * FROM ${quoteIdentifier(table.name)}`;
+      estimatedRows = table.rowCount;
+    }
+
+    let fields: FieldPacket[];
+    try {
+      await this.connection.query('START TRANSACTION READ ONLY');
+      [, fields] = await this.connection.query(
+        `SELECT * FROM (${sql}) AS source LIMIT 0`,
+      );
+      if (!estimatedRows) {
+        const [count] = await this.connection.query<RowDataPacket[]>(
+          `SELECT COUNT(*) AS count FROM (${sql}) AS source`,
+        );
+        estimatedRows = Number(count[0].count);
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `Ошибка в запросе: ${(error as Error).message}`,
+      );
+    } finally {
+      await this.connection.query('ROLLBACK').catch(() => undefined);
+    }
+
+    const connectionString = this.connectionString;
+    return {
+      name,
+      headers: fields.map((field) => field.name),
+      estimatedRows,
+      readRecords: () => readMysqlRows(connectionString, sql),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.connection.end();
+  }
+}
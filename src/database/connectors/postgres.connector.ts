@@ -0,0 +1,210 @@
+import { BadRequestException } from '@nestjs/common';
+import { Client, CustomTypesConfig } from 'pg';
+import * as Cursor from 'pg-cursor';
+import { RecordSource } from '../../indexer/types/index.types';
+import { Table } from '../types/database.types';
+import {
+  STREAM_BATCH_SIZE,
+  SourceConnector,
+  SourceSelection,
+  columnTypeOfSql,
+  fieldValue,
+  findTable,
+} from './source-connector';
+
+interface PostgresColumnRow {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  is_primary_key: boolean;
+}
+
+const COLUMNS_SQL = `
+  SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable,
+    EXISTS (
+      SELECT 1
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage k
+        ON k.constraint_name = tc.constraint_name
+       AND k.table_schema = tc.table_schema
+       AND k.table_name = tc.table_name
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND k.table_schema = c.table_schema
+        AND k.table_name = c.table_name
+        AND k.column_name = c.column_name
+    ) AS is_primary_key
+  FROM information_schema.columns c
+  WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+  ORDER BY c.table_schema, c.table_name, c.ordinal_position`;
+
+// Оценка из статистики планировщика: COUNT(*) по большой таблице слишком долгий
+const ROW_ESTIMATES_SQL = `
+  SELECT n.nspname AS table_schema, c.relname AS table_name,
+    GREATEST(c.reltuples, 0)::bigint AS rows
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'p', 'm')`;
+
+// Значения приходят текстом, как их выводит PostgreSQL, без преобразования в Date и числа
+const RAW_TEXT_TYPES: CustomTypesConfig = {
+  getTypeParser: () => (value: string) => value,
+};
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Таблицы схемы public называются без схемы
+function tableName(schema: string, table: string): string {
+  return schema === 'public' ? table : `${schema}.${table}`;
+}
+
+async function connect(connectionString: string): Promise<Client> {
+  const client = new Client({ connectionString });
+  try {
+    await client.connect();
+  } catch (error) {
+    throw new BadRequestException(
+      `Не удалось подключиться к PostgreSQL: ${(error as Error).message}`,
+    );
+  }
+  return client;
+}
+
+async function* readPostgresRows(
+  connectionString: string,
+  sql: string,
+): AsyncGenerator<string[]> {
+  const client = await connect(connectionString);
+  try {
+    await client.query('BEGIN READ ONLY');
+    const cursor = client.query(
+      new Cursor<unknown[]>(sql, [], {
+        rowMode: 'array',
+        types: RAW_TEXT_TYPES,
+      }),
+    );
+    try {
+      for (;;) {
+        const rows = await cursor.read(STREAM_BATCH_SIZE);
+        if (!rows.length) {
+          break;
+        }
+        for (const row of rows) {
+          yield row.map(fieldValue);
+        }
+      }
+    } finally {
+      await cursor.close();
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * PostgreSQL: строки читаются курсором в транзакции только для чтения
+ */
+export class PostgresConnector implements SourceConnector {
+  // Имя таблицы в списке → имя со схемой для запроса
+  private readonly qualifiedNames = new Map<string, string>();
+
+  private constructor(
+    private readonly connectionString: string,
+    private readonly client: Client,
+  ) {}
+
+  static async open(connectionString: string): Promise<PostgresConnector> {
+    return new PostgresConnector(
+      connectionString,
+      await connect(connectionString),
+    );
+  }
+
+  async listTables(): Promise<Table[]> {
+    const columns = await this.client.query<PostgresColumnRow>(COLUMNS_SQL);
+    const estimates = await this.client.query<{
+      table_schema: string;
+      table_name: string;
+      rows: string;
+    }>(ROW_ESTIMATES_SQL);
+    const rowCounts = new Map(
+      estimates.rows.map((row) => [
+        tableName(row.table_schema, row.table_name),
+        Number(row.rows),
+      ]),
+    );
+
+    const tables = new Map<string, Table>();
+    for (const row of columns.rows) {
+      const name = tableName(row.table_schema, row.table_name);
+      this.qualifiedNames.set(
+        name,
+        `${quoteIdentifier(row.table_schema)}.${quoteIdentifier(row.table_name)}`,
+      );
+      if (!tables.has(name)) {
+        tables.set(name, { name, columns: [], rowCount: rowCounts.get(name) });
+      }
+      tables.get(name)!.columns.push({
+        name: row.column_name,
+        type: columnTypeOfSql(row.data_type),
+        nullable: row.is_nullable === 'YES',
+        isPrimaryKey: row.is_primary_key || undefined,
+      });
+    }
+
+    return [...tables.values()];
+  }
+
+  async prepare(selection: SourceSelection): Promise<RecordSource> {
+    let name = 'query';
+    // Точка с запятой в конце мешает обернуть запрос в подзапрос
+    let sql = (selection.query ?? '').trim().replace(/;+$/, '');
+    let estimatedRows: number | undefined;
+
+    if (selection.table) {
+      const table = findTable(await this.listTables(), selection.table);
+      if (!table) {
+        throw new BadRequestException(`Таблица ${selection.table} не найдена`);
+      }
+      name = table.name;
+      sql = `SELECT * FROM ${this.qualifiedNames.get(table.name)}`;
+      estimatedRows = table.rowCount;
+    }
+
+    let headers: string[];
+    try {
+      await this.client.query('BEGIN READ ONLY');
+      const result = await this.client.query(
+        `SELECT * FROM (${sql}) AS source LIMIT 0`,
+      );
+      headers = result.fields.map((field) => field.name);
+      if (!estimatedRows) {
+        const count = await this.client.query<{ count: string }>(
+          `SELECT COUNT(*) AS count FROM (${sql}) AS source`,
+        );
+        estimatedRows = Number(count.rows[0].count);
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `Ошибка в запросе: ${(error as Error).message}`,
+      );
+    } finally {
+      await this.client.query('ROLLBACK').catch(() => undefined);
+    }
+
+    const connectionString = this.connectionString;
+    return {
+      name,
+      headers,
+      estimatedRows,
+      readRecords: () => readPostgresRows(connectionString, sql),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.end();
+  }
+}
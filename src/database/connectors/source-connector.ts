@@ -0,0 +1,78 @@
+import { RecordSource } from '../../indexer/types/index.types';
+import { ColumnType, Table } from '../types/database.types';
+
+// Строк за одно чтение курсора или между передачами управления циклу событий
+export const STREAM_BATCH_SIZE = 1000;
+
+// Индексируется таблица целиком или результат запроса
+export interface SourceSelection {
+  table?: string;
+  query?: string;
+}
+
+/**
+ * Подключение к внешней СУБД: описание таблиц и чтение строк для индексации
+ */
+export interface SourceConnector {
+  listTables(): Promise<Table[]>;
+  /**
+   * Заголовки и оценка числа строк выборки: по статистике таблицы,
+   * а без неё (запрос, пустая статистика) — COUNT(*). Строки читаются позже,
+   * по отдельному соединению, когда до задачи индексации дойдёт очередь.
+   */
+  prepare(selection: SourceSelection): Promise<RecordSource>;
+  close(): Promise<void>;
+}
+
+/**
+ * Тип колонки по объявленному в СУБД типу
+ */
+export function columnTypeOfSql(declared: string): ColumnType {
+  const type = declared.toLowerCase();
+  if (type.endsWith('[]') || type === 'array') {
+    return ColumnType.ARRAY;
+  }
+  if (type.includes('json')) {
+    return ColumnType.JSON;
+  }
+  if (type.includes('bool') || type === 'bit' || type === 'tinyint(1)') {
+    return ColumnType.BOOLEAN;
+  }
+  if (/date|time|year/.test(type)) {
+    return ColumnType.DATE;
+  }
+  if (/int|serial|numeric|decimal|real|double|float|number|money/.test(type)) {
+    return ColumnType.NUMBER;
+  }
+  return ColumnType.STRING;
+}
+
+/**
+ * Значение поля строкой, как оно выглядело бы в выгрузке CSV
+ */
+export function fieldValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('hex');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value as string | number | bigint | boolean);
+}
+
+/**
+ * Таблица из списка описанных; имя сравнивается без учёта регистра,
+ * если точного совпадения нет
+ */
+export function findTable(tables: Table[], name: string): Table | undefined {
+  return (
+    tables.find((table) => table.name === name) ??
+    tables.find((table) => table.name.toLowerCase() === name.toLowerCase())
+  );
+}
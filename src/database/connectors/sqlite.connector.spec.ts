@@ -0,0 +1,102 @@
+import { BadRequestException } from '@nestjs/common';
+import * as BetterSqlite3 from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ColumnType } from '../types/database.types';
+import { SqliteConnector, sqlitePathOf } from './sqlite.connector';
+
+async function collect(rows: AsyncIterable<string[]>): Promise<string[][]> {
+  const result: string[][] = [];
+  for await (const row of rows) {
+    result.push(row);
+  }
+  return result;
+}
+
+describe('SqliteConnector', () => {
+  let rootDir: string;
+  let filePath: string;
+  let connector: SqliteConnector;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-source-'));
+    filePath = path.join(rootDir, 'crm.db');
+    const db = new BetterSqlite3(filePath);
+    db.exec(`
+      CREATE TABLE clients (
+        id INTEGER PRIMARY KEY,
+        phone TEXT NOT NULL,
+        last_name TEXT,
+        birth_date DATE
+      );
+      INSERT INTO clients (phone, last_name, birth_date) VALUES
+        ('+7 916 123-45-67', 'Иванов', '1990-01-02'),
+        ('89167654321', NULL, NULL);
+    `);
+    db.close();
+    connector = new SqliteConnector(filePath);
+  });
+
+  afterEach(async () => {
+    await connector.close();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('describes tables with column types and row counts', async () => {
+    const [table] = await connector.listTables();
+
+    expect(table.name).toBe('clients');
+    expect(table.rowCount).toBe(2);
+    expect(table.columns).toEqual([
+      {
+        name: 'id',
+        type: ColumnType.NUMBER,
+        nullable: false,
+        isPrimaryKey: true,
+      },
+      { name: 'phone', type: ColumnType.STRING, nullable: false },
+      { name: 'last_name', type: ColumnType.STRING, nullable: true },
+      { name: 'birth_date', type: ColumnType.DATE, nullable: true },
+    ]);
+  });
+
+  it('streams rows of a table as strings', async () => {
+    const source = await connector.prepare({ table: 'CLIENTS' });
+
+    expect(source.name).toBe('clients');
+    expect(source.headers).toEqual(['id', 'phone', 'last_name', 'birth_date']);
+    expect(source.estimatedRows).toBe(2);
+    expect(await collect(source.readRecords())).toEqual([
+      ['1', '+7 916 123-45-67', 'Иванов', '1990-01-02'],
+      ['2', '89167654321', '', ''],
+    ]);
+  });
+
+  it('streams the result of a query', async () => {
+    const source = await connector.prepare({
+      query:
+        'SELECT phone AS Телефон FROM clients WHERE last_name IS NOT NULL;',
+    });
+
+    expect(source.headers).toEqual(['Телефон']);
+    expect(source.estimatedRows).toBe(1);
+    expect(await collect(source.readRecords())).toEqual([['+7 916 123-45-67']]);
+  });
+
+  it('rejects statements that modify data', async () => {
+    await expect(
+      connector.prepare({ query: 'DELETE FROM clients' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      connector.prepare({ table: 'missing' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('parses connection strings', () => {
+    expect(sqlitePathOf('sqlite:///var/data/crm.db')).toBe('/var/data/crm.db');
+    expect(sqlitePathOf('sqlite:crm.db')).toBe('crm.db');
+    expect(sqlitePathOf('file:crm.db')).toBe('crm.db');
+    expect(sqlitePathOf('/var/data/crm.db')).toBe('/var/data/crm.db');
+  });
+});
@@ -0,0 +1,165 @@
+import { BadRequestException } from '@nestjs/common';
+import * as BetterSqlite3 from 'better-sqlite3';
+import { RecordSource } from '../../indexer/types/index.types';
+import { Table } from '../types/database.types';
+import {
+  STREAM_BATCH_SIZE,
+  SourceConnector,
+  SourceSelection,
+  columnTypeOfSql,
+  fieldValue,
+  findTable,
+} from './source-connector';
+
+interface SqliteColumnInfo {
+  name: string;
+  type: string;
+  notnull: number;
+  pk: number;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function openDatabase(filePath: string): BetterSqlite3.Database {
+  try {
+    return new BetterSqlite3(filePath, { readonly: true, fileMustExist: true });
+  } catch (error) {
+    throw new BadRequestException(
+      `Не удалось открыть базу SQLite ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Путь к файлу базы из строки подключения: sqlite:///abs/path.db,
+ * sqlite:relative.db, file:path.db или просто путь
+ */
+export function sqlitePathOf(connectionString: string): string {
+  const filePath = connectionString
+    .trim()
+    .replace(/^sqlite:\/\//i, '')
+    .replace(/^(sqlite|file):/i, '');
+  if (!filePath) {
+    throw new BadRequestException(
+      'В строке подключения SQLite нет пути к файлу',
+    );
+  }
+  return filePath;
+}
+
+async function* readSqliteRows(
+  filePath: string,
+  sql: string,
+): AsyncGenerator<string[]> {
+  const db = openDatabase(filePath);
+  const rows = db.prepare(sql).raw(true).iterate() as IterableIterator<
+    unknown[]
+  >;
+
+  try {
+    let count = 0;
+    for (const row of rows) {
+      yield row.map(fieldValue);
+      // Чтение синхронное: периодически отдаём управление циклу событий
+      if (++count % STREAM_BATCH_SIZE === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+  } finally {
+    // Пока итератор открыт, соединение занято и не закрывается
+    rows.return?.();
+    db.close();
+  }
+}
+
+/**
+ * SQLite: файл открывается только на чтение
+ */
+export class SqliteConnector implements SourceConnector {
+  private readonly db: BetterSqlite3.Database;
+
+  constructor(private readonly filePath: string) {
+    this.db = openDatabase(filePath);
+  }
+
+  listTables(): Promise<Table[]> {
+    const names = this.db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name",
+      )
+      .pluck()
+      .all() as string[];
+
+    return Promise.resolve(
+      names.map((name) => {
+        const columns = this.db
+          .prepare(`PRAGMA table_info(${quoteIdentifier(name)})`)
+          .all() as SqliteColumnInfo[];
+        return {
+          name,
+          columns: columns.map((column) => ({
+            name: column.name,
+            type: columnTypeOfSql(column.type),
+            nullable: !column.notnull && !column.pk,
+            isPrimaryKey: column.pk > 0 || undefined,
+          })),
+          rowCount: this.db
+            .prepare(`SELECT COUNT(*) FROM ${quoteIdentifier(name)}`)
+            .pluck()
+            .get() as number,
+        };
+      }),
+    );
+  }
+
+  async prepare(selection: SourceSelection): Promise<RecordSource> {
+    let name = 'query';
+    let sql = selection.query ?? '';
+    let estimatedRows: number | undefined;
+
+    if (selection.table) {
+      const table = findTable(await this.listTables(), selection.table);
+      if (!table) {
+        throw new BadRequestException(`Таблица ${selection.table} не найдена`);
+      }
+      name = table.name;
+      sql = `SELECT * FROM ${quoteIdentifier(table.name)}`;
+      estimatedRows = table.rowCount;
+    }
+
+    let statement: BetterSqlite3.Statement;
+    try {
+      statement = this.db.prepare(sql);
+    } catch (error) {
+      throw new BadRequestException(
+        `Ошибка в запросе: ${(error as Error).message}`,
+      );
+    }
+    if (!statement.reader || !statement.readonly) {
+      throw new BadRequestException(
+        'Запрос должен только читать данные (SELECT)',
+      );
+    }
+    if (!estimatedRows) {
+      estimatedRows = this.db
+        .prepare(`SELECT COUNT(*) FROM (${sql.trim().replace(/;+$/, '')})`)
+        .pluck()
+        .get() as number;
+    }
+
+    const filePath = this.filePath;
+    return {
+      name,
+      headers: statement.columns().map((column) => column.name),
+      estimatedRows,
+      readRecords: () => readSqliteRows(filePath, sql),
+    };
+  }
+
+  close(): Promise<void> {
+    this.db.close();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  Patch,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { DatabaseService } from './database.service';
+import { UpdateDatabaseDto } from './dto/update-database.dto';
+import {
+  IndexedDatabase,
+  IndexedDatabaseDetails,
+} from './types/database.types';
+
+@ApiTags('Базы данных')
+@Controller('databases')
+export class DatabaseController {
+  private readonly logger = new Logger(DatabaseController.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Список проиндексированных баз с метаданными' })
+  async findAll(): Promise<IndexedDatabase[]> {
+    return await this.databaseService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Описание базы: метаданные, настройки, индексация' })
+  @ApiParam({ name: 'id', description: 'ID базы данных' })
+  async findOne(
+    @Param('id') databaseId: string,
+  ): Promise<IndexedDatabaseDetails> {
+    return await this.databaseService.findOne(databaseId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Изменить название, описание, теги или участие базы в поиске',
+  })
+  @ApiParam({ name: 'id', description: 'ID базы данных' })
+  @ApiBody({ type: UpdateDatabaseDto })
+  async update(
+    @Param('id') databaseId: string,
+    @Body() dto: UpdateDatabaseDto,
+  ): Promise<IndexedDatabaseDetails> {
+    this.logger.log(`Updating settings of database ${databaseId}`);
+    return await this.databaseService.update(databaseId, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Удалить базу со всеми партициями и метаданными' })
+  @ApiParam({ name: 'id', description: 'ID базы данных' })
+  async remove(
+    @Param('id') databaseId: string,
+  ): Promise<{ deleted: boolean; databaseId: string }> {
+    this.logger.log(`Deleting database ${databaseId}`);
+    return await this.databaseService.remove(databaseId);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { DatabaseController } from './database.controller';
+import { DatabaseService } from './database.service';
+import {
+  ConnectionSecretStore,
+  connectionSecretsDirFromEnv,
+} from './registry/connection-secrets';
+import { DatabaseRegistryService } from './registry/database-registry.service';
+import { RegistryController } from './registry/registry.controller';
+
+@Module({
+  imports: [IndexerModule],
+  controllers: [DatabaseController, RegistryController],
+  providers: [
+    DatabaseService,
+    DatabaseRegistryService,
+    {
+      provide: ConnectionSecretStore,
+      useFactory: () =>
+        new ConnectionSecretStore(connectionSecretsDirFromEnv()),
+    },
+  ],
+  exports: [DatabaseService, DatabaseRegistryService],
+})
+export class DatabaseModule {}
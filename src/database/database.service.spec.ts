@@ -0,0 +1,114 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PartitionCacheService } from '../indexer/cache/partition-cache.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { BloomFilter } from '../indexer/manifest/bloom-filter';
+import { SearchCatalogService } from '../indexer/manifest/search-catalog.service';
+import { LocalStorageBackend } from '../indexer/storage/local-storage.backend';
+import { IndexingJobInfo } from '../indexer/types/index.types';
+import { DatabaseService } from './database.service';
+import { DatabaseRegistryService } from './registry/database-registry.service';
+
+describe('DatabaseService', () => {
+  const phone = '79161234567';
+  let rootDir: string;
+  let storage: LocalStorageBackend;
+  let catalog: SearchCatalogService;
+  let jobs: Partial<IndexingJobInfo>[];
+  let service: DatabaseService;
+
+  const candidates = async () =>
+    Array.from((await catalog.findCandidates(() => phone)).keys());
+
+  const seed = async (databaseId: string) => {
+    await storage.writeObject(
+      `${databaseId}/metadata.json`,
+      JSON.stringify({ id: databaseId, totalRecords: 1, partitionsCount: 1 }),
+    );
+    await storage.writeObject(
+      `${databaseId}/791/data.json`,
+      JSON.stringify({ [phone]: { phone } }),
+    );
+    await catalog.saveManifest({
+      databaseId,
+      updatedAt: new Date().toISOString(),
+      totalRecords: 1,
+      prefixes: {
+        '791': { count: 1, filter: BloomFilter.fromKeys([phone]).toJSON() },
+      },
+    });
+  };
+
+  beforeEach(async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'databases-'));
+    storage = new LocalStorageBackend({ type: 'local', rootDir });
+    catalog = new SearchCatalogService(storage);
+    jobs = [];
+    const indexer = {
+      getAllDatabases: () => Promise.resolve(storage.listFolders()),
+      listJobs: () => jobs,
+    } as unknown as IndexerService;
+    service = new DatabaseService(
+      storage,
+      indexer,
+      catalog,
+      new PartitionCacheService(),
+      {
+        unlinkIndex: () => Promise.resolve(),
+      } as unknown as DatabaseRegistryService,
+    );
+    await seed('main');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('persists settings and excludes a disabled database from search', async () => {
+    const updated = await service.update('main', {
+      displayName: ' Основная ',
+      tags: ['crm', 'crm', ' '],
+      enabled: false,
+    });
+
+    expect(updated).toMatchObject({
+      displayName: 'Основная',
+      tags: ['crm'],
+      enabled: false,
+    });
+    expect(await candidates()).toEqual([]);
+
+    // Флаг переживает пересборку каталога и новую публикацию манифеста
+    await catalog.rebuildCatalog();
+    await seed('main');
+    expect(await candidates()).toEqual([]);
+
+    await service.update('main', { enabled: true });
+    expect(await candidates()).toEqual(['main']);
+    expect((await service.findAll())[0].displayName).toBe('Основная');
+  });
+
+  it('deletes every object of a database and its catalog entry', async () => {
+    await expect(service.remove('main')).resolves.toEqual({
+      deleted: true,
+      databaseId: 'main',
+    });
+
+    expect(await storage.prefixExists('main/')).toBe(false);
+    expect((await catalog.getCatalog()).databases.main).toBeUndefined();
+    await expect(service.findOne('main')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('refuses to delete a database that is being indexed', async () => {
+    jobs.push({ id: 'job-1', databaseId: 'main', state: 'running' });
+
+    await expect(service.remove('main')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(await storage.prefixExists('main/')).toBe(true);
+  });
+});
@@ -1,35 +1,272 @@
-import { Injectable } from '@nestjs/common';
-import { CreateDatabaseDto } from './dto/create-database.dto';
-import { Database } from './types/database.types';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { IndexerService } from '../indexer/indexer.service';
+import {
+  DATABASE_SETTINGS_FILE,
+  SearchCatalogService,
+} from '../indexer/manifest/search-catalog.service';
+import { PartitionCacheService } from '../indexer/cache/partition-cache.service';
+import {
+  STORAGE_BACKEND,
+  StorageBackend,
+} from '../indexer/storage/storage.types';
+import { IndexingJobInfo, IndexMetadata } from '../indexer/types/index.types';
+import { UpdateDatabaseDto } from './dto/update-database.dto';
+import { DatabaseRegistryService } from './registry/database-registry.service';
+import {
+  DatabaseSettings,
+  IndexedDatabase,
+  IndexedDatabaseDetails,
+} from './types/database.types';
 
+const MAX_DISPLAY_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * Управление проиндексированными базами: список, описание, настройки
+ * (хранятся в <db>/settings.json) и удаление вместе со всеми партициями
+ */
 @Injectable()
 export class DatabaseService {
-  private readonly databases: Database[] = [];
-
-  async create(createDatabaseDto: CreateDatabaseDto): Promise<Database> {
-    const newDatabase: Database = {
-      id: Date.now().toString(),
-      ...createDatabaseDto,
-      tables: [], // Инициализируем пустым массивом таблиц
-      createdAt: new Date(),
+  private readonly logger = new Logger(DatabaseService.name);
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+    private readonly indexerService: IndexerService,
+    private readonly searchCatalog: SearchCatalogService,
+    private readonly partitionCache: PartitionCacheService,
+    private readonly registry: DatabaseRegistryService,
+  ) {}
+
+  async findAll(): Promise<IndexedDatabase[]> {
+    const databases: IndexedDatabase[] = [];
+
+    for (const databaseId of await this.indexerService.getAllDatabases()) {
+      try {
+        const metadata = await this.readMetadata(databaseId);
+        const settings = await this.readSettings(databaseId);
+        databases.push(this.toIndexedDatabase(databaseId, metadata, settings));
+      } catch (error) {
+        this.logger.error(
+          `❌ Ошибка чтения базы ${databaseId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return databases;
+  }
+
+  async findOne(databaseId: string): Promise<IndexedDatabaseDetails> {
+    const metadata = await this.getMetadataOrThrow(databaseId);
+    const settings = await this.readSettings(databaseId);
+
+    return {
+      ...this.toIndexedDatabase(databaseId, metadata, settings),
+      metadata,
+      activeJobs: this.activeJobsOf(databaseId),
+    };
+  }
+
+  async update(
+    databaseId: string,
+    dto: UpdateDatabaseDto,
+  ): Promise<IndexedDatabaseDetails> {
+    await this.getMetadataOrThrow(databaseId);
+    const settings = this.applyUpdate(
+      await this.readSettings(databaseId),
+      dto ?? {},
+    );
+
+    await this.storage.writeObject(
+      this.settingsKey(databaseId),
+      JSON.stringify(settings),
+      'application/json',
+    );
+    await this.searchCatalog.setDisabled(databaseId, !settings.enabled);
+
+    this.logger.log(`✏️ Настройки базы ${databaseId} обновлены`);
+    return this.findOne(databaseId);
+  }
+
+  /**
+   * Удаляет базу целиком: метаданные, настройки, манифест и все сборки.
+   * Сначала база убирается из каталога, чтобы поиск перестал в неё заходить.
+   */
+  async remove(
+    databaseId: string,
+  ): Promise<{ deleted: boolean; databaseId: string }> {
+    this.validateId(databaseId);
+    if (!(await this.storage.prefixExists(`${databaseId}/`))) {
+      throw new NotFoundException(`База данных ${databaseId} не найдена`);
+    }
+
+    const activeJobs = this.activeJobsOf(databaseId);
+    if (activeJobs.length) {
+      throw new ConflictException(
+        `База ${databaseId} индексируется (задачи: ${activeJobs.map((job) => job.id).join(', ')}). Отмените индексацию перед удалением`,
+      );
+    }
+
+    await this.searchCatalog.removeDatabase(databaseId);
+    this.partitionCache.invalidateDatabase(databaseId);
+    await this.storage.deletePrefix(`${databaseId}/`);
+    await this.registry.unlinkIndex(databaseId);
+
+    this.logger.log(`🗑️ База ${databaseId} удалена`);
+    return { deleted: true, databaseId };
+  }
+
+  private applyUpdate(
+    current: DatabaseSettings,
+    dto: UpdateDatabaseDto,
+  ): DatabaseSettings {
+    const settings: DatabaseSettings = { ...current };
+
+    if (dto.displayName !== undefined) {
+      if (typeof dto.displayName !== 'string' || !dto.displayName.trim()) {
+        throw new BadRequestException(
+          'displayName должен быть непустой строкой',
+        );
+      }
+      if (dto.displayName.trim().length > MAX_DISPLAY_NAME_LENGTH) {
+        throw new BadRequestException(
+          `displayName длиннее ${MAX_DISPLAY_NAME_LENGTH} символов`,
+        );
+      }
+      settings.displayName = dto.displayName.trim();
+    }
+
+    if (dto.description !== undefined) {
+      if (typeof dto.description !== 'string') {
+        throw new BadRequestException('description должен быть строкой');
+      }
+      if (dto.description.length > MAX_DESCRIPTION_LENGTH) {
+        throw new BadRequestException(
+          `description длиннее ${MAX_DESCRIPTION_LENGTH} символов`,
+        );
+      }
+      settings.description = dto.description.trim() || undefined;
+    }
+
+    if (dto.tags !== undefined) {
+      if (
+        !Array.isArray(dto.tags) ||
+        dto.tags.some((tag) => typeof tag !== 'string')
+      ) {
+        throw new BadRequestException('tags должен быть массивом строк');
+      }
+      const tags = [
+        ...new Set(dto.tags.map((tag) => tag.trim()).filter(Boolean)),
+      ];
+      if (tags.length > MAX_TAGS) {
+        throw new BadRequestException(`Не более ${MAX_TAGS} тегов`);
+      }
+      const tooLong = tags.find((tag) => tag.length > MAX_TAG_LENGTH);
+      if (tooLong) {
+        throw new BadRequestException(
+          `Тег "${tooLong}" длиннее ${MAX_TAG_LENGTH} символов`,
+        );
+      }
+      settings.tags = tags;
+    }
+
+    if (dto.enabled !== undefined) {
+      if (typeof dto.enabled !== 'boolean') {
+        throw new BadRequestException('enabled должен быть true или false');
+      }
+      settings.enabled = dto.enabled;
+    }
+
+    settings.updatedAt = new Date().toISOString();
+    return settings;
+  }
+
+  private toIndexedDatabase(
+    databaseId: string,
+    metadata: IndexMetadata,
+    settings: DatabaseSettings,
+  ): IndexedDatabase {
+    return {
+      id: databaseId,
+      displayName: settings.displayName ?? databaseId,
+      description: settings.description,
+      tags: settings.tags,
+      enabled: settings.enabled,
+      totalRecords: metadata.totalRecords || 0,
+      partitionsCount: metadata.partitionsCount || 0,
+      originalFileName: metadata.originalFileName,
+      createdAt: metadata.createdAt,
+      buildId: metadata.buildId,
+      settingsUpdatedAt: settings.updatedAt,
     };
-    this.databases.push(newDatabase);
-    return newDatabase;
   }
 
-  async findAll(): Promise<Database[]> {
-    return this.databases;
+  private activeJobsOf(databaseId: string): IndexingJobInfo[] {
+    return this.indexerService
+      .listJobs()
+      .filter(
+        (job) =>
+          job.databaseId === databaseId &&
+          (job.state === 'queued' || job.state === 'running'),
+      );
+  }
+
+  private async getMetadataOrThrow(databaseId: string): Promise<IndexMetadata> {
+    this.validateId(databaseId);
+    if (!(await this.storage.objectExists(`${databaseId}/metadata.json`))) {
+      throw new NotFoundException(`База данных ${databaseId} не найдена`);
+    }
+    return this.readMetadata(databaseId);
+  }
+
+  private async readMetadata(databaseId: string): Promise<IndexMetadata> {
+    const data = await this.storage.readObject(`${databaseId}/metadata.json`);
+    return JSON.parse(data.toString('utf8')) as IndexMetadata;
+  }
+
+  private async readSettings(databaseId: string): Promise<DatabaseSettings> {
+    const defaults: DatabaseSettings = { tags: [], enabled: true };
+    const key = this.settingsKey(databaseId);
+    if (!(await this.storage.objectExists(key))) {
+      return defaults;
+    }
+
+    try {
+      const data = await this.storage.readObject(key);
+      return {
+        ...defaults,
+        ...(JSON.parse(data.toString('utf8')) as Partial<DatabaseSettings>),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Настройки ${key} повреждены: ${(error as Error).message}`,
+      );
+      return defaults;
+    }
   }
 
-  async findOne(id: string): Promise<Database | undefined> {
-    return this.databases.find(db => db.id === id);
+  private settingsKey(databaseId: string): string {
+    return `${databaseId}/${DATABASE_SETTINGS_FILE}`;
   }
 
-  async remove(id: string): Promise<{ deleted: boolean }> {
-    const index = this.databases.findIndex(db => db.id === id);
-    if (index > -1) {
-      this.databases.splice(index, 1);
+  // id — имя папки в хранилище: путь за её пределы недопустим
+  private validateId(databaseId: string): void {
+    if (
+      !databaseId ||
+      databaseId.includes('/') ||
+      databaseId.includes('\\') ||
+      databaseId === '.' ||
+      databaseId === '..'
+    ) {
+      throw new BadRequestException(`Недопустимый id базы: ${databaseId}`);
     }
-    return { deleted: true };
   }
 }
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IndexOptionsDto } from '../../indexer/dto/create-index.dto';
+
+export class SourceIndexDto extends IndexOptionsDto {
+  @ApiProperty({
+    description:
+      'ID базы индекса (по умолчанию имя таблицы или название записи реестра)',
+    required: false,
+  })
+  databaseId?: string;
+
+  @ApiProperty({
+    description: 'Таблица, которая индексируется целиком',
+    required: false,
+    example: 'clients',
+  })
+  table?: string;
+
+  @ApiProperty({
+    description: 'SELECT-запрос вместо таблицы',
+    required: false,
+    example: 'SELECT phone, last_name, first_name FROM clients WHERE active',
+  })
+  query?: string;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateDatabaseDto {
+  @ApiProperty({
+    description: 'Отображаемое название базы',
+    required: false,
+    example: 'Абоненты МТС, 2023',
+  })
+  displayName?: string;
+
+  @ApiProperty({
+    description: 'Описание базы; пустая строка удаляет описание',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Теги базы (заменяют текущие)',
+    required: false,
+    type: [String],
+    example: ['mts', '2023'],
+  })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Участвует ли база в поиске',
+    required: false,
+  })
+  enabled?: boolean;
+}
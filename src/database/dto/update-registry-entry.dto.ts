@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateRegistryEntryDto {
+  @ApiProperty({ description: 'Название базы данных', required: false })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Описание базы данных; пустая строка удаляет описание',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Строка подключения (только для внешних СУБД)',
+    required: false,
+  })
+  connectionString?: string;
+}
@@ -0,0 +1,68 @@
+import { ColumnType } from '../types/database.types';
+import {
+  headersFromRecord,
+  inferColumnType,
+  inferColumns,
+} from './column-types';
+
+describe('column types', () => {
+  it('infers a common type of non-empty values', () => {
+    expect(inferColumnType(['12', '-3.5', ''])).toBe(ColumnType.NUMBER);
+    expect(inferColumnType(['01.02.1990', '1985-12-31'])).toBe(ColumnType.DATE);
+    expect(inferColumnType(['да', 'Нет'])).toBe(ColumnType.BOOLEAN);
+    expect(inferColumnType(['{"a":1}'])).toBe(ColumnType.JSON);
+    expect(inferColumnType(['[1,2]'])).toBe(ColumnType.ARRAY);
+    expect(inferColumnType(['12', 'abc'])).toBe(ColumnType.STRING);
+    expect(inferColumnType([])).toBe(ColumnType.STRING);
+  });
+
+  it('keeps phone and INN columns as strings', () => {
+    expect(inferColumnType(['79161234567', '+7 916 123-45-67'])).toBe(
+      ColumnType.STRING,
+    );
+    expect(inferColumnType(['7707083893'])).toBe(ColumnType.STRING);
+  });
+
+  it('describes columns of indexed records', () => {
+    const records = [
+      { Телефон: '79161234567', Возраст: '34', Город: '' },
+      { Телефон: '79167654321', Возраст: '41', Город: 'Москва' },
+    ];
+
+    expect(
+      inferColumns(['Телефон', 'Возраст', 'Город'], records, 'Телефон'),
+    ).toEqual([
+      {
+        name: 'Телефон',
+        type: ColumnType.STRING,
+        nullable: false,
+        isPrimaryKey: true,
+      },
+      {
+        name: 'Возраст',
+        type: ColumnType.NUMBER,
+        nullable: false,
+        isPrimaryKey: undefined,
+      },
+      {
+        name: 'Город',
+        type: ColumnType.STRING,
+        nullable: true,
+        isPrimaryKey: undefined,
+      },
+    ]);
+  });
+
+  it('restores headers of old indexes from record keys', () => {
+    expect(
+      headersFromRecord({
+        Фамилия: 'Иванов',
+        _0: 'Иванов',
+        Телефон: '79161234567',
+        _1: '79161234567',
+        lastName: 'Иванов',
+        phone: '79161234567',
+      }),
+    ).toEqual(['Фамилия', 'Телефон']);
+  });
+});
@@ -0,0 +1,76 @@
+import { inferValueType } from '../../analyzer/profiling/value-types';
+import { Column, ColumnType } from '../types/database.types';
+
+const BOOLEAN_VALUES = new Set(['true', 'false', 'да', 'нет', 'yes', 'no']);
+
+/**
+ * Тип отдельного значения. Телефоны, ИНН и СНИЛС остаются строками:
+ * это идентификаторы, в них важны ведущие нули и длина.
+ */
+function valueColumnType(value: string): ColumnType {
+  if (BOOLEAN_VALUES.has(value.toLowerCase())) {
+    return ColumnType.BOOLEAN;
+  }
+
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? ColumnType.ARRAY : ColumnType.JSON;
+    } catch {
+      return ColumnType.STRING;
+    }
+  }
+
+  switch (inferValueType(value)) {
+    case 'numeric':
+      return ColumnType.NUMBER;
+    case 'date':
+      return ColumnType.DATE;
+    default:
+      return ColumnType.STRING;
+  }
+}
+
+/**
+ * Тип колонки по выборке значений: общий тип всех непустых значений,
+ * а при расхождении — строка
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  const types = new Set(
+    values.filter((value) => value !== '').map(valueColumnType),
+  );
+  return types.size === 1 ? [...types][0] : ColumnType.STRING;
+}
+
+/**
+ * Колонки таблицы по выборке записей индекса. Записи хранят значения
+ * под заголовками исходного файла.
+ */
+export function inferColumns(
+  headers: string[],
+  records: Record<string, unknown>[],
+  primaryKey?: string,
+): Column[] {
+  return headers.map((name) => {
+    const values = records.map((record) => {
+      const value = record[name];
+      return typeof value === 'string' ? value.trim() : '';
+    });
+
+    return {
+      name,
+      type: inferColumnType(values),
+      nullable: !values.length || values.some((value) => value === ''),
+      isPrimaryKey: name === primaryKey || undefined,
+    };
+  });
+}
+
+/**
+ * Заголовки индекса, построенного до того, как они сохранялись в метаданных.
+ * Значение каждой колонки записано под заголовком и сразу за ним под _N.
+ */
+export function headersFromRecord(record: Record<string, unknown>): string[] {
+  const keys = Object.keys(record);
+  return keys.filter((key, i) => /^_\d+$/.test(keys[i + 1] ?? ''));
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorCodeOf } from '../../indexer/storage/storage.types';
+
+const SECRETS_FILE = 'connections.json';
+
+/**
+ * Папка со строками подключения: вне хранилища индексов, которое
+ * может быть общим бакетом S3
+ */
+export function connectionSecretsDirFromEnv(): string {
+  return (
+    process.env.CONNECTION_SECRETS_DIR || path.join(process.cwd(), 'secrets')
+  );
+}
+
+/**
+ * Строки подключения к СУБД с паролями по id записи реестра.
+ * В registry.json остаётся только строка со скрытым паролем.
+ */
+export class ConnectionSecretStore {
+  // Изменения применяются по очереди: чтение и запись файла не перемежаются
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  async get(id: string): Promise<string | undefined> {
+    return (await this.load())[id];
+  }
+
+  set(id: string, connectionString: string): Promise<void> {
+    return this.mutate((secrets) => {
+      secrets[id] = connectionString;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.mutate((secrets) => {
+      delete secrets[id];
+    });
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    try {
+      const data = await fs.promises.readFile(this.filePath, 'utf8');
+      return JSON.parse(data) as Record<string, string>;
+    } catch (error) {
+      if (errorCodeOf(error) === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private mutate(
+    change: (secrets: Record<string, string>) => void,
+  ): Promise<void> {
+    const result = this.writes.then(async () => {
+      const secrets = await this.load();
+      change(secrets);
+      await fs.promises.mkdir(this.dir, { recursive: true, mode: 0o700 });
+      // Файл пишется рядом и переименовывается, чтобы не оставить его обрезанным
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(secrets), {
+        mode: 0o600,
+      });
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private get filePath(): string {
+    return path.join(this.dir, SECRETS_FILE);
+  }
+}
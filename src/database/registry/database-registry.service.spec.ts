@@ -0,0 +1,174 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from '../../indexer/indexer.service';
+import { LocalStorageBackend } from '../../indexer/storage/local-storage.backend';
+import { IndexMetadata } from '../../indexer/types/index.types';
+import { ColumnType, DatabaseType } from '../types/database.types';
+import { ConnectionSecretStore } from './connection-secrets';
+import { DatabaseRegistryService } from './database-registry.service';
+
+describe('DatabaseRegistryService', () => {
+  let rootDir: string;
+  let secretsDir: string;
+  let storage: LocalStorageBackend;
+  let registry: DatabaseRegistryService;
+
+  const metadata = {
+    id: '1',
+    originalFileName: 'clients.csv',
+    totalRecords: 2,
+    sourceRows: 3,
+    phoneColumn: 'Телефон',
+    headers: ['Телефон', 'Возраст'],
+    createdAt: new Date(),
+  } as IndexMetadata;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-'));
+    secretsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+    storage = new LocalStorageBackend({ type: 'local', rootDir });
+    const indexer = {
+      sampleRecords: () =>
+        Promise.resolve([
+          { Телефон: '79161234567', Возраст: '34' },
+          { Телефон: '79167654321', Возраст: '' },
+        ]),
+    } as unknown as IndexerService;
+    registry = new DatabaseRegistryService(
+      storage,
+      indexer,
+      new ConnectionSecretStore(secretsDir),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(secretsDir, { recursive: true, force: true });
+  });
+
+  it('registers an indexed file with its schema and keeps one entry per index', async () => {
+    await registry.recordIndex({ databaseId: 'clients', metadata });
+    await registry.recordIndex({
+      databaseId: 'clients',
+      metadata: { ...metadata, totalRecords: 5 },
+    });
+
+    const [entry, ...rest] = await registry.findAll();
+    expect(rest).toHaveLength(0);
+    expect(entry).toMatchObject({
+      type: DatabaseType.FILE,
+      source: { fileName: 'clients.csv' },
+      index: { databaseId: 'clients', totalRecords: 5 },
+    });
+    expect(entry.tables).toEqual([
+      {
+        name: 'clients.csv',
+        rowCount: 3,
+        columns: [
+          {
+            name: 'Телефон',
+            type: ColumnType.STRING,
+            nullable: false,
+            isPrimaryKey: true,
+          },
+          { name: 'Возраст', type: ColumnType.NUMBER, nullable: true },
+        ],
+      },
+    ]);
+
+    await expect(registry.remove(entry.id)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    await registry.unlinkIndex('clients');
+    expect(await registry.findAll()).toEqual([]);
+  });
+
+  const readSecrets = () =>
+    JSON.parse(
+      fs.readFileSync(path.join(secretsDir, 'connections.json'), 'utf8'),
+    ) as Record<string, string>;
+
+  it('persists external databases with unique ids and hides passwords', async () => {
+    const dto = {
+      name: ' CRM ',
+      type: DatabaseType.POSTGRES,
+      connectionString: 'postgres://crm:secret@db:5432/crm',
+    };
+    const first = await registry.create(dto);
+    const second = await registry.create(dto);
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.name).toBe('CRM');
+    expect(first.connectionString).toBe('postgres://crm:***@db:5432/crm');
+    // Пароль хранится только вне хранилища индексов
+    expect(
+      fs.readFileSync(path.join(rootDir, 'registry.json'), 'utf8'),
+    ).not.toContain('secret');
+    expect(readSecrets()[first.id]).toBe(dto.connectionString);
+    expect(
+      fs.statSync(path.join(secretsDir, 'connections.json')).mode & 0o777,
+    ).toBe(0o600);
+
+    await expect(
+      registry.create({ ...dto, type: 'oracle' as DatabaseType }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    await registry.update(first.id, { description: 'Основная' });
+    await registry.remove(second.id);
+    expect(await registry.findAll()).toMatchObject([
+      { id: first.id, description: 'Основная' },
+    ]);
+    expect(Object.keys(readSecrets())).toEqual([first.id]);
+  });
+
+  it('moves plaintext connection strings out of an older registry', async () => {
+    const connectionString = 'mysql://crm:secret@db:3306/crm';
+    await storage.writeObject(
+      'registry.json',
+      JSON.stringify({
+        version: 1,
+        databases: [
+          {
+            id: 'crm',
+            name: 'CRM',
+            type: DatabaseType.MYSQL,
+            connectionString,
+            tables: [],
+          },
+        ],
+      }),
+    );
+
+    expect(await registry.moveConnectionStrings()).toBe(1);
+    expect(await registry.moveConnectionStrings()).toBe(0);
+
+    expect(readSecrets()).toEqual({ crm: connectionString });
+    expect(
+      fs.readFileSync(path.join(rootDir, 'registry.json'), 'utf8'),
+    ).toContain('mysql://crm:***@db:3306/crm');
+  });
+
+  it('links an index built from a SQL source to its entry', async () => {
+    await registry.recordIndex({ databaseId: 'clients', metadata });
+    const source = await registry.create({
+      name: 'CRM',
+      type: DatabaseType.SQLITE,
+      connectionString: 'sqlite:///var/data/crm.db',
+    });
+
+    await registry.recordIndex({
+      databaseId: 'clients',
+      metadata: { ...metadata, sourceId: source.id },
+    });
+
+    // Запись файла с тем же индексом заменена записью СУБД
+    expect(await registry.findAll()).toMatchObject([
+      { id: source.id, tables: [], index: { databaseId: 'clients' } },
+    ]);
+    await expect(
+      registry.startIndex(source.id, { table: 'a', query: 'SELECT 1' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,547 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import { IndexerService } from '../../indexer/indexer.service';
+import {
+  STORAGE_BACKEND,
+  StorageBackend,
+} from '../../indexer/storage/storage.types';
+import {
+  IndexMetadata,
+  IndexPublication,
+  IndexingJobInfo,
+  RecordSource,
+} from '../../indexer/types/index.types';
+import { createSourceConnector } from '../connectors/connector.factory';
+import {
+  SourceConnector,
+  SourceSelection,
+} from '../connectors/source-connector';
+import { CreateDatabaseDto } from '../dto/create-database.dto';
+import { SourceIndexDto } from '../dto/source-index.dto';
+import { UpdateRegistryEntryDto } from '../dto/update-registry-entry.dto';
+import {
+  Database,
+  DatabaseIndexLink,
+  DatabaseRegistry,
+  DatabaseType,
+  Table,
+} from '../types/database.types';
+import { headersFromRecord, inferColumns } from './column-types';
+import { ConnectionSecretStore } from './connection-secrets';
+
+const REGISTRY_KEY = 'registry.json';
+const REGISTRY_VERSION = 1;
+// Записей индекса, по которым определяются типы колонок
+const SCHEMA_SAMPLE_SIZE = 1000;
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Скрывает пароль в строке подключения: user:pass@host и password=...
+ */
+export function maskConnectionString(value: string): string {
+  return value
+    .replace(/(\/\/[^:/@]+:)[^@]*@/, '$1***@')
+    .replace(/((?:password|pwd)=)[^;&]*/gi, '$1***');
+}
+
+/**
+ * Реестр источников данных в registry.json. У каждого проиндексированного
+ * набора данных есть запись: источник, колонки с типами и число строк.
+ * Записи файлов создаются и обновляются при публикации индекса.
+ * Строки подключения с паролями хранятся отдельно, в ConnectionSecretStore.
+ */
+@Injectable()
+export class DatabaseRegistryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(DatabaseRegistryService.name);
+  // Изменения применяются по очереди: чтение и запись файла не перемежаются
+  private writes: Promise<unknown> = Promise.resolve();
+  private subscription?: Subscription;
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+    private readonly indexerService: IndexerService,
+    private readonly secrets: ConnectionSecretStore,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    this.subscription = this.indexerService
+      .watchPublications()
+      .subscribe((publication) => {
+        this.recordIndex(publication).catch((error: Error) =>
+          this.logger.error(
+            `❌ Не удалось обновить реестр для базы ${publication.databaseId}: ${error.message}`,
+          ),
+        );
+      });
+
+    this.moveConnectionStrings().catch((error: Error) =>
+      this.logger.error(
+        `❌ Не удалось перенести строки подключения из реестра: ${error.message}`,
+      ),
+    );
+
+    // Индексы, построенные до появления реестра, получают записи при запуске
+    this.syncWithIndexes().catch((error: Error) =>
+      this.logger.error(
+        `❌ Не удалось сверить реестр с индексами: ${error.message}`,
+      ),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  async findAll(): Promise<Database[]> {
+    const registry = await this.load();
+    return registry.databases.map((entry) => this.present(entry));
+  }
+
+  async findOne(id: string): Promise<Database> {
+    const registry = await this.load();
+    return this.present(this.getOrThrow(registry, id));
+  }
+
+  async create(dto: CreateDatabaseDto): Promise<Database> {
+    const input = dto ?? ({} as CreateDatabaseDto);
+    if (!Object.values(DatabaseType).includes(input.type)) {
+      throw new BadRequestException(
+        `Неизвестный тип базы ${input.type}. Допустимые типы: ${Object.values(DatabaseType).join(', ')}`,
+      );
+    }
+    if (input.type === DatabaseType.FILE) {
+      throw new BadRequestException(
+        'Записи файлов создаются при индексации файла',
+      );
+    }
+
+    const now = new Date();
+    const connectionString = this.validateConnectionString(
+      input.connectionString,
+    );
+    const entry: Database = {
+      id: randomUUID(),
+      name: this.validateName(input.name),
+      description: this.validateDescription(input.description),
+      connectionString: maskConnectionString(connectionString),
+      type: input.type,
+      tables: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.secrets.set(entry.id, connectionString);
+    await this.mutate((registry) => registry.databases.push(entry));
+    this.logger.log(`🗂️ В реестр добавлена база ${entry.name} (${entry.id})`);
+    return this.present(entry);
+  }
+
+  async update(id: string, dto: UpdateRegistryEntryDto): Promise<Database> {
+    const input = dto ?? {};
+    const connectionString =
+      input.connectionString === undefined
+        ? undefined
+        : this.validateConnectionString(input.connectionString);
+    const entry = await this.mutate((registry) => {
+      const entry = this.getOrThrow(registry, id);
+      if (input.name !== undefined) {
+        entry.name = this.validateName(input.name);
+      }
+      if (input.description !== undefined) {
+        entry.description = this.validateDescription(input.description);
+      }
+      if (connectionString !== undefined) {
+        if (entry.type === DatabaseType.FILE) {
+          throw new BadRequestException('У файла нет строки подключения');
+        }
+        entry.connectionString = maskConnectionString(connectionString);
+      }
+      entry.updatedAt = new Date();
+      return entry;
+    });
+
+    if (connectionString !== undefined) {
+      await this.secrets.set(id, connectionString);
+    }
+    return this.present(entry);
+  }
+
+  /**
+   * Удаляет запись реестра. Запись проиндексированного набора удаляется
+   * вместе с индексом через DELETE /databases/:id
+   */
+  async remove(id: string): Promise<{ deleted: boolean }> {
+    await this.mutate((registry) => {
+      const entry = this.getOrThrow(registry, id);
+      if (entry.index) {
+        throw new ConflictException(
+          `Источник ${id} проиндексирован в базу ${entry.index.databaseId}. Удалите индекс`,
+        );
+      }
+      registry.databases.splice(registry.databases.indexOf(entry), 1);
+    });
+    await this.secrets.delete(id);
+
+    this.logger.log(`🗂️ Запись ${id} удалена из реестра`);
+    return { deleted: true };
+  }
+
+  /**
+   * Читает из СУБД список таблиц с колонками и сохраняет его в записи
+   */
+  async introspect(id: string): Promise<Database> {
+    const connector = await this.connect(
+      this.getOrThrow(await this.load(), id),
+    );
+    let tables: Table[];
+    try {
+      tables = await connector.listTables();
+    } finally {
+      await connector.close();
+    }
+
+    const entry = await this.mutate((registry) => {
+      const entry = this.getOrThrow(registry, id);
+      entry.tables = tables;
+      entry.updatedAt = new Date();
+      return entry;
+    });
+    this.logger.log(`🗂️ Описано таблиц в базе ${entry.name}: ${tables.length}`);
+    return this.present(entry);
+  }
+
+  /**
+   * Ставит в очередь индексацию таблицы или запроса внешней СУБД.
+   * Строки читаются потоком, когда до задачи дойдёт очередь.
+   */
+  async startIndex(id: string, dto: SourceIndexDto): Promise<IndexingJobInfo> {
+    const { databaseId, table, query, ...options } =
+      dto ?? ({} as SourceIndexDto);
+    const selection = this.validateSelection(table, query);
+    const entry = this.getOrThrow(await this.load(), id);
+
+    const connector = await this.connect(entry);
+    let source: RecordSource;
+    try {
+      source = await connector.prepare(selection);
+    } finally {
+      await connector.close();
+    }
+
+    const targetId = this.validateDatabaseId(
+      databaseId ?? (selection.table ? source.name : entry.name),
+    );
+    this.logger.log(
+      `📥 Индексация ${entry.name}: ${source.name} → база ${targetId}`,
+    );
+    return this.indexerService.createIndexFromSource(
+      { ...source, id: entry.id },
+      { ...options, databaseId: targetId },
+    );
+  }
+
+  /**
+   * Обновляет запись проиндексированного набора после публикации версии индекса
+   */
+  async recordIndex({ databaseId, metadata }: IndexPublication): Promise<void> {
+    // Схема определяется до захвата очереди: чтение партиций может быть долгим
+    const records = await this.indexerService.sampleRecords(
+      databaseId,
+      SCHEMA_SAMPLE_SIZE,
+    );
+    const headers =
+      metadata.headers ?? (records.length ? headersFromRecord(records[0]) : []);
+    const table = {
+      name: metadata.originalFileName || databaseId,
+      columns: inferColumns(
+        headers,
+        records as Record<string, unknown>[],
+        metadata.phoneColumn,
+      ),
+      rowCount: metadata.sourceRows ?? metadata.totalRecords,
+    };
+
+    await this.mutate((registry) => {
+      const now = new Date();
+      // Индекс из СУБД принадлежит записи источника, индекс файла — записи файла
+      let entry = metadata.sourceId
+        ? registry.databases.find(
+            (database) => database.id === metadata.sourceId,
+          )
+        : registry.databases.find(
+            (database) =>
+              database.type === DatabaseType.FILE &&
+              database.index?.databaseId === databaseId,
+          );
+
+      // Индекс перешёл к другому источнику: прежняя связь снимается
+      registry.databases = registry.databases.filter((database) => {
+        if (database === entry || database.index?.databaseId !== databaseId) {
+          return true;
+        }
+        database.index = undefined;
+        database.updatedAt = now;
+        return database.type !== DatabaseType.FILE;
+      });
+
+      if (!entry) {
+        entry = {
+          id: randomUUID(),
+          name: databaseId,
+          type: DatabaseType.FILE,
+          tables: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        registry.databases.push(entry);
+      }
+
+      // У СУБД таблицы описаны при introspect точнее, чем по записям индекса
+      if (entry.type === DatabaseType.FILE) {
+        entry.tables = [table];
+        entry.source = {
+          fileName: metadata.originalFileName,
+          encoding: metadata.encoding,
+          delimiter: metadata.delimiter,
+        };
+      }
+      entry.index = this.indexLinkOf(databaseId, metadata);
+      entry.updatedAt = now;
+    });
+
+    this.logger.log(
+      `🗂️ Реестр: база ${databaseId}, ${table.columns.length} колонок, ${table.rowCount} строк`,
+    );
+  }
+
+  /**
+   * Индекс удалён: запись файла удаляется, у внешней СУБД снимается связь
+   */
+  async unlinkIndex(databaseId: string): Promise<void> {
+    await this.mutate((registry) => {
+      registry.databases = registry.databases.filter((entry) => {
+        if (entry.index?.databaseId !== databaseId) {
+          return true;
+        }
+        entry.index = undefined;
+        entry.updatedAt = new Date();
+        return entry.type !== DatabaseType.FILE;
+      });
+    });
+  }
+
+  /**
+   * Создаёт записи для индексов, у которых их нет
+   */
+  async syncWithIndexes(): Promise<string[]> {
+    const registry = await this.load();
+    const registered = new Set(
+      registry.databases.map((entry) => entry.index?.databaseId),
+    );
+    const added: string[] = [];
+
+    for (const databaseId of await this.indexerService.getAllDatabases()) {
+      if (registered.has(databaseId)) {
+        continue;
+      }
+      try {
+        const data = await this.storage.readObject(
+          `${databaseId}/metadata.json`,
+        );
+        const metadata = JSON.parse(data.toString('utf8')) as IndexMetadata;
+        await this.recordIndex({ databaseId, metadata });
+        added.push(databaseId);
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось добавить базу ${databaseId} в реестр: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (added.length) {
+      this.logger.log(`🗂️ В реестр добавлены индексы: ${added.join(', ')}`);
+    }
+    return added;
+  }
+
+  /**
+   * Реестр до появления хранилища секретов держал строки подключения
+   * с паролями: они переносятся в хранилище, в реестре остаются скрытыми
+   */
+  async moveConnectionStrings(): Promise<number> {
+    const moved = new Map<string, string>();
+    for (const entry of (await this.load()).databases) {
+      if (
+        entry.connectionString &&
+        maskConnectionString(entry.connectionString) !==
+          entry.connectionString &&
+        !(await this.secrets.get(entry.id))
+      ) {
+        await this.secrets.set(entry.id, entry.connectionString);
+        moved.set(entry.id, entry.connectionString);
+      }
+    }
+    if (!moved.size) {
+      return 0;
+    }
+
+    await this.mutate((registry) => {
+      for (const entry of registry.databases) {
+        // Строка могла измениться, пока шёл перенос
+        const stored = entry.connectionString;
+        if (stored && moved.get(entry.id) === stored) {
+          entry.connectionString = maskConnectionString(stored);
+        }
+      }
+    });
+    this.logger.log(
+      `🔐 Строки подключения перенесены из реестра: ${moved.size}`,
+    );
+    return moved.size;
+  }
+
+  private indexLinkOf(
+    databaseId: string,
+    metadata: IndexMetadata,
+  ): DatabaseIndexLink {
+    return {
+      databaseId,
+      buildId: metadata.buildId,
+      phoneColumn: metadata.phoneColumn,
+      totalRecords: metadata.totalRecords,
+      indexedAt: metadata.createdAt,
+    };
+  }
+
+  private async load(): Promise<DatabaseRegistry> {
+    if (!(await this.storage.objectExists(REGISTRY_KEY))) {
+      return { version: REGISTRY_VERSION, databases: [] };
+    }
+    const data = await this.storage.readObject(REGISTRY_KEY);
+    return JSON.parse(data.toString('utf8')) as DatabaseRegistry;
+  }
+
+  private mutate<T>(change: (registry: DatabaseRegistry) => T): Promise<T> {
+    const result = this.writes.then(async () => {
+      const registry = await this.load();
+      const value = change(registry);
+      await this.storage.writeObject(
+        REGISTRY_KEY,
+        JSON.stringify(registry),
+        'application/json',
+      );
+      return value;
+    });
+    // Ошибка одного изменения не должна блокировать следующие
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private getOrThrow(registry: DatabaseRegistry, id: string): Database {
+    const entry = registry.databases.find((database) => database.id === id);
+    if (!entry) {
+      throw new NotFoundException(`База ${id} не найдена в реестре`);
+    }
+    return entry;
+  }
+
+  private present(entry: Database): Database {
+    return entry.connectionString
+      ? {
+          ...entry,
+          connectionString: maskConnectionString(entry.connectionString),
+        }
+      : entry;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new BadRequestException('name должен быть непустой строкой');
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new BadRequestException(`name длиннее ${MAX_NAME_LENGTH} символов`);
+    }
+    return name.trim();
+  }
+
+  private validateDescription(description: unknown): string | undefined {
+    if (description === undefined) {
+      return undefined;
+    }
+    if (typeof description !== 'string') {
+      throw new BadRequestException('description должен быть строкой');
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new BadRequestException(
+        `description длиннее ${MAX_DESCRIPTION_LENGTH} символов`,
+      );
+    }
+    return description.trim() || undefined;
+  }
+
+  private async connect(entry: Database): Promise<SourceConnector> {
+    const connectionString =
+      entry.type === DatabaseType.FILE
+        ? undefined
+        : ((await this.secrets.get(entry.id)) ?? entry.connectionString);
+    if (!connectionString) {
+      throw new BadRequestException(
+        `У записи ${entry.id} нет подключения к СУБД`,
+      );
+    }
+    return createSourceConnector(entry.type, connectionString);
+  }
+
+  private validateSelection(table: unknown, query: unknown): SourceSelection {
+    if ((table === undefined) === (query === undefined)) {
+      throw new BadRequestException('Укажите либо table, либо query');
+    }
+    if (table !== undefined && (typeof table !== 'string' || !table.trim())) {
+      throw new BadRequestException('table должен быть непустой строкой');
+    }
+    if (query !== undefined && (typeof query !== 'string' || !query.trim())) {
+      throw new BadRequestException('query должен быть непустой строкой');
+    }
+    return {
+      table: table?.trim(),
+      query: query?.trim(),
+    };
+  }
+
+  private validateDatabaseId(databaseId: unknown): string {
+    if (
+      typeof databaseId !== 'string' ||
+      !databaseId.trim() ||
+      /[\\/]/.test(databaseId) ||
+      databaseId.trim() === '.' ||
+      databaseId.trim() === '..'
+    ) {
+      throw new BadRequestException(
+        `Недопустимый id базы: ${String(databaseId)}. Укажите databaseId`,
+      );
+    }
+    return databaseId.trim();
+  }
+
+  private validateConnectionString(value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new BadRequestException(
+        'connectionString должен быть непустой строкой',
+      );
+    }
+    return value.trim();
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { IndexingJobInfo } from '../../indexer/types/index.types';
+import { CreateDatabaseDto } from '../dto/create-database.dto';
+import { SourceIndexDto } from '../dto/source-index.dto';
+import { UpdateRegistryEntryDto } from '../dto/update-registry-entry.dto';
+import { Database } from '../types/database.types';
+import { DatabaseRegistryService } from './database-registry.service';
+
+@ApiTags('Реестр источников')
+@Controller('registry')
+export class RegistryController {
+  private readonly logger = new Logger(RegistryController.name);
+
+  constructor(private readonly registry: DatabaseRegistryService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Источники данных: схема, число строк, индекс' })
+  async findAll(): Promise<Database[]> {
+    return await this.registry.findAll();
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Зарегистрировать внешнюю базу данных' })
+  @ApiBody({ type: CreateDatabaseDto })
+  async create(@Body() dto: CreateDatabaseDto): Promise<Database> {
+    this.logger.log(`Registering database ${dto?.name}`);
+    return await this.registry.create(dto);
+  }
+
+  @Post('sync')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Добавить в реестр индексы без записей' })
+  async sync(): Promise<{ added: string[] }> {
+    return { added: await this.registry.syncWithIndexes() };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Запись реестра' })
+  @ApiParam({ name: 'id', description: 'ID записи реестра' })
+  async findOne(@Param('id') id: string): Promise<Database> {
+    return await this.registry.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Изменить название, описание или строку подключения',
+  })
+  @ApiParam({ name: 'id', description: 'ID записи реестра' })
+  @ApiBody({ type: UpdateRegistryEntryDto })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateRegistryEntryDto,
+  ): Promise<Database> {
+    return await this.registry.update(id, dto);
+  }
+
+  @Post(':id/introspect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Прочитать из СУБД таблицы и колонки' })
+  @ApiParam({ name: 'id', description: 'ID записи реестра' })
+  async introspect(@Param('id') id: string): Promise<Database> {
+    return await this.registry.introspect(id);
+  }
+
+  @Post(':id/index')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Проиндексировать таблицу или результат запроса из СУБД',
+  })
+  @ApiParam({ name: 'id', description: 'ID записи реестра' })
+  @ApiBody({ type: SourceIndexDto })
+  async index(
+    @Param('id') id: string,
+    @Body() dto: SourceIndexDto,
+  ): Promise<IndexingJobInfo> {
+    this.logger.log(`Indexing registry entry ${id}`);
+    return await this.registry.startIndex(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Удалить запись реестра' })
+  @ApiParam({ name: 'id', description: 'ID записи реестра' })
+  async remove(@Param('id') id: string): Promise<{ deleted: boolean }> {
+    this.logger.log(`Removing registry entry ${id}`);
+    return await this.registry.remove(id);
+  }
+}
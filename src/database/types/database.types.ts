@@ -1,3 +1,5 @@
+import { IndexingJobInfo, IndexMetadata } from '../../indexer/types/index.types';
+
 export type User = {
     id: string;
     name: string;
@@ -24,14 +26,40 @@ export type Order = {
     updatedAt: Date;
 };
 
+// Запись реестра (registry.json): источник данных, его схема и построенный из него индекс
 export interface Database {
     id: string;
     name: string;
     description?: string;
-    connectionString: string;
+    // Только у внешних СУБД; в ответах API пароль скрыт
+    connectionString?: string;
     type: DatabaseType;
     tables: Table[];
+    source?: DatabaseSource;
+    index?: DatabaseIndexLink;
     createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface DatabaseSource {
+    fileName?: string;
+    encoding?: string;
+    delimiter?: string;
+}
+
+// Индекс, построенный из источника: папка базы в хранилище и её активная версия
+export interface DatabaseIndexLink {
+    databaseId: string;
+    buildId?: string;
+    phoneColumn: string;
+    totalRecords: number;
+    indexedAt: Date;
+}
+
+// Содержимое registry.json в корне хранилища
+export interface DatabaseRegistry {
+    version: number;
+    databases: Database[];
 }
 
 export interface Table {
@@ -51,7 +79,9 @@ export enum DatabaseType {
     POSTGRES = 'postgres',
     MYSQL = 'mysql',
     MONGODB = 'mongodb',
-    SQLITE = 'sqlite'
+    SQLITE = 'sqlite',
+    // Загруженный файл CSV/TXT; такие записи создаёт индексация
+    FILE = 'file'
 }
 
 export enum ColumnType {
@@ -62,3 +92,33 @@ export enum ColumnType {
     JSON = 'json',
     ARRAY = 'array'
 }
+
+// <db>/settings.json рядом с metadata.json: описание базы и её участие в поиске
+export interface DatabaseSettings {
+    displayName?: string;
+    description?: string;
+    tags: string[];
+    enabled: boolean;
+    updatedAt?: string;
+}
+
+// Проиндексированная база в списке GET /databases
+export interface IndexedDatabase {
+    id: string;
+    displayName: string;
+    description?: string;
+    tags: string[];
+    enabled: boolean;
+    totalRecords: number;
+    partitionsCount: number;
+    originalFileName?: string;
+    createdAt: Date;
+    buildId?: string;
+    settingsUpdatedAt?: string;
+}
+
+export interface IndexedDatabaseDetails extends IndexedDatabase {
+    metadata: IndexMetadata;
+    // Задачи индексации этой базы, которые ещё не завершились
+    activeJobs: IndexingJobInfo[];
+}
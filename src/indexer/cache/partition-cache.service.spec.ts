@@ -0,0 +1,54 @@
+import { PartitionCacheService } from './partition-cache.service';
+
+describe('PartitionCacheService', () => {
+  const originalLimit = process.env.PARTITION_CACHE_MAX_MB;
+  let cache: PartitionCacheService;
+
+  beforeEach(() => {
+    // 1 МБ: партиция с файлом 100 КБ занимает в кэше около 300 КБ
+    process.env.PARTITION_CACHE_MAX_MB = '1';
+    cache = new PartitionCacheService();
+  });
+
+  afterAll(() => {
+    if (originalLimit === undefined) {
+      delete process.env.PARTITION_CACHE_MAX_MB;
+    } else {
+      process.env.PARTITION_CACHE_MAX_MB = originalLimit;
+    }
+  });
+
+  it('serves a partition only while its version is unchanged', () => {
+    const data = { '79161234567': { lastName: 'Иванов' } };
+    cache.set('db', '791', 'v1', data, 100);
+
+    expect(cache.get('db', '791', 'v1')).toBe(data);
+    expect(cache.get('db', '791', 'v2')).toBeUndefined();
+    expect(cache.get('db', '791', 'v1')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, entries: 0 });
+  });
+
+  it('evicts the least recently used partitions when over the memory limit', () => {
+    cache.set('db', '791', 'v1', {}, 100 * 1024);
+    cache.set('db', '792', 'v1', {}, 100 * 1024);
+    cache.set('db', '793', 'v1', {}, 100 * 1024);
+    cache.get('db', '791', 'v1');
+    cache.set('db', '794', 'v1', {}, 100 * 1024);
+
+    expect(cache.get('db', '792', 'v1')).toBeUndefined();
+    expect(cache.get('db', '791', 'v1')).toBeDefined();
+    expect(cache.getStats().evictions).toBe(1);
+    expect(cache.getStats().sizeBytes).toBeLessThanOrEqual(cache.maxBytes);
+  });
+
+  it('drops every partition of a database on invalidation', () => {
+    cache.set('db', '791', 'v1', {}, 100);
+    cache.set('db', '792', 'v1', {}, 100);
+    cache.set('db2', '791', 'v1', {}, 100);
+    cache.invalidateDatabase('db');
+
+    expect(cache.get('db', '791', 'v1')).toBeUndefined();
+    expect(cache.get('db2', '791', 'v1')).toBeDefined();
+    expect(cache.getStats()).toMatchObject({ entries: 1, invalidations: 2 });
+  });
+});
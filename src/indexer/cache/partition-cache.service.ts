@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PartitionCacheStats } from '../types/index.types';
+
+const DEFAULT_MAX_MB = 256;
+// Разобранный объект занимает в памяти заметно больше исходного JSON
+const PARSED_SIZE_FACTOR = 3;
+
+interface CachedPartition {
+  version: string;
+  data: object;
+  sizeBytes: number;
+}
+
+/**
+ * LRU-кэш разобранных партиций, ограниченный по памяти (PARTITION_CACHE_MAX_MB).
+ * Запись действительна, пока версия объекта в хранилище не изменилась.
+ */
+@Injectable()
+export class PartitionCacheService {
+  private readonly logger = new Logger(PartitionCacheService.name);
+  // Порядок вставки в Map — порядок использования: первый элемент самый старый
+  private readonly entries = new Map<string, CachedPartition>();
+  readonly maxBytes: number;
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor() {
+    const maxMb = Number(process.env.PARTITION_CACHE_MAX_MB ?? DEFAULT_MAX_MB);
+    const valid = Number.isFinite(maxMb) && maxMb >= 0;
+    if (!valid) {
+      this.logger.warn(
+        `⚠️ Неверное значение PARTITION_CACHE_MAX_MB, используется ${DEFAULT_MAX_MB} МБ`,
+      );
+    }
+    this.maxBytes = (valid ? maxMb : DEFAULT_MAX_MB) * 1024 * 1024;
+  }
+
+  get<T extends object>(
+    databaseId: string,
+    prefix: string,
+    version: string,
+  ): T | undefined {
+    const key = this.key(databaseId, prefix);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.version !== version) {
+      if (entry) {
+        this.remove(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.data as T;
+  }
+
+  /**
+   * Кладёт партицию (или индекс её блоков) в кэш; fileSize — размер файла в хранилище
+   */
+  set(
+    databaseId: string,
+    prefix: string,
+    version: string,
+    data: object,
+    fileSize: number,
+  ): void {
+    const key = this.key(databaseId, prefix);
+    const sizeBytes = fileSize * PARSED_SIZE_FACTOR;
+
+    this.remove(key);
+    if (sizeBytes > this.maxBytes) {
+      return;
+    }
+
+    while (this.sizeBytes + sizeBytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this.remove(oldest);
+      this.evictions++;
+    }
+
+    this.entries.set(key, { version, data, sizeBytes });
+    this.sizeBytes += sizeBytes;
+  }
+
+  invalidate(databaseId: string, prefix: string): void {
+    if (this.remove(this.key(databaseId, prefix))) {
+      this.invalidations++;
+    }
+  }
+
+  invalidateDatabase(databaseId: string): void {
+    const start = `${databaseId}/`;
+    let removed = 0;
+
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(start) && this.remove(key)) {
+        removed++;
+      }
+    }
+
+    if (removed) {
+      this.invalidations += removed;
+      this.logger.log(
+        `🧹 Сброшено ${removed} партиций базы ${databaseId} из кэша`,
+      );
+    }
+  }
+
+  getStats(): PartitionCacheStats {
+    const requests = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: requests ? Math.round((this.hits / requests) * 1000) / 1000 : 0,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(key);
+    this.sizeBytes -= entry.sizeBytes;
+    return true;
+  }
+
+  private key(databaseId: string, prefix: string): string {
+    return `${databaseId}/${prefix}`;
+  }
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ColumnRef } from '../types/index.types';
+
+export class BatchSearchDto {
+  @ApiProperty({
+    description: 'Номера телефонов в любом формате',
+    required: false,
+    type: [String],
+    example: ['+7 916 123-45-67', '89161234568'],
+  })
+  phones?: string[];
+
+  @ApiProperty({
+    description:
+      'Колонка с телефонами в загруженном файле: имя заголовка или индекс (по умолчанию первая)',
+    required: false,
+    oneOf: [{ type: 'string' }, { type: 'number' }],
+  })
+  phoneColumn?: ColumnRef;
+}
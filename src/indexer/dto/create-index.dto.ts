@@ -1,18 +1,85 @@
-
 import { ApiProperty } from '@nestjs/swagger';
+import { ColumnRef, DuplicatePolicy, FieldMapping, ImportMode, PartitionSchemeType, PhoneRegion, SecondaryIndexField } from '../types/index.types';
+import { EncodingType } from '../../parsing/types/parsing.types';
+import { PHONE_REGIONS } from '../phone/phone-number';
+import { SECONDARY_INDEX_FIELDS } from '../secondary/secondary-keys';
+import { DUPLICATE_POLICIES } from '../duplicates/duplicate-policy';
+import { IMPORT_MODES } from '../imports/import-merger';
 
-export class CreateIndexDto {
-  @ApiProperty({ description: 'ID базы данных' })
-  databaseId: string;
+export class ColumnMappingDto {
+  @ApiProperty({ description: 'Разделитель полей (по умолчанию определяется автоматически)', required: false })
+  delimiter?: string;
 
-  @ApiProperty({ description: 'Название колонки с телефонами' })
-  phoneColumn: string;
+  @ApiProperty({
+    description: 'Колонка с телефонами: имя заголовка или индекс (с 0)',
+    required: false,
+    oneOf: [{ type: 'string' }, { type: 'number' }]
+  })
+  phoneColumn?: ColumnRef;
 
-  @ApiProperty({ description: 'Размер одной партиции (по умолчанию 100)' })
+  @ApiProperty({
+    description: 'Соответствие канонических полей (lastName, firstName, middleName, birthDate, phone, snils, inn, email) колонкам файла',
+    required: false,
+    example: { lastName: 'Фамилия', firstName: 'Имя', phone: 'Телефон', email: 7 }
+  })
+  fieldMapping?: FieldMapping;
+
+  @ApiProperty({
+    description: 'Регион для номеров без кода страны (по умолчанию PHONE_DEFAULT_REGION или RU); в нём же читаются такие номера при поиске по базе',
+    required: false,
+    enum: PHONE_REGIONS
+  })
+  phoneRegion?: PhoneRegion;
+}
+
+export class IndexOptionsDto extends ColumnMappingDto {
+  @ApiProperty({
+    description: 'Схема партиционирования: по хешу номера (по умолчанию) или по первым цифрам',
+    required: false,
+    enum: ['hash', 'prefix']
+  })
+  partitionScheme?: PartitionSchemeType;
+
+  @ApiProperty({ description: 'Число первых цифр номера в имени партиции (схема prefix)', required: false, minimum: 1, maximum: 8 })
+  prefixDepth?: number;
+
+  @ApiProperty({ description: 'Целевое число записей в партиции для схемы hash (по умолчанию 10000)', required: false })
   partitionSize?: number;
 
+  @ApiProperty({
+    description: 'Дополнительные индексы для поиска без телефона; nameBirth — ФИО с датой рождения, name — нечёткий поиск по ФИО',
+    required: false,
+    isArray: true,
+    enum: SECONDARY_INDEX_FIELDS
+  })
+  secondaryIndexes?: SecondaryIndexField[];
+
+  @ApiProperty({
+    description: 'Строки с повторяющимся номером: all — хранить все (по умолчанию), first или last — первую или последнюю, merge — одну запись с полями из всех строк',
+    required: false,
+    enum: DUPLICATE_POLICIES
+  })
+  duplicatePolicy?: DuplicatePolicy;
+
+  @ApiProperty({
+    description: 'Загрузка в базу: replace — новая версия только из источника (по умолчанию), append — добавить строки к записям базы, upsert — заменить записи номеров из источника, delete — удалить номера источника. Кроме replace, база должна существовать, а партиции, политика повторов и дополнительные индексы берутся у неё',
+    required: false,
+    enum: IMPORT_MODES
+  })
+  importMode?: ImportMode;
+}
+
+export class FileIndexDto extends IndexOptionsDto {
+  @ApiProperty({ description: 'ID базы (по умолчанию имя файла без расширения); для дозагрузки — существующая база', required: false })
+  databaseId?: string;
+}
+
+export class CreateIndexDto extends IndexOptionsDto {
+  @ApiProperty({ description: 'ID базы данных' })
+  databaseId: string;
+
 
   @ApiProperty({ description: 'Кодировка' })
-  encoding?: 'utf8' | 'windows1251' | 'koi8r' | 'iso88595' | 'auto';
+  encoding?: EncodingType;
 
 }
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RollbackDto {
+  @ApiProperty({
+    description:
+      'Сборка, к которой вернуть базу (по умолчанию предыдущая версия); для старого индекса — id метаданных',
+    required: false,
+    example: '20261019T034012-a1b2c3',
+  })
+  buildId?: string;
+}
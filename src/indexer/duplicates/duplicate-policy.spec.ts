@@ -0,0 +1,95 @@
+import { BadRequestException } from '@nestjs/common';
+import { IndexedRecord } from '../types/index.types';
+import {
+  appendRecords,
+  resolveDuplicatePolicy,
+  searchRecordEntries,
+  searchRecordOf,
+} from './duplicate-policy';
+
+describe('duplicate policy', () => {
+  const rows = (): IndexedRecord[] => [
+    {
+      lastName: 'Иванов',
+      firstName: '',
+      fullName: 'Иванов',
+      email: '',
+      sourceLine: 2,
+    },
+    {
+      lastName: 'Иванов',
+      firstName: 'Пётр',
+      fullName: 'Иванов Пётр',
+      email: 'petr@mail.ru',
+      sourceLine: 7,
+    },
+    {
+      lastName: 'Петров',
+      firstName: '',
+      fullName: 'Петров',
+      email: 'old@mail.ru',
+      sourceLine: 9,
+    },
+  ];
+
+  const fold = (policy: Parameters<typeof appendRecords>[2]) => {
+    const [first, ...rest] = rows();
+    // Повторы приходят по одной строке и чанками, как при индексации
+    return appendRecords(
+      appendRecords([first], [rest[0]], policy),
+      [rest[1]],
+      policy,
+    );
+  };
+
+  it('keeps every row with its source line', () => {
+    const entry = fold('all');
+
+    expect(entry.map((record) => record.sourceLine)).toEqual([2, 7, 9]);
+    expect(searchRecordOf(entry)).toMatchObject({
+      lastName: 'Иванов',
+      duplicates: { kept: 2, collapsed: 0 },
+      records: entry,
+    });
+  });
+
+  it('collapses rows into the first, the last or a merged record', () => {
+    expect(fold('first')).toEqual([{ ...rows()[0], sourceLines: [2, 7, 9] }]);
+    expect(fold('last')).toEqual([{ ...rows()[2], sourceLines: [2, 7, 9] }]);
+
+    const [merged] = fold('merge');
+    expect(merged).toMatchObject({
+      lastName: 'Иванов',
+      firstName: 'Пётр',
+      fullName: 'Иванов Пётр',
+      email: 'petr@mail.ru',
+      sourceLine: 2,
+    });
+
+    const found = searchRecordOf(fold('merge'));
+    expect(found.duplicates).toEqual({ kept: 0, collapsed: 2 });
+    expect(found.records).toBeUndefined();
+  });
+
+  it('restores the stored records from a search answer', () => {
+    const kept = fold('all');
+    expect(searchRecordEntries(searchRecordOf(kept))).toEqual(kept);
+
+    const [merged] = fold('merge');
+    expect(
+      searchRecordEntries({
+        ...searchRecordOf([merged]),
+        normalizedPhone: '79161234567',
+      }),
+    ).toEqual([merged]);
+  });
+
+  it('reads single records of older indexes', () => {
+    expect(searchRecordOf({ lastName: 'Иванов' }).duplicates).toEqual({
+      kept: 0,
+      collapsed: 0,
+    });
+    expect(resolveDuplicatePolicy(undefined)).toBe('all');
+    expect(() => resolveDuplicatePolicy('newest')).toThrow(BadRequestException);
+  });
+});
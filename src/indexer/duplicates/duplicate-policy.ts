@@ -0,0 +1,160 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DuplicateCounts,
+  DuplicatePolicy,
+  IndexedEntry,
+  IndexedRecord,
+  SearchRecord,
+} from '../types/index.types';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = [
+  'all',
+  'first',
+  'last',
+  'merge',
+];
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'all';
+// Индексы до появления политики хранили последнюю строку номера
+export const LEGACY_DUPLICATE_POLICY: DuplicatePolicy = 'last';
+
+const NAME_PARTS = ['lastName', 'firstName', 'middleName'];
+
+export function resolveDuplicatePolicy(
+  value: string | undefined,
+): DuplicatePolicy {
+  if (value === undefined || value === null) {
+    return DEFAULT_DUPLICATE_POLICY;
+  }
+  if (!DUPLICATE_POLICIES.includes(value as DuplicatePolicy)) {
+    throw new BadRequestException(
+      `Неизвестная политика повторов ${value}. Допустимые: ${DUPLICATE_POLICIES.join(', ')}`,
+    );
+  }
+  return value as DuplicatePolicy;
+}
+
+/**
+ * Дополняет записи номера (непустой список) строками, встреченными
+ * в источнике позже, и возвращает тот же список. При политиках first,
+ * last и merge в нём остаётся одна запись, а схлопнутые строки
+ * перечислены в её sourceLines.
+ */
+export function appendRecords(
+  entry: IndexedRecord[],
+  records: IndexedRecord[],
+  policy: DuplicatePolicy,
+): IndexedRecord[] {
+  if (policy === 'all') {
+    entry.push(...records);
+    return entry;
+  }
+
+  let kept = entry[0];
+  for (const record of records) {
+    kept = collapse(kept, record, policy);
+  }
+  entry[0] = kept;
+  return entry;
+}
+
+// Старые индексы хранят под номером одну запись без списка
+export function entryRecords(entry: IndexedEntry): IndexedRecord[] {
+  return Array.isArray(entry) ? entry : [entry];
+}
+
+export function duplicateCountsOf(records: IndexedRecord[]): DuplicateCounts {
+  return {
+    kept: records.length - 1,
+    collapsed: records.reduce(
+      (sum, record) => sum + Math.max(0, linesOf(record).length - 1),
+      0,
+    ),
+  };
+}
+
+/**
+ * Запись для ответа поиска: основная (по умолчанию первая) с числом
+ * повторов и, если записей несколько, их полным списком
+ */
+export function searchRecordOf(
+  entry: IndexedEntry,
+  primary?: IndexedRecord,
+): SearchRecord {
+  const records = entryRecords(entry);
+  return {
+    ...(primary ?? records[0]),
+    duplicates: duplicateCountsOf(records),
+    ...(records.length > 1 ? { records } : {}),
+  };
+}
+
+/**
+ * Записи номера из ответа поиска, обратное к searchRecordOf: поля ответа
+ * (сведения о повторах, нормализованный номер) в записи не входят
+ */
+export function searchRecordEntries(found: SearchRecord): IndexedRecord[] {
+  if (found.records) {
+    return found.records;
+  }
+  const record: IndexedRecord = { ...found };
+  delete record.duplicates;
+  delete record.normalizedPhone;
+  return [record];
+}
+
+/**
+ * Повторы в статистике базы: при политике all они сохранены отдельными
+ * записями, при остальных — схлопнуты
+ */
+export function duplicateStatsOf(
+  policy: DuplicatePolicy,
+  duplicateRows: number,
+): DuplicateCounts {
+  return policy === 'all'
+    ? { kept: duplicateRows, collapsed: 0 }
+    : { kept: 0, collapsed: duplicateRows };
+}
+
+function collapse(
+  kept: IndexedRecord,
+  next: IndexedRecord,
+  policy: DuplicatePolicy,
+): IndexedRecord {
+  const sourceLines = [...linesOf(kept), ...linesOf(next)];
+  switch (policy) {
+    case 'first':
+      return { ...kept, sourceLines };
+    case 'last':
+      return { ...next, sourceLines };
+    default:
+      return { ...mergeFields(kept, next), sourceLines };
+  }
+}
+
+// Пустые поля ранней строки заполняются значениями из поздней
+function mergeFields(kept: IndexedRecord, next: IndexedRecord): IndexedRecord {
+  const merged: IndexedRecord = { ...kept };
+  let nameChanged = false;
+  for (const [field, value] of Object.entries<unknown>(next)) {
+    if (field === 'sourceLine' || field === 'sourceLines') {
+      continue;
+    }
+    if ((merged[field] === undefined || merged[field] === '') && value !== '') {
+      merged[field] = value;
+      nameChanged ||= NAME_PARTS.includes(field);
+    }
+  }
+
+  if (nameChanged) {
+    merged.fullName =
+      `${merged.lastName ?? ''} ${merged.firstName ?? ''} ${merged.middleName ?? ''}`.trim();
+  }
+  return merged;
+}
+
+function linesOf(record: IndexedRecord): number[] {
+  if (record.sourceLines) {
+    return record.sourceLines;
+  }
+  return record.sourceLine === undefined ? [] : [record.sourceLine];
+}
@@ -0,0 +1,53 @@
+import { BadRequestException } from '@nestjs/common';
+import { IndexedRecord } from '../types/index.types';
+import { ImportMerger, resolveImportMode } from './import-merger';
+
+describe('ImportMerger', () => {
+  const row = (lastName: string, sourceLine: number): IndexedRecord => ({
+    lastName,
+    sourceLine,
+  });
+  // Номер базы с двумя строками: один повтор
+  const stored = () => [row('Иванов', 2), row('Иванова', 5)];
+
+  it('appends rows to the stored records and counts them as duplicates', () => {
+    const merger = new ImportMerger('append', 'all', 1);
+
+    const entry = merger.addRow([row('Петров', 1)], row('Петров', 3));
+    expect(merger.merge('79161234567', stored(), entry)).toHaveLength(4);
+    expect(merger.merge('79160000000', undefined, [row('Сидоров', 4)])).toEqual(
+      [row('Сидоров', 4)],
+    );
+    expect(merger.duplicateRows).toBe(3);
+  });
+
+  it('replaces stored records once per phone on upsert', () => {
+    const merger = new ImportMerger('upsert', 'all', 1);
+
+    const first = merger.merge('79161234567', stored(), [row('Петров', 1)]);
+    expect(first).toEqual([row('Петров', 1)]);
+    expect(merger.duplicateRows).toBe(0);
+
+    // Следующий чанк той же загрузки дополняет уже заменённые записи
+    expect(
+      merger.merge('79161234567', first, [row('Петрова', 8)]),
+    ).toHaveLength(2);
+    expect(merger.duplicateRows).toBe(1);
+  });
+
+  it('deletes listed phones that exist in the base', () => {
+    const merger = new ImportMerger('delete', 'all', 1);
+
+    expect(merger.addRow(undefined, row('Иванов', 1))).toEqual([]);
+    expect(merger.merge('79161234567', stored(), [])).toBeUndefined();
+    expect(merger.merge('79160000000', undefined, [])).toBeUndefined();
+    expect(merger.deletedPhones).toBe(1);
+    expect(merger.duplicateRows).toBe(0);
+  });
+
+  it('validates the import mode', () => {
+    expect(resolveImportMode(undefined)).toBe('replace');
+    expect(resolveImportMode('upsert')).toBe('upsert');
+    expect(() => resolveImportMode('merge')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,111 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DuplicatePolicy,
+  ImportMode,
+  IndexedEntry,
+  IndexedRecord,
+} from '../types/index.types';
+import {
+  appendRecords,
+  duplicateCountsOf,
+  entryRecords,
+} from '../duplicates/duplicate-policy';
+
+export const IMPORT_MODES: ImportMode[] = [
+  'replace',
+  'append',
+  'upsert',
+  'delete',
+];
+export const DEFAULT_IMPORT_MODE: ImportMode = 'replace';
+
+export function resolveImportMode(value: string | undefined): ImportMode {
+  if (value === undefined || value === null) {
+    return DEFAULT_IMPORT_MODE;
+  }
+  if (!IMPORT_MODES.includes(value as ImportMode)) {
+    throw new BadRequestException(
+      `Неизвестный режим загрузки ${value}. Допустимые: ${IMPORT_MODES.join(', ')}`,
+    );
+  }
+  return value as ImportMode;
+}
+
+/**
+ * Складывает строки загрузки с записями номеров: сначала в буфере чанка,
+ * затем с уже сохранёнными в сборке. Попутно считает строки-повторы,
+ * чтобы статистика базы оставалась точной после дозагрузок.
+ */
+export class ImportMerger {
+  // Строк с номером, уже встречавшимся в базе
+  duplicateRows: number;
+  // Номеров, удалённых из базы в режиме delete
+  deletedPhones = 0;
+  // Номера, записи которых upsert уже заменил
+  private readonly replaced = new Set<string>();
+
+  constructor(
+    readonly mode: ImportMode,
+    private readonly policy: DuplicatePolicy,
+    baseDuplicateRows = 0,
+  ) {
+    this.duplicateRows = baseDuplicateRows;
+  }
+
+  /**
+   * Добавляет строку к записям номера в буфере. В режиме delete
+   * записи не нужны: достаточно самого номера
+   */
+  addRow(
+    entry: IndexedRecord[] | undefined,
+    record: IndexedRecord,
+  ): IndexedRecord[] {
+    if (this.mode === 'delete') {
+      return [];
+    }
+    if (!entry) {
+      return [record];
+    }
+    this.duplicateRows++;
+    return appendRecords(entry, [record], this.policy);
+  }
+
+  /**
+   * Записи номера после загрузки буфера; undefined — номер удаляется
+   */
+  merge(
+    phone: string,
+    existing: IndexedEntry | undefined,
+    records: IndexedRecord[],
+  ): IndexedRecord[] | undefined {
+    if (this.mode === 'delete') {
+      if (existing) {
+        this.deletedPhones++;
+        this.duplicateRows -= extraRows(existing);
+      }
+      return undefined;
+    }
+
+    // Записи базы заменяются при первой встрече номера, дальше строки загрузки дополняют друг друга
+    if (this.mode === 'upsert' && !this.replaced.has(phone)) {
+      this.replaced.add(phone);
+      if (existing) {
+        this.duplicateRows -= extraRows(existing);
+      }
+      return records;
+    }
+
+    if (!existing) {
+      return records;
+    }
+    // Повторы внутри буфера уже учтены в addRow
+    this.duplicateRows++;
+    return appendRecords(entryRecords(existing), records, this.policy);
+  }
+}
+
+// Строк сверх первой, сохранённых или схлопнутых в записях номера
+function extraRows(entry: IndexedEntry): number {
+  const { kept, collapsed } = duplicateCountsOf(entryRecords(entry));
+  return kept + collapsed;
+}
@@ -0,0 +1,333 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Response } from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Observable, lastValueFrom, toArray } from 'rxjs';
+import { ParsingService } from '../parsing/parsing.service';
+import { PartitionCacheService } from './cache/partition-cache.service';
+import { IndexerController } from './indexer.controller';
+import { IndexerService } from './indexer.service';
+import { SearchCatalogService } from './manifest/search-catalog.service';
+import { PhoneNormalizerService } from './phone/phone-normalizer.service';
+import { LocalStorageBackend } from './storage/local-storage.backend';
+import {
+  BatchSearchResult,
+  IndexingJobInfo,
+  RecordSource,
+} from './types/index.types';
+
+describe('IndexerController', () => {
+  const fieldMapping = { lastName: 'lastName', phone: 'phone', email: 'email' };
+  let rootDir: string;
+  let service: IndexerService;
+  let controller: IndexerController;
+
+  const sourceOf = (rows: string[][], failAfter?: number): RecordSource => ({
+    name: 'crm',
+    headers: ['lastName', 'phone', 'email'],
+    estimatedRows: rows.length,
+    async *readRecords() {
+      for (const [i, row] of rows.entries()) {
+        if (i === failAfter) {
+          await Promise.reject(new Error('Соединение с СУБД потеряно'));
+        }
+        yield row;
+      }
+    },
+  });
+
+  const index = (databaseId: string, source: RecordSource) =>
+    service.createIndexFromSource(source, { databaseId, fieldMapping });
+
+  const finished = (job: IndexingJobInfo) =>
+    lastValueFrom(service.watchJob(job.id));
+
+  const collect = <T>(stream: Observable<{ data: T }>): Promise<T[]> =>
+    lastValueFrom(stream.pipe(toArray())).then((events) =>
+      events.map((event) => event.data),
+    );
+
+  const searchStream = (phone: string) =>
+    collect(
+      controller.searchPhoneStream(phone) as Observable<{
+        data: Record<string, unknown>;
+      }>,
+    );
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-controller-'));
+    // Контроллер создаёт папку загрузок в рабочем каталоге
+    jest.spyOn(process, 'cwd').mockReturnValue(rootDir);
+    const storage = new LocalStorageBackend({ type: 'local', rootDir });
+    service = new IndexerService(
+      storage,
+      new ParsingService(),
+      new PhoneNormalizerService(),
+      new SearchCatalogService(storage),
+      new PartitionCacheService(),
+    );
+    controller = new IndexerController(service, storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('create index', () => {
+    const csv = 'lastName,phone,email\nИванов,79161234567,ivanov@mail.ru\n';
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(rootDir, 'clients.csv'), csv);
+    });
+
+    it('indexes files from the storage root by name or absolute path', async () => {
+      const byName = await controller.createIndex('clients.csv', 'auto', {
+        fieldMapping,
+      });
+      expect(byName).toMatchObject({ databaseId: 'clients' });
+      await finished(byName);
+
+      const byPath = await controller.createIndex(
+        path.join(rootDir, 'clients.csv'),
+        'auto',
+        { databaseId: 'copy', fieldMapping },
+      );
+      expect(byPath).toMatchObject({ databaseId: 'copy' });
+      await finished(byPath);
+    });
+
+    it('rejects paths outside the storage and reports missing files', async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+      try {
+        fs.writeFileSync(path.join(outside, 'clients.csv'), csv);
+
+        for (const filename of [
+          path.join(outside, 'clients.csv'),
+          '../clients.csv',
+        ]) {
+          await expect(controller.createIndex(filename)).rejects.toThrow(
+            BadRequestException,
+          );
+        }
+        await expect(controller.createIndex('missing.csv')).rejects.toThrow(
+          'File not found: missing.csv',
+        );
+      } finally {
+        fs.rmSync(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('index-stream', () => {
+    it('streams job events until the index is published', async () => {
+      const job = await index(
+        'crm',
+        sourceOf([['Иванов', '79161234567', 'ivanov@mail.ru']]),
+      );
+
+      const events = await collect(controller.indexStream(job.id));
+
+      // Подписчик получает последнее событие до подключения и все следующие
+      expect(events.map((event) => event.type)).toEqual([
+        'started',
+        'progress',
+        'completed',
+      ]);
+      expect(events[2]).toMatchObject({
+        jobId: job.id,
+        state: 'succeeded',
+        result: { totalRecords: 1 },
+      });
+    });
+
+    it('ends the stream with the error of a failed job', async () => {
+      const job = await index(
+        'crm',
+        sourceOf(
+          [
+            ['Иванов', '79161234567', ''],
+            ['Петров', '79161234568', ''],
+          ],
+          1,
+        ),
+      );
+
+      const events = await collect(controller.indexStream(job.id));
+
+      expect(events.at(-1)).toMatchObject({
+        type: 'failed',
+        state: 'failed',
+        error: 'Соединение с СУБД потеряно',
+      });
+    });
+
+    it('rejects unknown jobs', () => {
+      expect(() => controller.indexStream('missing')).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('search-stream', () => {
+    it('reports progress per database and completes after the match', async () => {
+      await finished(
+        await index(
+          'crm',
+          sourceOf([['Иванов', '79161234567', 'ivanov@mail.ru']]),
+        ),
+      );
+
+      const events = await searchStream('+7 (916) 123-45-67');
+
+      expect(events[0]).toMatchObject({
+        currentDatabase: 'crm',
+        searching: true,
+        isComplete: false,
+      });
+      expect(events.at(-1)).toMatchObject({
+        found: true,
+        isComplete: true,
+        result: { lastName: 'Иванов' },
+      });
+    });
+
+    it('completes with an error for a phone that cannot be normalized', async () => {
+      const events = await searchStream('12');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ found: false, isComplete: true });
+      expect(String(events[0].error)).toContain('Неверный формат номера');
+    });
+
+    it('completes without a match when no database can hold the phone', async () => {
+      const events = await searchStream('79161234567');
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          found: false,
+          isComplete: true,
+          totalDatabases: 0,
+        }),
+      ]);
+    });
+  });
+
+  describe('search/batch', () => {
+    const response = () => {
+      const headers: Record<string, string> = {};
+      const res = {
+        setHeader: (name: string, value: string) => (headers[name] = value),
+      } as unknown as Response;
+      return { res, headers };
+    };
+
+    beforeEach(async () => {
+      await finished(
+        await index(
+          'crm',
+          sourceOf([
+            ['Иванов', '79161234567', 'ivanov@mail.ru'],
+            ['Петров; мл.', '79161234568', ''],
+          ]),
+        ),
+      );
+    });
+
+    it('searches phones listed in the JSON body', async () => {
+      const { res, headers } = response();
+
+      const result = (await controller.searchBatch(
+        { phones: ['+7 916 123-45-67', '79160000000', 'abc'] },
+        undefined,
+        undefined,
+        res,
+      )) as BatchSearchResult;
+
+      expect(result).toMatchObject({
+        total: 3,
+        found: 1,
+        notFound: 1,
+        rejected: 1,
+      });
+      expect(result.results.map((item) => item.status)).toEqual([
+        'found',
+        'not_found',
+        'rejected',
+      ]);
+      expect(result.results[0].matches[0]).toMatchObject({
+        database: 'crm',
+        record: { email: 'ivanov@mail.ru' },
+      });
+      expect(headers).toEqual({});
+    });
+
+    it('reads phones from an uploaded file and removes it', async () => {
+      const filePath = path.join(rootDir, 'phones.csv');
+      fs.writeFileSync(filePath, 'Имя;Телефон\nИван;89161234568\n');
+      const file = { path: filePath, originalname: 'phones.csv' };
+
+      const result = (await controller.searchBatch(
+        { phoneColumn: 'Телефон' },
+        file as Express.Multer.File,
+        undefined,
+        response().res,
+      )) as BatchSearchResult;
+
+      expect(result.found).toBe(1);
+      expect(result.results[0].normalizedPhone).toBe('79161234568');
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('downloads results as CSV or JSON attachments', async () => {
+      const csv = response();
+      const text = await controller.searchBatch(
+        { phones: ['79161234568', '79160000000'] },
+        undefined,
+        'csv',
+        csv.res,
+      );
+
+      expect(csv.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+      expect(csv.headers['Content-Disposition']).toMatch(
+        /^attachment; filename="batch-search-\d+\.csv"$/,
+      );
+      const lines = (text as string).replace(/^\uFEFF/, '').split('\r\n');
+      expect(lines[0]).toBe(
+        'input;normalizedPhone;status;reason;database;formattedPhone;fullName;birthDate;email;inn;snils',
+      );
+      expect(lines[1]).toMatch(
+        /^79161234568;79161234568;found;;crm;.*;"Петров; мл\.";/,
+      );
+      expect(lines[2]).toBe('79160000000;79160000000;not_found;;;;;;;;');
+
+      const json = response();
+      const result = await controller.searchBatch(
+        { phones: ['79161234568'] },
+        undefined,
+        'json',
+        json.res,
+      );
+      expect(json.headers['Content-Disposition']).toMatch(/\.json"$/);
+      expect(json.headers['Content-Type']).toBeUndefined();
+      expect((result as BatchSearchResult).found).toBe(1);
+    });
+
+    it('rejects requests without phones and unknown download formats', async () => {
+      const { res } = response();
+
+      await expect(
+        controller.searchBatch({}, undefined, undefined, res),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        controller.searchBatch(
+          { phones: ['79161234567'] },
+          undefined,
+          'xlsx',
+          res,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -1,10 +1,19 @@
-import { Controller, Post, Get, Param, Sse, Logger, HttpException, HttpStatus, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Controller, Post, Get, Delete, Param, Body, Sse, Logger, HttpException, HttpStatus, HttpCode, Query, Inject, UseInterceptors, UploadedFile, Res, BadRequestException } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiBody, ApiConsumes } from '@nestjs/swagger';
 import { IndexerService } from './indexer.service';
+import { FileIndexDto } from './dto/create-index.dto';
+import { RollbackDto } from './dto/rollback.dto';
+import { LEGACY_DATA_FILE, PARTITION_INDEX_FILE } from './partitioning/partition-format';
+import { BatchSearchDto } from './dto/batch-search.dto';
+import { batchResultToCsv } from './search/batch-csv';
 import * as path from 'path';
 import * as fs from 'fs';
-import { Observable, Subject } from 'rxjs';
-import { DatabaseStatsResponse } from './types/index.types';
+import { Observable, ReplaySubject, map } from 'rxjs';
+import { BatchSearchResult, DatabaseStatsResponse, IndexMetadata, IndexingJobInfo, IndexingJobEvent, NameSearchResult, PartialSearchResult, SearchMode, SecondarySearchResult } from './types/index.types';
+import { STORAGE_BACKEND, StorageBackend, StorageBackendType } from './storage/storage.types';
+import { uploadDirFromEnv } from './storage/storage.factory';
 
 // Определяем интерфейсы для типизации
 interface PrefixInfo {
@@ -21,6 +30,8 @@ interface DatabaseInfo {
 }
 
 interface DirectoryTestResult {
+  backend: StorageBackendType;
+  location: string;
   uploadDirExists: boolean;
   directories: DatabaseInfo[];
   errors: string[];
@@ -31,11 +42,14 @@ interface DirectoryTestResult {
 export class IndexerController {
   private readonly logger = new Logger(IndexerController.name);
 
-  constructor(private readonly indexerService: IndexerService) {
+  constructor(
+    private readonly indexerService: IndexerService,
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend
+  ) {
     this.logger.log('IndexerController initialized');
     
-    // Создаем директорию uploads, если она не существует
-    const uploadDir = path.join(process.cwd(), 'uploads');
+    // Создаем директорию загрузок, если она не существует
+    const uploadDir = uploadDirFromEnv();
     if (!fs.existsSync(uploadDir)) {
       this.logger.log(`Creating uploads directory: ${uploadDir}`);
       fs.mkdirSync(uploadDir, { recursive: true });
@@ -43,7 +57,8 @@ export class IndexerController {
   }
 
   @Post(':filename')
-@ApiOperation({ summary: 'Создать индекс для файла (поддерживаются TXT и CSV)' })
+@HttpCode(HttpStatus.ACCEPTED)
+@ApiOperation({ summary: 'Поставить файл в очередь на индексацию (поддерживаются TXT и CSV)' })
 @ApiParam({ name: 'filename', description: 'Имя файла для индексации' })
 @ApiQuery({ 
   name: 'encoding', 
@@ -51,96 +66,59 @@ export class IndexerController {
   required: false,
   enum: ['utf8', 'windows1251', 'koi8r', 'iso88595', 'auto']
 })
+@ApiBody({ type: FileIndexDto, required: false, description: 'Описание колонок файла, база, режим загрузки и настройки партиционирования' })
 async createIndex(
   @Param('filename') filename: string,
-  @Query('encoding') encoding: string = 'auto'
-) {
+  @Query('encoding') encoding: string = 'auto',
+  @Body() mapping: FileIndexDto = {}
+): Promise<IndexingJobInfo> {
   this.logger.log(`Request to create index for file: ${filename}`);
   
   try {
-    // Проверка различных вариантов пути к файлу
-    let filePath = '';
-    let fileExists = false;
-    
-    // 1. Проверяем, если это абсолютный путь
-    if (path.isAbsolute(filename)) {
-      this.logger.log(`Checking absolute path: ${filename}`);
-      if (fs.existsSync(filename)) {
-        filePath = filename;
-        fileExists = true;
-        this.logger.log(`File found at absolute path: ${filePath}`);
-      }
-    }
-    
-    // 2. Проверяем в директории uploads
-    if (!fileExists) {
-      const relativePath = path.join(process.cwd(), 'uploads', path.basename(filename));
-      this.logger.log(`Checking in uploads dir: ${relativePath}`);
-      if (fs.existsSync(relativePath)) {
-        filePath = relativePath;
-        fileExists = true;
-        this.logger.log(`File found in uploads directory: ${filePath}`);
-      }
-    }
-    
-    // 3. Проверяем в корне проекта
-    if (!fileExists) {
-      const projectRootPath = path.join(process.cwd(), path.basename(filename));
-      this.logger.log(`Checking in project root: ${projectRootPath}`);
-      if (fs.existsSync(projectRootPath)) {
-        filePath = projectRootPath;
-        fileExists = true;
-        this.logger.log(`File found in project root: ${filePath}`);
-      }
-    }
-    
-    // Если файл не найден
-    if (!fileExists) {
-      this.logger.error(`File not found: ${filename}`);
+    // Индексатор читает файл из хранилища, поэтому путь приводится к ключу в нём
+    const filePath = this.storageKeyOf(filename);
+    if (!(await this.storage.objectExists(filePath))) {
+      this.logger.error(`File not found in storage ${this.storage.location}: ${filePath}`);
       throw new HttpException(`File not found: ${filename}`, HttpStatus.NOT_FOUND);
     }
     
-    // Проверяем, что это файл, а не директория
-    const stats = fs.statSync(filePath);
-    if (!stats.isFile()) {
-      this.logger.error(`Path exists but is not a file: ${filePath}`);
-      throw new HttpException(`Path is not a file: ${filePath}`, HttpStatus.BAD_REQUEST);
-    }
-    
     // Выводим информацию о размере файла
-    this.logger.log(`File size: ${stats.size} bytes`);
+    this.logger.log(`File size: ${await this.storage.getObjectSize(filePath)} bytes`);
     
-    // Определяем ID базы данных из имени файла
-    const databaseId = path.basename(filePath, path.extname(filePath));
-    this.logger.log(`Using database ID: ${databaseId}`);
+    // ID базы берется из тела запроса (дозагрузка в существующую базу) или из имени файла
+    const databaseId = mapping.databaseId?.trim() || path.basename(filePath, path.extname(filePath));
+    this.logger.log(`Using database ID: ${databaseId}${mapping.importMode ? `, import mode: ${mapping.importMode}` : ''}`);
 
     // Определяем тип файла по расширению
     const fileExtension = path.extname(filePath).toLowerCase();
     this.logger.log(`File extension: ${fileExtension}`);
     
-    let phoneColumn = 'cmainphonenum'; // Для TXT файлов
-    
-    // Если это CSV файл, настраиваем соответствующие параметры
     if (fileExtension === '.csv') {
       this.logger.log(`Processing as CSV file with encoding: ${encoding}`);
-      phoneColumn = 'Телефон'; // Для CSV файлов
     } else {
       this.logger.log(`Processing as TXT file`);
     }
+    
+    // Колонки берутся из тела запроса; без него действует раскладка по умолчанию
+    if (mapping.phoneColumn !== undefined || mapping.fieldMapping) {
+      this.logger.log(`Column mapping: phone=${mapping.phoneColumn ?? mapping.fieldMapping?.phone}, fields=${JSON.stringify(mapping.fieldMapping || {})}`);
+    }
 
-    // Запускаем создание индекса
-    this.logger.log(`Starting index creation for ${filePath} with database ID ${databaseId}`);
-    const result = await this.indexerService.createIndex(filePath, {
+    // Ставим создание индекса в очередь
+    this.logger.log(`Queueing index creation for ${filePath} with database ID ${databaseId}`);
+    const job = await this.indexerService.createIndex(filePath, {
+      ...mapping,
       databaseId,
-      phoneColumn,
-      partitionSize: 100,
       encoding: encoding as any // Передаем кодировку для CSV файлов
     });
     
-    this.logger.log(`Index created successfully. Total records: ${result.totalRecords}`);
-    return result;
+    this.logger.log(`Index job ${job.id} queued`);
+    return job;
   } catch (error) {
     this.logger.error(`Error creating index for ${filename}: ${error.message}`, error.stack);
+    if (error instanceof HttpException) {
+      throw error;
+    }
     throw new HttpException(
       `Failed to create index: ${error.message}`, 
       HttpStatus.INTERNAL_SERVER_ERROR
@@ -148,11 +126,45 @@ async createIndex(
   }
 }
 
+  @Get('jobs')
+  @ApiOperation({ summary: 'Список задач индексации' })
+  listJobs(): IndexingJobInfo[] {
+    return this.indexerService.listJobs();
+  }
+
+  @Get('jobs/:id')
+  @ApiOperation({ summary: 'Состояние задачи индексации' })
+  @ApiParam({ name: 'id', description: 'ID задачи' })
+  getJob(@Param('id') id: string): IndexingJobInfo {
+    return this.indexerService.getJob(id);
+  }
+
+  @Delete('jobs/:id')
+  @ApiOperation({ summary: 'Отменить задачу индексации' })
+  @ApiParam({ name: 'id', description: 'ID задачи' })
+  cancelJob(@Param('id') id: string): IndexingJobInfo {
+    this.logger.log(`Request to cancel index job ${id}`);
+    return this.indexerService.cancelJob(id);
+  }
+
+  @Sse('index-stream/:jobId')
+  @ApiOperation({ summary: 'Потоковый прогресс задачи индексации' })
+  @ApiParam({ name: 'jobId', description: 'ID задачи' })
+  indexStream(@Param('jobId') jobId: string): Observable<{ data: IndexingJobEvent }> {
+    this.logger.log(`Starting progress stream for index job ${jobId}`);
+    return this.indexerService.watchJob(jobId).pipe(map(event => ({ data: event })));
+  }
+
   @Sse('search-stream/:phone')
   @ApiOperation({ summary: 'Потоковый поиск по номеру телефона с прогрессом' })
-  searchPhoneStream(@Param('phone') phone: string): Observable<any> {
+  @ApiQuery({ name: 'mode', required: false, enum: ['first', 'all'], description: 'all — искать во всех базах и вернуть сводный профиль' })
+  searchPhoneStream(
+    @Param('phone') phone: string,
+    @Query('mode') mode: SearchMode = 'first'
+  ): Observable<any> {
     this.logger.log(`Starting streaming search for phone: ${phone}`);
-    const subject = new Subject();
+    // Ошибка формата номера приходит до подписки клиента, поэтому события буферизуются
+    const subject = new ReplaySubject();
 
     this.indexerService.findByPhoneWithProgress(phone, (progress) => {
       // Логируем каждое обновление прогресса
@@ -172,18 +184,96 @@ async createIndex(
         this.logger.log(`Closing stream for phone ${phone}`);
         setTimeout(() => subject.complete(), 100);
       }
-    });
+    }, mode);
 
     return subject.asObservable();
   }
 
+  @Get('search/by-email/:email')
+  @ApiOperation({ summary: 'Поиск по email (нужен дополнительный индекс email)' })
+  @ApiParam({ name: 'email', description: 'Email' })
+  async findByEmail(@Param('email') email: string): Promise<SecondarySearchResult> {
+    this.logger.log(`Searching by email: ${email}`);
+    return await this.indexerService.findBySecondaryKey('email', { email });
+  }
+
+  @Get('search/by-inn/:inn')
+  @ApiOperation({ summary: 'Поиск по ИНН (нужен дополнительный индекс inn)' })
+  @ApiParam({ name: 'inn', description: 'ИНН, 10 или 12 цифр' })
+  async findByInn(@Param('inn') inn: string): Promise<SecondarySearchResult> {
+    this.logger.log(`Searching by INN: ${inn}`);
+    return await this.indexerService.findBySecondaryKey('inn', { inn });
+  }
+
+  @Get('search/by-snils/:snils')
+  @ApiOperation({ summary: 'Поиск по СНИЛС (нужен дополнительный индекс snils)' })
+  @ApiParam({ name: 'snils', description: 'СНИЛС, 11 цифр с разделителями или без' })
+  async findBySnils(@Param('snils') snils: string): Promise<SecondarySearchResult> {
+    this.logger.log(`Searching by SNILS: ${snils}`);
+    return await this.indexerService.findBySecondaryKey('snils', { snils });
+  }
+
+  @Get('search/by-name-birth')
+  @ApiOperation({ summary: 'Точный поиск по ФИО и дате рождения (нужен дополнительный индекс nameBirth)' })
+  @ApiQuery({ name: 'name', description: 'ФИО в порядке фамилия, имя, отчество' })
+  @ApiQuery({ name: 'birthDate', description: 'Дата рождения: ДД.ММ.ГГГГ или ГГГГ-ММ-ДД' })
+  async findByNameAndBirthDate(
+    @Query('name') name: string = '',
+    @Query('birthDate') birthDate: string = ''
+  ): Promise<SecondarySearchResult> {
+    this.logger.log(`Searching by name and birth date: ${name}, ${birthDate}`);
+    return await this.indexerService.findBySecondaryKey('nameBirth', { fullName: name, birthDate });
+  }
+
+  @Get('search/by-name')
+  @ApiOperation({ summary: 'Нечёткий поиск по ФИО во всех базах (нужен дополнительный индекс name)' })
+  @ApiQuery({ name: 'q', description: 'ФИО или его часть, кириллицей или латиницей, в любом порядке' })
+  @ApiQuery({ name: 'birthDate', required: false, description: 'Дата рождения для сужения поиска' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Число результатов (по умолчанию 20, не больше 100)' })
+  async findByName(
+    @Query('q') q: string = '',
+    @Query('birthDate') birthDate?: string,
+    @Query('limit') limit?: string
+  ): Promise<NameSearchResult> {
+    this.logger.log(`Fuzzy name search: ${q}${birthDate ? `, ${birthDate}` : ''}`);
+    return await this.indexerService.findByName(q, birthDate, limit === undefined ? undefined : Number(limit));
+  }
+
+  @Get('search/partial')
+  @ApiOperation({ summary: 'Поиск по части номера: маске или началу и концу, с постраничной выдачей' })
+  @ApiQuery({ name: 'mask', required: false, description: 'Маска полной длины, * — неизвестная цифра: 7916***4567' })
+  @ApiQuery({ name: 'prefix', required: false, description: 'Начало номера, не меньше 4 цифр: 7916123' })
+  @ApiQuery({ name: 'suffix', required: false, description: 'Конец номера, вместе с prefix: 4567' })
+  @ApiQuery({ name: 'page', required: false, description: 'Номер страницы, с 1' })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Размер страницы (по умолчанию 50, не больше 200)' })
+  async searchPartial(
+    @Query('mask') mask?: string,
+    @Query('prefix') prefix?: string,
+    @Query('suffix') suffix?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string
+  ): Promise<PartialSearchResult> {
+    this.logger.log(`Partial phone search: ${mask ?? `${prefix ?? ''}…${suffix ?? ''}`}`);
+    return await this.indexerService.searchPartialPhone(
+      { mask, prefix, suffix },
+      page === undefined ? undefined : Number(page),
+      pageSize === undefined ? undefined : Number(pageSize)
+    );
+  }
+
   @Get('search/:phone')
   @ApiOperation({ summary: 'Быстрый поиск по номеру телефона' })
-  async findByPhone(@Param('phone') phone: string) {
-    this.logger.log(`Performing quick search for phone: ${phone}`);
+  @ApiQuery({ name: 'mode', required: false, enum: ['first', 'all'], description: 'all — искать во всех базах и вернуть сводный профиль' })
+  async findByPhone(
+    @Param('phone') phone: string,
+    @Query('mode') mode: SearchMode = 'first'
+  ) {
+    this.logger.log(`Performing ${mode === 'all' ? 'full' : 'quick'} search for phone: ${phone}`);
     
     try {
-      const result = await this.indexerService.findByPhoneParallel(phone);
+      const result = mode === 'all'
+        ? await this.indexerService.findAllByPhone(phone)
+        : await this.indexerService.findByPhoneParallel(phone);
       
       if (result) {
         this.logger.log(`Found record for phone ${phone}`);
@@ -196,6 +286,11 @@ async createIndex(
         );
       }
     } catch (error) {
+      // Ошибки сервиса уже содержат нормализованный номер или причину отказа
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      
       // Check if this is a "not found" error thrown by the service
       if (error.message && error.message.includes('не найден ни в одной базе данных')) {
         this.logger.log(`Phone ${phone} not found in any database`);
@@ -211,6 +306,72 @@ async createIndex(
     }
   }
 
+  @Post('search/batch')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Пакетный поиск по списку телефонов или загруженному файлу' })
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @ApiBody({ type: BatchSearchDto, description: 'Список phones или файл (поле file) с номерами' })
+  @ApiQuery({ name: 'download', required: false, enum: ['json', 'csv'], description: 'Отдать результат файлом' })
+  @UseInterceptors(FileInterceptor('file'))
+  async searchBatch(
+    @Body() dto: BatchSearchDto = {},
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query('download') download: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ): Promise<BatchSearchResult | string> {
+    if (download && download !== 'json' && download !== 'csv') {
+      throw new BadRequestException(`Неизвестный формат выгрузки: ${download}`);
+    }
+    
+    let phones: string[] = [];
+    if (file) {
+      this.logger.log(`Batch search from uploaded file: ${file.originalname}`);
+      try {
+        phones = await this.indexerService.readPhonesFromFile(file.path, dto?.phoneColumn);
+      } finally {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+      }
+    } else if (Array.isArray(dto?.phones)) {
+      phones = dto.phones;
+    } else {
+      throw new BadRequestException('Передайте список phones или файл с номерами');
+    }
+    
+    const result = await this.indexerService.searchBatch(phones);
+    
+    if (download) {
+      const fileName = `batch-search-${Date.now()}.${download}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (download === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        return batchResultToCsv(result);
+      }
+    }
+    
+    return result;
+  }
+
+  @Post('catalog/rebuild')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Пересобрать каталог баз и построить манифесты для старых индексов' })
+  async rebuildCatalog() {
+    this.logger.log('Rebuilding search catalog');
+    return await this.indexerService.rebuildManifests();
+  }
+
+  @Post('databases/:id/rollback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Вернуть базу к предыдущей опубликованной версии индекса' })
+  @ApiParam({ name: 'id', description: 'ID базы данных' })
+  @ApiBody({ type: RollbackDto, required: false })
+  async rollbackDatabase(
+    @Param('id') databaseId: string,
+    @Body() dto: RollbackDto = {}
+  ): Promise<IndexMetadata> {
+    this.logger.log(`Rolling back database ${databaseId}${dto.buildId ? ` to build ${dto.buildId}` : ''}`);
+    return await this.indexerService.rollbackDatabase(databaseId, dto.buildId);
+  }
+
   @Get('stats')
   @ApiOperation({ summary: 'Получить статистику по всем базам данных' })
   async getDatabaseStats(): Promise<DatabaseStatsResponse> {
@@ -253,82 +414,63 @@ async createIndex(
     this.logger.log('Testing directory structure');
     
     try {
-      // Проверяем структуру директорий и файлов
-      const uploadPath = path.join(process.cwd(), 'uploads');
-      this.logger.log(`Base upload path: ${uploadPath}`);
+      this.logger.log(`Storage backend: ${this.storage.type} (${this.storage.location})`);
       
       // Определяем результат с правильными типами
       const result: DirectoryTestResult = {
+        backend: this.storage.type,
+        location: this.storage.location,
         uploadDirExists: false,
         directories: [],
         errors: []
       };
       
-      // Проверяем существование корневой директории
-      if (fs.existsSync(uploadPath)) {
+      // Проверяем существование корня хранилища
+      if (await this.storage.prefixExists('')) {
         result.uploadDirExists = true;
-        this.logger.log(`Upload directory exists: ${uploadPath}`);
         
         // Получаем список баз данных
-        const entries = fs.readdirSync(uploadPath);
-        this.logger.log(`Found ${entries.length} entries in upload directory`);
-        
-        const databases = entries.filter(dir => {
-          const fullPath = path.join(uploadPath, dir);
-          return fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory();
-        });
-        
+        const databases = await this.storage.listFolders('');
         this.logger.log(`Found ${databases.length} database directories`);
         
         // Проверяем каждую базу данных
         for (const db of databases) {
           try {
-            const dbPath = path.join(uploadPath, db);
-            this.logger.log(`Checking database: ${db} at ${dbPath}`);
+            const dbFolder = `${db}/`;
+            this.logger.log(`Checking database: ${db}`);
             
             const dbInfo: DatabaseInfo = {
               name: db,
-              isDirectory: fs.statSync(dbPath).isDirectory(),
+              isDirectory: true,
               prefixes: [],
               metadataExists: false
             };
             
             // Проверяем наличие metadata.json
-            const metadataPath = path.join(dbPath, 'metadata.json');
-            if (fs.existsSync(metadataPath)) {
-              dbInfo.metadataExists = fs.statSync(metadataPath).isFile();
-              this.logger.log(`Metadata file exists: ${metadataPath} (isFile: ${dbInfo.metadataExists})`);
+            const metadataKey = `${dbFolder}metadata.json`;
+            dbInfo.metadataExists = await this.storage.objectExists(metadataKey);
+            if (dbInfo.metadataExists) {
+              this.logger.log(`Metadata file exists: ${metadataKey}`);
             } else {
-              this.logger.warn(`Metadata file does not exist: ${metadataPath}`);
+              this.logger.warn(`Metadata file does not exist: ${metadataKey}`);
             }
             
             // Проверяем префиксы (директории с первыми цифрами номеров)
-            const dbEntries = fs.readdirSync(dbPath);
-            this.logger.log(`Found ${dbEntries.length} entries in database ${db}`);
-            
-            const prefixes = dbEntries.filter(item => {
-              const itemPath = path.join(dbPath, item);
-              return item !== 'metadata.json' && 
-                fs.existsSync(itemPath) && 
-                fs.statSync(itemPath).isDirectory();
-            });
-            
+            const prefixes = await this.storage.listFolders(dbFolder);
             this.logger.log(`Found ${prefixes.length} prefix directories in database ${db}`);
             
             for (const prefix of prefixes) {
-              const prefixPath = path.join(dbPath, prefix);
-              this.logger.log(`Checking prefix: ${prefix} at ${prefixPath}`);
+              // Старый формат — data.json, новый — index.json рядом с блоками записей
+              const dataKey = `${dbFolder}${prefix}/${LEGACY_DATA_FILE}`;
+              const indexKey = `${dbFolder}${prefix}/${PARTITION_INDEX_FILE}`;
+              const dataFileExists = await this.storage.objectExists(dataKey) || await this.storage.objectExists(indexKey);
               
-              const dataPath = path.join(prefixPath, 'data.json');
-              const dataFileExists = fs.existsSync(dataPath);
-              const isDataFile = dataFileExists ? fs.statSync(dataPath).isFile() : false;
-              
-              this.logger.log(`Data file ${dataPath}: exists=${dataFileExists}, isFile=${isDataFile}`);
+              this.logger.log(`Data file ${dbFolder}${prefix}/: exists=${dataFileExists}`);
               
               dbInfo.prefixes.push({
                 prefix,
-                isDirectory: fs.statSync(prefixPath).isDirectory(),
-                dataFileExists: isDataFile
+                isDirectory: true,
+                dataFileExists
               });
             }
             
@@ -340,7 +482,7 @@ async createIndex(
           }
         }
       } else {
-        this.logger.warn(`Upload directory does not exist: ${uploadPath}`);
+        this.logger.warn(`Storage root does not exist: ${this.storage.location}`);
       }
       
       return {
@@ -355,4 +497,23 @@ async createIndex(
       );
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Ключ файла в хранилище. Абсолютный путь допустим только внутри корня
+   * локального хранилища; выход за корень — ошибка запроса, а не «не найден».
+   */
+  private storageKeyOf(filename: string): string {
+    let key = filename;
+    if (path.isAbsolute(filename)) {
+      if (this.storage.type !== 'local') {
+        throw new BadRequestException(`Хранилище ${this.storage.location} не принимает абсолютные пути: ${filename}`);
+      }
+      key = path.relative(this.storage.location, filename);
+    }
+    
+    if (!key || path.isAbsolute(key) || key.split(/[\\/]/).includes('..')) {
+      throw new BadRequestException(`Файл ${filename} лежит вне хранилища ${this.storage.location}`);
+    }
+    return key.split(path.sep).join('/');
+  }
+}
@@ -1,16 +1,23 @@
 import { Module } from '@nestjs/common';
 import { IndexerController } from './indexer.controller';
 import { IndexerService } from './indexer.service';
+import { ParsingModule } from '../parsing/parsing.module';
 import { MulterModule } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import * as path from 'path';
+import { STORAGE_BACKEND } from './storage/storage.types';
+import { createStorageBackend, storageConfigFromEnv, uploadDirFromEnv } from './storage/storage.factory';
+import { PhoneNormalizerService } from './phone/phone-normalizer.service';
+import { SearchCatalogService } from './manifest/search-catalog.service';
+import { PartitionCacheService } from './cache/partition-cache.service';
 
 @Module({
   imports: [
+    ParsingModule,
     MulterModule.register({
       storage: diskStorage({
         destination: (req, file, cb) => {
-          cb(null, './uploads');
+          cb(null, uploadDirFromEnv());
         },
         filename: (req, file, cb) => {
           const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -29,7 +36,16 @@ import * as path from 'path';
     }),
   ],
   controllers: [IndexerController],
-  providers: [IndexerService],
-  exports: [IndexerService]
+  providers: [
+    {
+      provide: STORAGE_BACKEND,
+      useFactory: () => createStorageBackend(storageConfigFromEnv())
+    },
+    PhoneNormalizerService,
+    SearchCatalogService,
+    PartitionCacheService,
+    IndexerService
+  ],
+  exports: [IndexerService, PhoneNormalizerService, SearchCatalogService, PartitionCacheService, STORAGE_BACKEND]
 })
 export class IndexerModule {}
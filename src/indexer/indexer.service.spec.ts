@@ -0,0 +1,543 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import { ParsingService } from '../parsing/parsing.service';
+import { PartitionCacheService } from './cache/partition-cache.service';
+import { IndexOptionsDto } from './dto/create-index.dto';
+import { IndexerService } from './indexer.service';
+import { SearchCatalogService } from './manifest/search-catalog.service';
+import { PhoneNormalizerService } from './phone/phone-normalizer.service';
+import { LocalStorageBackend } from './storage/local-storage.backend';
+import {
+  IndexMetadata,
+  IndexingJobEvent,
+  RecordSource,
+} from './types/index.types';
+
+describe('IndexerService', () => {
+  const headers = ['lastName', 'phone', 'email'];
+  const fieldMapping = { lastName: 'lastName', phone: 'phone', email: 'email' };
+  let rootDir: string;
+  let storage: LocalStorageBackend;
+  let service: IndexerService;
+
+  // Источник отдаёт строки только после release: задача остаётся выполняющейся
+  const gatedSource = (name: string, rows: string[][]) => {
+    let release!: () => void;
+    const opened = new Promise<void>((resolve) => (release = resolve));
+    const source: RecordSource = {
+      name,
+      headers,
+      estimatedRows: rows.length,
+      async *readRecords() {
+        await opened;
+        yield* rows;
+      },
+    };
+    return { source, release };
+  };
+
+  const rowsOf = (count: number, from = 0) =>
+    Array.from({ length: count }, (_, i) => [
+      `Фамилия${from + i}`,
+      `7916${String(from + i).padStart(7, '0')}`,
+      `user${from + i}@mail.ru`,
+    ]);
+
+  const index = (databaseId: string, source: RecordSource) =>
+    service.createIndexFromSource(source, { databaseId, fieldMapping });
+
+  const eventsOf = (jobId: string): Promise<IndexingJobEvent[]> =>
+    lastValueFrom(service.watchJob(jobId).pipe(toArray()));
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+    storage = new LocalStorageBackend({ type: 'local', rootDir });
+    service = new IndexerService(
+      storage,
+      new ParsingService(),
+      new PhoneNormalizerService(),
+      new SearchCatalogService(storage),
+      new PartitionCacheService(),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('rejects database ids that leave the storage folder', async () => {
+    const { source } = gatedSource('crm', rowsOf(1));
+    await storage.writeObject('clients.csv', 'phone\n79161234567\n');
+
+    for (const databaseId of ['..', '../other', 'a\\b', '']) {
+      await expect(index(databaseId, source)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.createIndex('clients.csv', { databaseId }),
+      ).rejects.toThrow(BadRequestException);
+    }
+    expect(service.listJobs()).toEqual([]);
+  });
+
+  describe('job queue', () => {
+    it('runs jobs one at a time in the order they were queued', async () => {
+      const first = gatedSource('first', rowsOf(3));
+      const second = gatedSource('second', rowsOf(2, 10));
+
+      const firstJob = await index('first', first.source);
+      const secondJob = await index('second', second.source);
+      expect(service.getJob(firstJob.id).state).toBe('running');
+      expect(service.getJob(secondJob.id).state).toBe('queued');
+
+      second.release();
+      first.release();
+      const firstEvents = await eventsOf(firstJob.id);
+      expect(firstEvents.at(-1)?.type).toBe('completed');
+      expect(service.getJob(secondJob.id).state).not.toBe('queued');
+
+      const secondEvents = await eventsOf(secondJob.id);
+      expect(secondEvents.at(-1)?.result?.totalRecords).toBe(2);
+      expect(service.getJob(firstJob.id).result?.totalRecords).toBe(3);
+      expect(
+        service.getJob(secondJob.id).startedAt!.getTime(),
+      ).toBeGreaterThanOrEqual(
+        service.getJob(firstJob.id).finishedAt!.getTime(),
+      );
+    });
+
+    it('removes a queued job without running it', async () => {
+      const first = gatedSource('first', rowsOf(1));
+      const queued = gatedSource('queued', rowsOf(1));
+      const firstJob = await index('first', first.source);
+      const queuedJob = await index('queued', queued.source);
+
+      const cancelled = service.cancelJob(queuedJob.id);
+      expect(cancelled.state).toBe('cancelled');
+      expect((await eventsOf(queuedJob.id)).map((event) => event.type)).toEqual(
+        ['cancelled'],
+      );
+      expect(() => service.cancelJob(queuedJob.id)).toThrow(ConflictException);
+
+      first.release();
+      await eventsOf(firstJob.id);
+      expect(service.getJob(queuedJob.id).startedAt).toBeUndefined();
+      expect(await storage.prefixExists('queued/')).toBe(false);
+    });
+
+    it('stops a running job, discards its build and starts the next one', async () => {
+      const running = gatedSource('running', rowsOf(5));
+      const next = gatedSource('next', rowsOf(1));
+      const runningJob = await index('running', running.source);
+      const nextJob = await index('next', next.source);
+
+      expect(service.cancelJob(runningJob.id).cancelRequested).toBe(true);
+      running.release();
+      next.release();
+
+      const events = await eventsOf(runningJob.id);
+      expect(events.at(-1)).toMatchObject({
+        type: 'cancelled',
+        state: 'cancelled',
+        error: 'Индексация отменена',
+      });
+      expect(await storage.objectExists('running/metadata.json')).toBe(false);
+      expect(await storage.listFolders('running/builds/')).toEqual([]);
+
+      expect((await eventsOf(nextJob.id)).at(-1)?.type).toBe('completed');
+    });
+  });
+
+  describe('partitioning', () => {
+    it('adds hash buckets when the source has more rows than estimated', async () => {
+      const rows = rowsOf(40);
+      const crm = gatedSource('crm', rows);
+      crm.release();
+      const source = { ...crm.source, estimatedRows: 1 };
+
+      const job = await service.createIndexFromSource(source, {
+        databaseId: 'crm',
+        fieldMapping,
+        partitionSize: 4,
+        secondaryIndexes: ['email'],
+      });
+      const [completed] = (await eventsOf(job.id)).slice(-1);
+      const metadata = completed.result!;
+
+      expect(metadata).toMatchObject({
+        partitionScheme: { type: 'hash', buckets: 10 },
+        secondaryIndexes: {
+          email: { partitionScheme: { type: 'hash', buckets: 10 } },
+        },
+      });
+      expect(metadata.totalRecords).toBe(40);
+      expect(metadata.largestPartition).toBeLessThan(12);
+
+      for (const [, phone, email] of rows) {
+        await expect(service.findByPhone('crm', phone)).resolves.toMatchObject({
+          phone,
+        });
+        const found = await service.findBySecondaryKey('email', { email });
+        expect(found.matches.map((match) => match.phone)).toEqual([phone]);
+      }
+    });
+  });
+
+  describe('partial search', () => {
+    it('scans hash partitions by the leading digits and the suffix', async () => {
+      const crm = gatedSource('crm', rowsOf(30));
+      crm.release();
+      const job = await service.createIndexFromSource(crm.source, {
+        databaseId: 'crm',
+        fieldMapping,
+        partitionSize: 4,
+      });
+      const [completed] = (await eventsOf(job.id)).slice(-1);
+      expect(completed.result!.partitionScheme).toMatchObject({
+        type: 'hash',
+      });
+
+      const byPrefix = await service.searchPartialPhone({
+        prefix: '7916000001',
+      });
+      expect(byPrefix).toMatchObject({
+        total: 10,
+        truncated: false,
+        skippedDatabases: [],
+      });
+      expect(byPrefix.matches.map((match) => match.phone)).toEqual(
+        rowsOf(10, 10).map(([, phone]) => phone),
+      );
+
+      const byEnds = await service.searchPartialPhone({
+        prefix: '79160000',
+        suffix: '5',
+      });
+      expect(byEnds.matches.map((match) => match.phone)).toEqual([
+        '79160000005',
+        '79160000015',
+        '79160000025',
+      ]);
+    });
+
+    it('reports hash databases too large to scan by a prefix', async () => {
+      const big = gatedSource('big', rowsOf(257));
+      big.release();
+      const bigJob = await service.createIndexFromSource(big.source, {
+        databaseId: 'big',
+        fieldMapping,
+        partitionSize: 1,
+      });
+      await eventsOf(bigJob.id);
+
+      await expect(
+        service.searchPartialPhone({ prefix: '7916000001' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      const crm = gatedSource('crm', rowsOf(30));
+      crm.release();
+      await eventsOf((await index('crm', crm.source)).id);
+
+      const result = await service.searchPartialPhone({
+        prefix: '7916000001',
+      });
+      expect(result).toMatchObject({
+        total: 10,
+        databasesSearched: 1,
+        skippedDatabases: ['big'],
+      });
+      expect(result.warning).toContain('big');
+    });
+  });
+
+  describe('profiles', () => {
+    const phone = '79161234567';
+
+    beforeEach(async () => {
+      const crm = gatedSource('crm', [
+        ['Иванов', phone, 'ivanov@mail.ru'],
+        ['Иванов', phone, 'ivan@mail.ru'],
+      ]);
+      const shop = gatedSource('shop', [['Иванов', phone, 'ivan@mail.ru']]);
+      crm.release();
+      shop.release();
+      await eventsOf((await index('crm', crm.source)).id);
+      await eventsOf((await index('shop', shop.source)).id);
+    });
+
+    it('merges every kept record of a duplicated phone into the profile', async () => {
+      const profile = await service.findAllByPhone('+7 916 123-45-67');
+
+      expect(profile).toMatchObject({
+        phone,
+        matchesCount: 3,
+        databasesSearched: 2,
+        conflicts: ['email'],
+      });
+      expect(
+        profile.sources.map((source) => [
+          source.database,
+          (source.record as { email: string }).email,
+        ]),
+      ).toEqual([
+        ['crm', 'ivanov@mail.ru'],
+        ['crm', 'ivan@mail.ru'],
+        ['shop', 'ivan@mail.ru'],
+      ]);
+      expect(profile.fields.email).toMatchObject({
+        value: 'ivan@mail.ru',
+        conflict: true,
+      });
+      await expect(service.findAllByPhone('79160000000')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('streams the same profile as the REST search', async () => {
+      const events: { isComplete: boolean; result?: unknown }[] = [];
+
+      await service.findByPhoneWithProgress(
+        phone,
+        (event) => events.push(event),
+        'all',
+      );
+
+      const completed = events.at(-1)!;
+      expect(completed.isComplete).toBe(true);
+      expect(completed.result).toEqual(await service.findAllByPhone(phone));
+    });
+  });
+
+  describe('phone regions', () => {
+    beforeEach(async () => {
+      const minsk = gatedSource('minsk', [
+        ['Лукашевич', '8 029 123-45-67', 'minsk@mail.by'],
+      ]);
+      const crm = gatedSource('crm', [
+        ['Иванов', '8 916 123-45-67', 'ivanov@mail.ru'],
+      ]);
+      minsk.release();
+      crm.release();
+      const job = await service.createIndexFromSource(minsk.source, {
+        databaseId: 'minsk',
+        fieldMapping,
+        phoneRegion: 'BY',
+      });
+      await eventsOf(job.id);
+      await eventsOf((await index('crm', crm.source)).id);
+    });
+
+    it('reads local numbers in the region each database was indexed with', async () => {
+      await expect(
+        service.findByPhone('minsk', '8 029 123 45 67'),
+      ).resolves.toMatchObject({
+        lastName: 'Лукашевич',
+        normalizedPhone: '375291234567',
+      });
+      await expect(
+        service.findByPhoneParallel('80291234567'),
+      ).resolves.toMatchObject({ database: 'minsk' });
+      await expect(
+        service.findAllByPhone('80291234567'),
+      ).resolves.toMatchObject({ phone: '375291234567', matchesCount: 1 });
+
+      const batch = await service.searchBatch([
+        '80291234567',
+        '89161234567',
+        '+375 29 123-45-67',
+      ]);
+      expect(
+        batch.results.map((item) => [
+          item.normalizedPhone,
+          item.matches.map((match) => match.database),
+        ]),
+      ).toEqual([
+        ['375291234567', ['minsk']],
+        ['79161234567', ['crm']],
+        ['375291234567', ['minsk']],
+      ]);
+    });
+
+    it('streams matches of local numbers from databases of another region', async () => {
+      const events: { found: boolean; result?: unknown }[] = [];
+
+      await service.findByPhoneWithProgress('80291234567', (event) =>
+        events.push(event),
+      );
+
+      expect(events.at(-1)).toMatchObject({
+        found: true,
+        result: { database: 'minsk', lastName: 'Лукашевич' },
+      });
+    });
+  });
+
+  describe('imports', () => {
+    const load = async (
+      rows: string[][],
+      options: IndexOptionsDto,
+      sourceName = 'crm',
+    ) => {
+      const crm = gatedSource(sourceName, rows);
+      crm.release();
+      const job = await service.createIndexFromSource(crm.source, {
+        databaseId: 'crm',
+        fieldMapping,
+        ...options,
+      });
+      return (await eventsOf(job.id)).at(-1)!;
+    };
+
+    it('credits appended records to their own source in the profile', async () => {
+      await load([['Иванов', '79161234567', 'client@mail.ru']], {});
+      await load(
+        [['Иванов', '79161234567', 'ivanov@mail.ru']],
+        { importMode: 'append' },
+        'april.csv',
+      );
+
+      const profile = await service.findAllByPhone('79161234567');
+
+      expect(profile.sources.map((source) => source.originalFileName)).toEqual([
+        'crm',
+        'april.csv',
+      ]);
+      expect(profile.fields.email?.values).toEqual([
+        {
+          value: 'client@mail.ru',
+          sources: [{ database: 'crm', originalFileName: 'crm' }],
+        },
+        {
+          value: 'ivanov@mail.ru',
+          sources: [{ database: 'crm', originalFileName: 'april.csv' }],
+        },
+      ]);
+      expect(profile.fields.lastName?.values[0].sources).toHaveLength(2);
+    });
+
+    it('keeps secondary matches after a delete empties a partition', async () => {
+      await load(
+        [
+          ['Иванов', '79161234567', 'client@mail.ru'],
+          ['Петров', '79251234567', 'client@mail.ru'],
+        ],
+        {
+          partitionScheme: 'prefix',
+          prefixDepth: 4,
+          secondaryIndexes: ['email'],
+        },
+      );
+
+      const deleted = await load(
+        [['Петров', '79251234567', 'client@mail.ru']],
+        { importMode: 'delete' },
+      );
+
+      expect(deleted.type).toBe('completed');
+      expect(
+        await storage.listFolders(`crm/builds/${deleted.result!.buildId}/`),
+      ).not.toContain('7925');
+      const found = await service.findBySecondaryKey('email', {
+        email: 'client@mail.ru',
+      });
+      expect(found.matches).toEqual([
+        expect.objectContaining({ database: 'crm', phone: '79161234567' }),
+      ]);
+    });
+  });
+
+  describe('builds', () => {
+    const phone = '79161234567';
+
+    const run = async (lastName: string, failAfter?: number) => {
+      const rows = [[lastName, phone, 'client@mail.ru'], ...rowsOf(2, 100)];
+      const job = await index('crm', {
+        name: 'crm',
+        headers,
+        async *readRecords() {
+          for (const [i, row] of rows.entries()) {
+            if (i === failAfter) {
+              await Promise.reject(new Error('Соединение с СУБД потеряно'));
+            }
+            yield row;
+          }
+        },
+      });
+      return (await eventsOf(job.id)).at(-1)!;
+    };
+
+    const lastNameOf = async () =>
+      ((await service.findByPhone('crm', phone)) as { lastName: string })
+        .lastName;
+
+    it('keeps the previous build live when a build fails', async () => {
+      const published = (await run('Иванов')).result!;
+
+      const failed = await run('Петров', 2);
+
+      expect(failed).toMatchObject({
+        type: 'failed',
+        error: 'Соединение с СУБД потеряно',
+      });
+      expect(await lastNameOf()).toBe('Иванов');
+      expect(await storage.listFolders('crm/builds/')).toEqual([
+        published.buildId,
+      ]);
+      await expect(service.rollbackDatabase('crm')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('switches the active build on rollback and back', async () => {
+      const first = (await run('Иванов')).result!;
+      const second = (await run('Петров')).result!;
+      expect(await lastNameOf()).toBe('Петров');
+      expect(second.previousBuilds!.map((build) => build.buildId)).toEqual([
+        first.buildId,
+      ]);
+
+      const rolledBack = await service.rollbackDatabase('crm');
+
+      expect(rolledBack.buildId).toBe(first.buildId);
+      expect(rolledBack.previousBuilds!.map((build) => build.buildId)).toEqual([
+        second.buildId,
+      ]);
+      expect(await lastNameOf()).toBe('Иванов');
+
+      await service.rollbackDatabase('crm', second.buildId);
+      expect(await lastNameOf()).toBe('Петров');
+      await expect(service.rollbackDatabase('crm', 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('prunes builds beyond the kept previous versions', async () => {
+      const builds: string[] = [];
+      let previousBuilds: IndexMetadata[] = [];
+      for (const lastName of ['Иванов', 'Петров', 'Сидоров', 'Смирнов']) {
+        const { result } = await run(lastName);
+        builds.push(result!.buildId!);
+        previousBuilds = result!.previousBuilds!;
+      }
+
+      // По умолчанию хранятся две предыдущие версии (INDEX_BUILDS_TO_KEEP)
+      expect(previousBuilds.map((build) => build.buildId)).toEqual([
+        builds[2],
+        builds[1],
+      ]);
+      expect((await storage.listFolders('crm/builds/')).sort()).toEqual(
+        builds.slice(1).sort(),
+      );
+
+      await service.rollbackDatabase('crm', builds[1]);
+      expect(await lastNameOf()).toBe('Петров');
+    });
+  });
+});
@@ -1,59 +1,217 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { S3 } from 'aws-sdk';
-import * as iconv from 'iconv-lite';
-import { Readable } from 'stream';
-import * as readline from 'readline';
+import { BadRequestException, ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { Observable, ReplaySubject, Subject } from 'rxjs';
 import { CreateIndexDto } from './dto/create-index.dto';
-import { IndexMetadata, DatabaseStatsResponse } from './types/index.types';
+import { findColumn, resolveColumnMapping } from './mapping/column-mapping';
+import {
+  BatchSearchItem,
+  BatchSearchMatch,
+  BatchSearchResult,
+  CatalogEntry,
+  SearchCatalog,
+  ColumnRef,
+  ConsolidatedProfile,
+  DatabaseManifest,
+  IndexMetadata,
+  IndexPublication,
+  DatabaseStatsResponse,
+  DuplicateCounts,
+  DuplicatePolicy,
+  ImportMode,
+  ImportedSource,
+  BuildSegment,
+  IndexedEntry,
+  IndexedRecord,
+  IndexingJobInfo,
+  IndexingJobState,
+  IndexingJobEvent,
+  IndexingJobEventType,
+  PartitionFormat,
+  PartitionIndex,
+  PartitionLayout,
+  PartitionScheme,
+  PhoneNormalizationResult,
+  PhoneRegion,
+  PhoneRejectionReason,
+  ProcessingStats,
+  RecordSource,
+  ProfileSource,
+  ResolvedColumnMapping,
+  SearchMode,
+  SearchRecord,
+  ExactIndexField,
+  NameSearchMatch,
+  NameSearchResult,
+  PartialSearchMatch,
+  PartialSearchResult,
+  PhonePattern,
+  PhonePatternInput,
+  SecondaryIndexField,
+  SecondarySearchMatch,
+  SecondarySearchResult
+} from './types/index.types';
+import { ObjectStat, STORAGE_BACKEND, StorageBackend } from './storage/storage.types';
+import { ParsingService } from '../parsing/parsing.service';
+import { FileFormat } from '../parsing/types/parsing.types';
+import { PHONE_REGIONS, isPhoneRegion } from './phone/phone-number';
+import { PhoneNormalizerService } from './phone/phone-normalizer.service';
+import { mergeProfile } from './search/profile-merger';
+import {
+  LEGACY_DUPLICATE_POLICY,
+  duplicateStatsOf,
+  entryRecords,
+  resolveDuplicatePolicy,
+  searchRecordEntries,
+  searchRecordOf
+} from './duplicates/duplicate-policy';
+import { ImportMerger, resolveImportMode } from './imports/import-merger';
+import {
+  MAX_MASK_WILDCARDS,
+  MIN_SCAN_PREFIX,
+  expandPhonePattern,
+  parsePhonePattern,
+  patternAllowsPrefix
+} from './search/phone-pattern';
+import { BloomFilter } from './manifest/bloom-filter';
+import { SearchCatalogService } from './manifest/search-catalog.service';
+import { PartitionCacheService } from './cache/partition-cache.service';
+import {
+  DEFAULT_PARTITION_SIZE,
+  LEGACY_PARTITION_SCHEME,
+  describePartitionScheme,
+  estimateRecordCount,
+  partitionKeyOf,
+  partitionSchemeOf,
+  planPartitionScheme,
+  rescaleHashScheme
+} from './partitioning/partition-scheme';
+import {
+  CURRENT_PARTITION_FORMAT,
+  LEGACY_DATA_FILE,
+  LEGACY_PARTITION_FORMAT,
+  PARTITION_INDEX_FILE,
+  PARTITION_RECORDS_FILE,
+  decodeBlock,
+  decodePartition,
+  encodePartition,
+  findBlocks,
+  findBlocksWithPrefix,
+  partitionEntryFile,
+  partitionFormatOf
+} from './partitioning/partition-format';
+import { BUILDS_FOLDER, buildsToKeep, newBuildId, partitionRoot } from './partitioning/builds';
+import {
+  SEGMENTS_FOLDER,
+  SEGMENT_FILE_EXTENSION,
+  batchRange,
+  encodeSegment,
+  planMergeBatches,
+  readSegmentGroup
+} from './partitioning/build-segments';
+import {
+  NAME_GRAMS_INDEX,
+  SECONDARY_FIELD_LABELS,
+  SECONDARY_FOLDER,
+  normalizeBirthDate,
+  resolveSecondaryIndexes,
+  secondaryKeyOf
+} from './secondary/secondary-keys';
+import { MIN_NAME_SIMILARITY, nameScore, nameTokens, tokenSimilarity, trigrams } from './secondary/name-tokens';
 
 export class PhoneNumberNotFoundException extends NotFoundException {
-  constructor(phone: string, databaseId: string | null = null) {
+  constructor(phone: string, databaseId: string | null = null, normalizedPhone?: string) {
     const message = databaseId
       ? `Телефон ${phone} не найден в базе данных ${databaseId}`
       : `Телефон ${phone} не найден ни в одной базе данных`;
-    super(message);
+    super({ statusCode: 404, error: 'Not Found', message, phone, normalizedPhone });
     this.name = 'PhoneNumberNotFoundException';
   }
 }
 
+export class InvalidPhoneNumberException extends BadRequestException {
+  constructor(result: PhoneNormalizationResult) {
+    super({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: `Неверный формат номера телефона ${result.input}: ${result.message}`,
+      phone: result.input,
+      reason: result.reason
+    });
+    this.name = 'InvalidPhoneNumberException';
+  }
+}
+
+interface IndexingJob {
+  id: string;
+  // Файл в хранилище или внешний источник строк (таблица, запрос)
+  filePath?: string;
+  source?: RecordSource;
+  sourceName: string;
+  dto: CreateIndexDto;
+  format?: FileFormat;
+  headers: string[];
+  mapping: ResolvedColumnMapping;
+  partitionScheme: PartitionScheme;
+  // Дополнительные индексы и их раскладка по корзинам хеша
+  secondaryIndexes: SecondaryIndexField[];
+  secondaryScheme: PartitionScheme;
+  duplicatePolicy: DuplicatePolicy;
+  // Кроме replace, загрузка дополняет опубликованную версию базы
+  importMode: ImportMode;
+  state: IndexingJobState;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  stats: ProcessingStats;
+  result?: IndexMetadata;
+  error?: string;
+  abortController: AbortController;
+  // Последнее событие повторяется для подписчиков, подключившихся позже
+  events: ReplaySubject<IndexingJobEvent>;
+}
+
+// Индекс → корзина → значение → номера телефонов (у nameGrams — слова ФИО)
+type SecondaryBuffer = Record<string, Record<string, Record<string, string[]>>>;
+
+// Схемы, по корзинам которых делятся группы сегментов при слиянии
+interface SegmentSplit {
+  partitions?: PartitionScheme;
+  secondary?: PartitionScheme;
+}
+
 @Injectable()
 export class IndexerService {
   private readonly logger = new Logger(IndexerService.name);
   private readonly basePrefix = '';
-  private readonly PARTITION_SIZE = 10000;
   private readonly CHUNK_SIZE = 50000;
   private readonly REPORT_INTERVAL = 5000;
-  private readonly s3: S3;
-  private readonly bucketName: string;
+  private readonly MAX_FINISHED_JOBS = 100;
+  private readonly MAX_BATCH_SIZE = 10000;
+  private readonly DEFAULT_NAME_RESULTS = 20;
+  private readonly MAX_NAME_RESULTS = 100;
+  private readonly MAX_PARTIAL_RESULTS = 1000;
+  private readonly DEFAULT_PARTIAL_PAGE_SIZE = 50;
+  private readonly MAX_PARTIAL_PAGE_SIZE = 200;
+  // Хеш-партиции не упорядочены по номеру: по началу номера просматриваются все
+  private readonly MAX_HASH_SCAN_PARTITIONS = 256;
+  // Сколько предыдущих версий базы хранится для отката (INDEX_BUILDS_TO_KEEP)
+  private readonly BUILDS_TO_KEEP = buildsToKeep();
   
-  private indexingInProgress = false;
-  private processingStats = {
-    startTime: 0,
-    currentTime: 0,
-    totalLines: 0,
-    processedLines: 0,
-    recordsFound: 0,
-    lastReportTime: 0,
-    prefixesFound: new Set<string>(),
-    bytesProcessed: 0,
-    fileSize: 0,
-    lastChunkLines: 0,
-    linesPerSecond: 0,
-    estimatedTimeRemaining: '',
-    percentComplete: 0
-  };
-
-  constructor() {
-    this.s3 = new S3({
-      region: process.env.AWS_REGION || 'eu-west-2',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
-      }
-    });
-    
-    this.bucketName = process.env.S3_BUCKET_NAME || 'bdb-indexing';
-    this.logger.log(`Инициализация S3IndexerService с бакетом: ${this.bucketName}`);
+  // Реестр задач индексации; одновременно выполняется не более одной задачи
+  private readonly jobs = new Map<string, IndexingJob>();
+  private readonly jobQueue: IndexingJob[] = [];
+  private activeJob: IndexingJob | null = null;
+  private readonly publications = new Subject<IndexPublication>();
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+    private readonly parsingService: ParsingService,
+    private readonly phoneNormalizer: PhoneNormalizerService,
+    private readonly searchCatalog: SearchCatalogService,
+    private readonly partitionCache: PartitionCacheService
+  ) {
+    this.logger.log(`Инициализация IndexerService с хранилищем ${this.storage.type}: ${this.storage.location}`);
   }
 
   async findByPhoneWithProgress(
@@ -68,13 +226,33 @@ export class IndexerService {
       totalDatabases?: number;
       currentDatabaseIndex?: number;
       error?: string;
-    }) => void
+      normalizedPhone?: string;
+      reason?: PhoneRejectionReason;
+    }) => void,
+    mode: SearchMode = 'first'
   ): Promise<void> {
+    const query = this.normalizeQuery(phone, this.searchRegions(await this.searchCatalog.getCatalog()));
+    if (!query.normalized) {
+      this.logger.warn(`⚠️ Неверный формат телефона: "${phone}" (${query.reason})`);
+      progressCallback({
+        currentDatabase: '',
+        progress: 100,
+        searching: false,
+        found: false,
+        isComplete: true,
+        error: `Неверный формат номера телефона ${phone}: ${query.message}`,
+        reason: query.reason
+      });
+      return;
+    }
+    const normalizedPhone = query.normalized;
+    
     try {
-      const databases = await this.getAllDatabases();
+      // Каталог отсекает базы, в которых номера точно нет
+      const databases = Array.from((await this.searchCatalog.findCandidates(entry => this.queryKeyOf(phone, entry))).keys());
       
       if (databases.length === 0) {
-        this.logger.log(`ℹ️ Нет доступных баз данных для поиска`);
+        this.logger.log(`ℹ️ По каталогу номер ${normalizedPhone} не может быть ни в одной базе`);
         progressCallback({
           currentDatabase: '',
           progress: 100,
@@ -83,7 +261,8 @@ export class IndexerService {
           isComplete: true,
           totalDatabases: 0,
           currentDatabaseIndex: 0,
-          error: 'Нет доступных баз данных для поиска'
+          error: `Телефон ${phone} не найден ни в одной базе данных`,
+          normalizedPhone
         });
         return;
       }
@@ -101,6 +280,10 @@ export class IndexerService {
         currentDatabaseIndex: 0
       });
 
+      // В режиме all поиск продолжается после первого совпадения
+      const matches: (ProfileSource & { record: any })[] = [];
+      let matchedDatabases = 0;
+      
       for (let i = 0; i < databases.length; i++) {
         const databaseId = databases[i];
         const currentProgress = Math.round((i / total) * 100);
@@ -116,8 +299,6 @@ export class IndexerService {
           currentDatabaseIndex: i
         });
 
-        await new Promise(resolve => setTimeout(resolve, 500));
-
         try {
           const result = await this.findByPhone(databaseId, phone)
             .catch(error => {
@@ -127,7 +308,21 @@ export class IndexerService {
               throw error;
             });
             
-          if (result) {
+          if (result && mode === 'all') {
+            this.logger.log(`✅ Запись найдена в базе "${databaseId}", продолжаем поиск`);
+            matchedDatabases++;
+            matches.push(...(await this.profileSourcesOf(databaseId, result)));
+            progressCallback({
+              currentDatabase: databaseId,
+              progress: Math.round(((i + 1) / total) * 100),
+              searching: true,
+              found: true,
+              result: { database: databaseId, ...result },
+              isComplete: false,
+              totalDatabases: total,
+              currentDatabaseIndex: i + 1
+            });
+          } else if (result) {
             this.logger.log(`✅ Запись найдена в базе "${databaseId}"`);
             progressCallback({
               currentDatabase: databaseId,
@@ -156,6 +351,22 @@ export class IndexerService {
         }
       }
 
+      if (matches.length) {
+        this.logger.log(`✅ Номер найден в ${matchedDatabases} из ${total} баз`);
+        progressCallback({
+          currentDatabase: databases[databases.length - 1],
+          progress: 100,
+          searching: false,
+          found: true,
+          result: mergeProfile(normalizedPhone, this.phoneNormalizer.format(normalizedPhone), matches, total),
+          isComplete: true,
+          totalDatabases: total,
+          currentDatabaseIndex: total,
+          normalizedPhone
+        });
+        return;
+      }
+      
       this.logger.log(`❌ Запись не найдена во всех базах данных`);
       progressCallback({
         currentDatabase: databases[databases.length - 1],
@@ -166,7 +377,8 @@ export class IndexerService {
         isComplete: true,
         totalDatabases: total,
         currentDatabaseIndex: total,
-        error: `Телефон ${phone} не найден ни в одной базе данных`
+        error: `Телефон ${phone} не найден ни в одной базе данных`,
+        normalizedPhone
       });
 
     } catch (error) {
@@ -187,8 +399,14 @@ export class IndexerService {
 
   async getAllDatabases(): Promise<string[]> {
     try {
-      const folders = await this.listFolders();
       this.logger.log(`🔍 Получение списка всех баз данных из корня бакета`);
+      // База без metadata.json ещё не опубликована: первая сборка идёт или упала
+      const folders: string[] = [];
+      for (const folder of await this.storage.listFolders()) {
+        if (await this.storage.objectExists(`${folder}/metadata.json`)) {
+          folders.push(folder);
+        }
+      }
       this.logger.log(`✅ Найдено ${folders.length} баз данных: ${folders.join(', ')}`);
       
       return folders;
@@ -206,7 +424,8 @@ export class IndexerService {
       const stats: DatabaseStatsResponse = {
         totalDatabases: databases.length,
         totalRecords: 0,
-        databases: []
+        databases: [],
+        partitionCache: this.partitionCache.getStats()
       };
 
       for (const dbId of databases) {
@@ -217,7 +436,8 @@ export class IndexerService {
           stats.databases.push({
             id: dbId,
             records: dbStats.totalRecords,
-            partitions: dbStats.partitions
+            partitions: dbStats.partitions,
+            duplicates: dbStats.duplicates
           });
           this.logger.log(`✅ Статистика базы "${dbId}": ${dbStats.totalRecords} записей, ${dbStats.partitions} партиций`);
         } catch (error) {
@@ -244,12 +464,14 @@ export class IndexerService {
     partitions: number;
     prefixes: string[];
     createdAt: Date;
+    duplicatePolicy?: DuplicatePolicy;
+    duplicates?: DuplicateCounts;
   }> {
     try {
       const dbFolder = `${databaseId}/`;
       this.logger.log(`🔍 Получение статистики для базы "${databaseId}"`);
       
-      const dbExists = await this.prefixExists(dbFolder);
+      const dbExists = await this.storage.prefixExists(dbFolder);
       if (!dbExists) {
         this.logger.warn(`⚠️ Директория базы данных не существует: ${dbFolder}`);
         throw new Error(`Директория базы данных не существует: ${dbFolder}`);
@@ -267,7 +489,8 @@ export class IndexerService {
       }
       
       this.logger.log(`📁 Получение списка префиксов в базе "${databaseId}"`);
-      const prefixes = await this.listFolders(dbFolder);
+      const prefixes = (await this.storage.listFolders(partitionRoot(databaseId, metadata.buildId)))
+        .filter(folder => folder !== BUILDS_FOLDER && folder !== SECONDARY_FOLDER);
       this.logger.log(`✅ Найдено ${prefixes.length} префиксов`);
 
       return {
@@ -275,7 +498,10 @@ export class IndexerService {
         totalRecords: metadata.totalRecords || 0,
         partitions: metadata.partitionsCount || 0,
         prefixes,
-        createdAt: new Date(metadata.createdAt)
+        createdAt: new Date(metadata.createdAt),
+        // У индексов до появления политики повторов их число неизвестно
+        duplicatePolicy: metadata.duplicatePolicy,
+        duplicates: metadata.duplicatePolicy ? duplicateStatsOf(metadata.duplicatePolicy, metadata.duplicateRows ?? 0) : undefined
       };
     } catch (error) {
       this.logger.error(`❌ Ошибка получения статистики для базы ${databaseId}: ${error.message}`);
@@ -283,78 +509,10 @@ export class IndexerService {
     }
   }
 
-  private async objectExists(key: string): Promise<boolean> {
-    try {
-      await this.s3.headObject({
-        Bucket: this.bucketName,
-        Key: key
-      }).promise();
-      return true;
-    } catch (error) {
-      if (error && typeof error === 'object' && 'code' in error && error.code === 'NotFound') {
-        return false;
-      }
-      this.logger.error(`Ошибка при проверке объекта ${key}: ${error.message}`);
-      return false;
-    }
-  }
-
-  private async prefixExists(prefix: string): Promise<boolean> {
-    try {
-      const response = await this.s3.listObjectsV2({
-        Bucket: this.bucketName,
-        Prefix: prefix,
-        MaxKeys: 1
-      }).promise();
-      
-      return !!(response.Contents && response.Contents.length > 0);
-    } catch (error) {
-      this.logger.error(`Ошибка при проверке префикса ${prefix}: ${error.message}`);
-      throw error;
-    }
-  }
-
-  private async listFolders(prefix: string = ''): Promise<string[]> {
-    try {
-      const response = await this.s3.listObjectsV2({
-        Bucket: this.bucketName,
-        Prefix: prefix,
-        Delimiter: '/'
-      }).promise();
-      
-      const folders: string[] = [];
-      
-      if (response.CommonPrefixes) {
-        for (const commonPrefix of response.CommonPrefixes) {
-          if (commonPrefix.Prefix) {
-            const folderName = commonPrefix.Prefix.slice(prefix.length);
-            const cleanName = folderName.replace(/\/$/, '');
-            if (cleanName) {
-              folders.push(cleanName);
-            }
-          }
-        }
-      }
-      
-      return folders;
-    } catch (error) {
-      this.logger.error(`Ошибка при получении списка папок ${prefix}: ${error.message}`);
-      throw error;
-    }
-  }
-
   private async readJsonFile(key: string): Promise<any> {
     try {
-      const response = await this.s3.getObject({
-        Bucket: this.bucketName,
-        Key: key
-      }).promise();
-      
-      if (!response.Body) {
-        throw new Error(`Пустое содержимое файла: ${key}`);
-      }
-      
-      const content = response.Body.toString('utf-8');
+      const body = await this.storage.readObject(key);
+      const content = body.toString('utf-8');
       
       try {
         return JSON.parse(content);
@@ -429,265 +587,750 @@ export class IndexerService {
         }
       }
     } catch (error) {
-      this.logger.error(`Ошибка при чтении JSON из S3 ${key}: ${error.message}`);
+      this.logger.error(`Ошибка при чтении JSON из хранилища ${key}: ${error.message}`);
       throw error;
     }
   }
 
-  private async writeJsonFile(key: string, data: any): Promise<void> {
+  /**
+   * Находит записи партиции по номерам. Старый data.json читается целиком
+   * через кэш, в новом формате — только блоки с нужными номерами
+   */
+  private async readPartitionRecords(
+    databaseId: string,
+    layout: PartitionLayout,
+    prefix: string,
+    keys: string[]
+  ): Promise<Map<string, any>> {
+    const found = new Map<string, any>();
+    
+    const dir = this.partitionDir(databaseId, layout, prefix);
+    if (layout.format === LEGACY_PARTITION_FORMAT) {
+      const data = await this.readCachedPartitionFile<Record<string, any>>(databaseId, dir, LEGACY_DATA_FILE);
+      for (const key of keys) {
+        if (data[key]) {
+          found.set(key, data[key]);
+        }
+      }
+      return found;
+    }
+    
+    return this.readBlockRecords(databaseId, dir, keys);
+  }
+
+  /**
+   * Читает из records.ndjson.gz только блоки, в которых могут лежать ключи
+   */
+  private async readBlockRecords(databaseId: string, dir: string, keys: string[]): Promise<Map<string, any>> {
+    const found = new Map<string, any>();
+    const index = await this.readCachedPartitionFile<PartitionIndex>(databaseId, dir, PARTITION_INDEX_FILE);
+    const recordsKey = `${dir}${PARTITION_RECORDS_FILE}`;
+    for (const [block, blockKeys] of findBlocks(index, keys)) {
+      const records = decodeBlock(await this.storage.readObjectRange(recordsKey, block.offset, block.length));
+      for (const key of blockKeys) {
+        if (records.has(key)) {
+          found.set(key, records.get(key));
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Читает JSON-файл партиции через кэш: пока файл не изменился,
+   * повторный поиск не скачивает и не разбирает его
+   */
+  private async readCachedPartitionFile<T extends object>(
+    databaseId: string,
+    dir: string,
+    fileName: string
+  ): Promise<T> {
+    const key = `${dir}${fileName}`;
+    // Ключ кэша — путь партиции внутри базы, со сборкой
+    const cacheKey = dir.slice(databaseId.length + 1, -1);
+    
+    let stat: ObjectStat;
     try {
-      await this.s3.putObject({
-        Bucket: this.bucketName,
-        Key: key,
-        Body: JSON.stringify(data),
-        ContentType: 'application/json'
-      }).promise();
+      stat = await this.storage.statObject(key);
     } catch (error) {
-      this.logger.error(`Ошибка при записи JSON в S3 ${key}: ${error.message}`);
+      this.partitionCache.invalidate(databaseId, cacheKey);
       throw error;
     }
+    
+    const cached = this.partitionCache.get<T>(databaseId, cacheKey, stat.version);
+    if (cached) {
+      return cached;
+    }
+    
+    const data: T = await this.readJsonFile(key);
+    this.partitionCache.set(databaseId, cacheKey, stat.version, data, stat.size);
+    return data;
+  }
+
+  /**
+   * Партиция целиком: для дозаписи при индексации и сборки манифеста
+   */
+  private async readWholePartition(databaseId: string, layout: PartitionLayout, prefix: string): Promise<Record<string, any>> {
+    const dir = this.partitionDir(databaseId, layout, prefix);
+    if (layout.format === LEGACY_PARTITION_FORMAT) {
+      return this.readJsonFile(`${dir}${LEGACY_DATA_FILE}`);
+    }
+    
+    return this.readWholeBlocks(dir);
+  }
+
+  private async readWholeBlocks(dir: string): Promise<Record<string, any>> {
+    const index: PartitionIndex = await this.readJsonFile(`${dir}${PARTITION_INDEX_FILE}`);
+    return decodePartition(index, await this.storage.readObject(`${dir}${PARTITION_RECORDS_FILE}`));
+  }
+
+  private async writePartition(
+    databaseId: string,
+    layout: PartitionLayout,
+    prefix: string,
+    records: Record<string, any>
+  ): Promise<void> {
+    const dir = this.partitionDir(databaseId, layout, prefix);
+    if (layout.format === LEGACY_PARTITION_FORMAT) {
+      await this.writeJsonFile(`${dir}${LEGACY_DATA_FILE}`, records);
+    } else {
+      await this.writeBlocks(dir, records);
+    }
+    this.partitionCache.invalidate(databaseId, dir.slice(databaseId.length + 1, -1));
+  }
+
+  private async writeBlocks(dir: string, records: Record<string, any>): Promise<void> {
+    const { index, data } = encodePartition(records);
+    // Индекс ссылается на смещения в файле записей, поэтому пишется после него
+    await this.storage.writeObject(`${dir}${PARTITION_RECORDS_FILE}`, data, 'application/gzip');
+    await this.writeJsonFile(`${dir}${PARTITION_INDEX_FILE}`, index);
+  }
+
+  private partitionDir(databaseId: string, layout: PartitionLayout, prefix: string): string {
+    return `${partitionRoot(databaseId, layout.buildId)}${prefix}/`;
+  }
+
+  private secondaryDir(databaseId: string, buildId: string | undefined, index: string, bucket: string): string {
+    return `${partitionRoot(databaseId, buildId)}${SECONDARY_FOLDER}/${index}/${bucket}/`;
   }
 
-  private async createFolder(folderPath: string): Promise<void> {
+  private async writeJsonFile(key: string, data: any): Promise<void> {
     try {
-      await this.s3.putObject({
-        Bucket: this.bucketName,
-        Key: folderPath.endsWith('/') ? folderPath : folderPath + '/',
-        Body: ''
-      }).promise();
+      await this.storage.writeObject(key, JSON.stringify(data), 'application/json');
     } catch (error) {
-      this.logger.error(`Ошибка при создании папки ${folderPath}: ${error.message}`);
+      this.logger.error(`Ошибка при записи JSON в хранилище ${key}: ${error.message}`);
       throw error;
     }
   }
 
-  private async getObjectSize(key: string): Promise<number> {
+  /**
+   * Ставит файл в очередь на индексацию и сразу возвращает задачу.
+   * Ход выполнения доступен через getJob / listJobs.
+   */
+  async createIndex(filePath: string, dto: CreateIndexDto): Promise<IndexingJobInfo> {
+    this.validateDatabaseId(dto.databaseId);
+    let fileSize: number;
     try {
-      const response = await this.s3.headObject({
-        Bucket: this.bucketName,
-        Key: key
-      }).promise();
-      
-      return response.ContentLength || 0;
+      fileSize = await this.storage.getObjectSize(filePath);
     } catch (error) {
-      this.logger.error(`Ошибка при получении размера объекта ${key}: ${error.message}`);
-      throw error;
+      this.logger.error(`Файл не существует в хранилище: ${filePath}`);
+      throw new NotFoundException(`Файл не существует в хранилище: ${filePath}`);
+    }
+    
+    if (dto.delimiter && dto.delimiter.length !== 1) {
+      throw new BadRequestException(`Разделитель должен быть одним символом: "${dto.delimiter}"`);
+    }
+    this.validatePhoneRegion(dto);
+    
+    const sample = await this.storage.readObjectRange(filePath, 0, this.parsingService.SAMPLE_SIZE);
+    const estimatedRecords = estimateRecordCount(sample, fileSize);
+    const partitionScheme = planPartitionScheme({
+      type: dto.partitionScheme,
+      prefixDepth: dto.prefixDepth,
+      partitionSize: dto.partitionSize,
+      estimatedRecords
+    });
+    this.logger.log(`Партиционирование ${describePartitionScheme(partitionScheme)}`);
+    
+    const format = this.parsingService.detectFormat(sample, {
+      encoding: dto.encoding,
+      delimiter: dto.delimiter
+    });
+    this.logger.log(`Формат файла: кодировка ${format.encoding}, разделитель "${format.delimiter === '\t' ? '\\t' : format.delimiter}"`);
+    
+    // Описание колонок проверяется по заголовкам до постановки в очередь,
+    // чтобы ошибка вернулась в ответ на запрос, а не в упавшую задачу
+    const headers = await this.readHeaders(filePath, format);
+    const mapping = resolveColumnMapping(headers, { ...dto, delimiter: format.delimiter });
+    const importMode = await this.validateImport(dto);
+    
+    const job = this.enqueueJob({
+      filePath,
+      sourceName: filePath.split('/').pop() || '',
+      dto,
+      format,
+      headers,
+      mapping,
+      partitionScheme,
+      duplicatePolicy: resolveDuplicatePolicy(dto.duplicatePolicy),
+      importMode,
+      ...this.planSecondaryIndexes(dto, mapping, estimatedRecords)
+    });
+    job.stats.fileSize = fileSize;
+    return this.toJobInfo(job);
+  }
+
+  /**
+   * Ставит в очередь индексацию строк внешнего источника (таблицы или запроса
+   * к СУБД). Источник открывается заново, когда задача доходит до выполнения.
+   */
+  async createIndexFromSource(source: RecordSource, dto: CreateIndexDto): Promise<IndexingJobInfo> {
+    this.validateDatabaseId(dto.databaseId);
+    this.validatePhoneRegion(dto);
+    
+    const partitionScheme = planPartitionScheme({
+      type: dto.partitionScheme,
+      prefixDepth: dto.prefixDepth,
+      partitionSize: dto.partitionSize,
+      estimatedRecords: source.estimatedRows ?? 0
+    });
+    this.logger.log(`Партиционирование ${describePartitionScheme(partitionScheme)}`);
+    
+    const headers = source.headers.map(header => header.trim());
+    const mapping = resolveColumnMapping(headers, dto);
+    const importMode = await this.validateImport(dto);
+    
+    const job = this.enqueueJob({
+      source,
+      sourceName: source.name,
+      dto,
+      headers,
+      mapping,
+      partitionScheme,
+      duplicatePolicy: resolveDuplicatePolicy(dto.duplicatePolicy),
+      importMode,
+      ...this.planSecondaryIndexes(dto, mapping, source.estimatedRows ?? 0)
+    });
+    // Заголовки тоже считаются строкой, как в файле
+    job.stats.totalLines = source.estimatedRows ? source.estimatedRows + 1 : 0;
+    return this.toJobInfo(job);
+  }
+
+  /**
+   * Дозагрузка пишет в существующую базу с её раскладкой, поэтому база должна
+   * быть опубликована, а политика повторов — совпадать с политикой базы
+   */
+  private async validateImport(dto: CreateIndexDto): Promise<ImportMode> {
+    const importMode = resolveImportMode(dto.importMode);
+    if (importMode === 'replace') {
+      return importMode;
+    }
+    
+    const base = await this.readPublishedMetadata(dto.databaseId);
+    if (!base) {
+      throw new NotFoundException(`База данных ${dto.databaseId} не найдена: режим ${importMode} дополняет существующую базу`);
+    }
+    const policy = base.duplicatePolicy ?? LEGACY_DUPLICATE_POLICY;
+    if (dto.duplicatePolicy && dto.duplicatePolicy !== policy) {
+      throw new BadRequestException(`База ${dto.databaseId} хранит повторы по политике ${policy}, загрузка с политикой ${dto.duplicatePolicy} невозможна`);
+    }
+    if (dto.secondaryIndexes?.length) {
+      throw new BadRequestException('Дополнительные индексы задаются при полной индексации, дозагрузка пополняет индексы базы');
+    }
+    return importMode;
+  }
+
+  // id базы — имя папки в хранилище, поэтому не может выходить за её пределы
+  private validateDatabaseId(databaseId: unknown): void {
+    if (typeof databaseId !== 'string' || !databaseId || databaseId.includes('/') || databaseId.includes('\\') || databaseId === '.' || databaseId === '..') {
+      throw new BadRequestException(`Недопустимый id базы: ${String(databaseId)}`);
+    }
+  }
+
+  private validatePhoneRegion(dto: CreateIndexDto): void {
+    if (dto.phoneRegion && !isPhoneRegion(dto.phoneRegion)) {
+      throw new BadRequestException(`Неизвестный регион ${dto.phoneRegion}. Допустимые регионы: ${PHONE_REGIONS.join(', ')}`);
     }
   }
 
-  async createIndex(filePath: string, dto: CreateIndexDto): Promise<IndexMetadata> {
-    if (this.indexingInProgress) {
-      this.logger.warn('Индексация уже выполняется. Завершите текущий процесс перед запуском нового.');
-      throw new Error('Индексация уже выполняется');
+  /**
+   * Дополнительные индексы раскладываются по корзинам хеша при любой схеме номеров:
+   * у email и ФИО нет цифровых префиксов
+   */
+  private planSecondaryIndexes(
+    dto: CreateIndexDto,
+    mapping: ResolvedColumnMapping,
+    estimatedRecords: number
+  ): Pick<IndexingJob, 'secondaryIndexes' | 'secondaryScheme'> {
+    const secondaryIndexes = resolveSecondaryIndexes(dto.secondaryIndexes, mapping);
+    if (secondaryIndexes.length) {
+      this.logger.log(`Дополнительные индексы: ${secondaryIndexes.join(', ')}`);
     }
+    return {
+      secondaryIndexes,
+      secondaryScheme: planPartitionScheme({ type: 'hash', partitionSize: dto.partitionSize, estimatedRecords })
+    };
+  }
+
+  private enqueueJob(
+    params: Pick<
+      IndexingJob,
+      'filePath' | 'source' | 'sourceName' | 'dto' | 'format' | 'headers' | 'mapping' | 'partitionScheme' | 'secondaryIndexes' | 'secondaryScheme' | 'duplicatePolicy' | 'importMode'
+    >
+  ): IndexingJob {
+    const job: IndexingJob = {
+      id: randomUUID(),
+      ...params,
+      state: 'queued',
+      createdAt: new Date(),
+      stats: this.createProcessingStats(),
+      abortController: new AbortController(),
+      events: new ReplaySubject<IndexingJobEvent>(1)
+    };
+    const { dto } = params;
     
-    this.indexingInProgress = true;
-    this.resetStats();
+    this.jobs.set(job.id, job);
+    this.jobQueue.push(job);
+    this.pruneFinishedJobs();
+    this.logger.log(`Задача индексации ${job.id} поставлена в очередь (база ${dto.databaseId}, в очереди: ${this.jobQueue.length})`);
     
-    this.logger.log(`Запуск индексации файла: ${filePath}`);
-    this.logger.log(`ID базы данных: ${dto.databaseId}`);
+    void this.processJobQueue();
+    return job;
+  }
+
+  listJobs(): IndexingJobInfo[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(job => this.toJobInfo(job));
+  }
+
+  getJob(jobId: string): IndexingJobInfo {
+    return this.toJobInfo(this.getJobOrThrow(jobId));
+  }
+
+  /**
+   * Поток событий задачи: отчёты о прогрессе и финальное событие
+   * с метаданными индекса или ошибкой, после которого поток закрывается.
+   */
+  watchJob(jobId: string): Observable<IndexingJobEvent> {
+    return this.getJobOrThrow(jobId).events.asObservable();
+  }
+
+  /**
+   * Отменяет задачу: из очереди она удаляется сразу, а выполняющаяся
+   * задача останавливается на следующей строке файла.
+   */
+  cancelJob(jobId: string): IndexingJobInfo {
+    const job = this.getJobOrThrow(jobId);
+    
+    if (job.state === 'queued') {
+      this.jobQueue.splice(this.jobQueue.indexOf(job), 1);
+      job.state = 'cancelled';
+      job.error = 'Индексация отменена';
+      job.finishedAt = new Date();
+      this.emitJobEvent(job, 'cancelled');
+      job.events.complete();
+      this.logger.log(`Задача индексации ${jobId} удалена из очереди`);
+    } else if (job.state === 'running') {
+      job.abortController.abort();
+      this.logger.log(`Запрошена отмена задачи индексации ${jobId}`);
+    } else {
+      throw new ConflictException(`Задача ${jobId} уже завершена (${job.state})`);
+    }
+    
+    return this.toJobInfo(job);
+  }
+
+  private getJobOrThrow(jobId: string): IndexingJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new NotFoundException(`Задача индексации ${jobId} не найдена`);
+    }
+    return job;
+  }
+
+  private async processJobQueue(): Promise<void> {
+    if (this.activeJob) {
+      return;
+    }
+    
+    const job = this.jobQueue.shift();
+    if (!job) {
+      return;
+    }
+    
+    this.activeJob = job;
+    job.state = 'running';
+    job.startedAt = new Date();
+    this.emitJobEvent(job, 'started');
     
-    const s3FilePath = filePath.startsWith('/') ? filePath.substring(1) : filePath;
+    let finalEvent: IndexingJobEventType;
     try {
-      const fileSize = await this.getObjectSize(s3FilePath);
-      this.processingStats.fileSize = fileSize;
-      this.logger.log(`Размер файла: ${this.formatBytes(fileSize)}`);
+      job.result = await this.runIndexJob(job);
+      job.state = 'succeeded';
+      finalEvent = 'completed';
     } catch (error) {
-      this.indexingInProgress = false;
-      this.logger.error(`Файл не существует в S3: ${s3FilePath}`);
-      throw new Error(`Файл не существует в S3: ${s3FilePath}`);
+      if (job.abortController.signal.aborted) {
+        job.state = 'cancelled';
+        job.error = 'Индексация отменена';
+        finalEvent = 'cancelled';
+        this.logger.warn(`Задача индексации ${job.id} отменена`);
+      } else {
+        job.state = 'failed';
+        job.error = error.message;
+        finalEvent = 'failed';
+        this.logger.error(`Задача индексации ${job.id} завершилась с ошибкой: ${error.message}`);
+      }
+    } finally {
+      job.finishedAt = new Date();
+      this.activeJob = null;
+    }
+    
+    this.emitJobEvent(job, finalEvent);
+    job.events.complete();
+    
+    void this.processJobQueue();
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.finishedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private emitJobEvent(job: IndexingJob, type: IndexingJobEventType): void {
+    const info = this.toJobInfo(job);
+    job.events.next({
+      type,
+      jobId: job.id,
+      state: job.state,
+      progress: info.progress,
+      result: job.result,
+      error: job.error
+    });
+  }
+
+  private toJobInfo(job: IndexingJob): IndexingJobInfo {
+    const stats = job.stats;
+    const elapsedUntil = job.finishedAt ? job.finishedAt.getTime() : Date.now();
+    
+    return {
+      id: job.id,
+      databaseId: job.dto.databaseId,
+      fileName: job.sourceName,
+      importMode: job.importMode,
+      state: job.state,
+      cancelRequested: job.abortController.signal.aborted,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      progress: {
+        percentComplete: stats.percentComplete,
+        processedLines: stats.processedLines,
+        recordsFound: stats.recordsFound,
+        prefixesFound: stats.prefixesFound.size,
+        linesPerSecond: stats.linesPerSecond,
+        bytesProcessed: stats.bytesProcessed,
+        fileSize: stats.fileSize,
+        elapsedTime: stats.startTime ? this.formatDuration(elapsedUntil - stats.startTime) : '',
+        estimatedTimeRemaining: stats.estimatedTimeRemaining
+      },
+      result: job.result,
+      error: job.error
+    };
+  }
+
+  /**
+   * Читает и разбирает первую запись файла
+   */
+  private async readHeaders(filePath: string, format: FileFormat): Promise<string[]> {
+    const fileStream = this.storage.createReadStream(filePath);
+    
+    try {
+      for await (const fields of this.parsingService.readRecords(fileStream, format)) {
+        return fields.map(h => h.trim());
+      }
+      return [];
+    } finally {
+      fileStream.destroy();
     }
+  }
+
+  private async runIndexJob(job: IndexingJob): Promise<IndexMetadata> {
+    const { sourceName, dto, stats, mapping, format, importMode } = job;
+    // Дозагрузка продолжает версию, опубликованную к началу задачи, в её раскладке
+    const base = importMode === 'replace' ? null : await this.readPublishedMetadata(dto.databaseId);
+    if (importMode !== 'replace' && !base) {
+      throw new NotFoundException(`База данных ${dto.databaseId} не найдена`);
+    }
+    if (base) {
+      const secondary = Object.entries(base.secondaryIndexes ?? {});
+      job.partitionScheme = partitionSchemeOf(base);
+      job.duplicatePolicy = base.duplicatePolicy ?? LEGACY_DUPLICATE_POLICY;
+      job.secondaryIndexes = secondary.map(([field]) => field as SecondaryIndexField);
+      if (secondary.length) {
+        job.secondaryScheme = secondary[0][1].partitionScheme;
+      }
+    }
+    const { partitionScheme, duplicatePolicy } = job;
+    // Сборка пишется в отдельную папку и становится видна поиску только после публикации
+    const layout: PartitionLayout = {
+      scheme: partitionScheme,
+      format: base ? partitionFormatOf(base) : CURRENT_PARTITION_FORMAT,
+      buildId: newBuildId()
+    };
+    const phoneRegion = dto.phoneRegion || base?.phoneRegion || this.phoneNormalizer.defaultRegion;
+    const merger = new ImportMerger(importMode, duplicatePolicy, base?.duplicateRows ?? 0);
     
-    const encoding = dto.encoding || 'utf8';
-    this.logger.log(`Используется кодировка: ${encoding}`);
+    this.logger.log(`Запуск индексации ${job.source ? 'источника' : 'файла'}: ${job.filePath ?? sourceName}`);
+    this.logger.log(`ID базы данных: ${dto.databaseId}`);
+    if (base) {
+      this.logger.log(`Режим загрузки ${importMode}: дополняется сборка ${base.buildId ?? base.id}`);
+    }
+    if (format) {
+      this.logger.log(`Размер файла: ${this.formatBytes(stats.fileSize)}`);
+      this.logger.log(`Используется кодировка: ${format.encoding}`);
+    }
     
-    const databaseFolder = `${dto.databaseId}/`;
-    this.logger.log(`Создание директории базы данных: ${databaseFolder}`);
+    const buildFolder = partitionRoot(dto.databaseId, layout.buildId);
+    this.logger.log(`Создание директории сборки: ${buildFolder}`);
     try {
-      await this.createFolder(databaseFolder);
+      await this.storage.createFolder(buildFolder);
     } catch (error) {
-      this.indexingInProgress = false;
       this.logger.error(`Ошибка создания директории: ${error.message}`);
       throw error;
     }
 
     const metadata: IndexMetadata = {
       id: Date.now().toString(),
-      originalFileName: s3FilePath.split('/').pop() || '',
+      originalFileName: sourceName,
+      sourceId: job.source?.id,
       totalRecords: 0,
       partitionsCount: 0,
-      partitionSize: this.PARTITION_SIZE,
+      partitionSize: dto.partitionSize ?? DEFAULT_PARTITION_SIZE,
       createdAt: new Date(),
-      phoneColumn: dto.phoneColumn || 'phone'
+      phoneColumn: job.headers[mapping.phoneIndex],
+      headers: job.headers,
+      encoding: format?.encoding,
+      delimiter: format ? mapping.delimiter : undefined,
+      phoneRegion,
+      partitionScheme,
+      partitionFormat: layout.format,
+      buildId: layout.buildId,
+      duplicatePolicy,
+      fieldMapping: Object.fromEntries(
+        Object.entries(mapping.fields).map(([field, index]) => [field, job.headers[index]])
+      )
     };
+    if (base) {
+      // Описание базы сохраняется: в файле дозагрузки может быть только часть колонок
+      const { originalFileName, sourceId, partitionSize, phoneColumn, headers, encoding, delimiter, fieldMapping } = base;
+      Object.assign(metadata, { originalFileName, sourceId, partitionSize, phoneColumn, headers, encoding, delimiter, fieldMapping });
+    }
 
-    this.processingStats.startTime = Date.now();
-    this.processingStats.lastReportTime = Date.now();
-    const reportInterval = setInterval(() => this.generateProgressReport(), this.REPORT_INTERVAL);
+    stats.startTime = Date.now();
+    stats.lastReportTime = Date.now();
+    const reportInterval = setInterval(() => {
+      this.generateProgressReport(job).catch(error => {
+        this.logger.error(`Ошибка отчёта о прогрессе задачи ${job.id}: ${(error as Error).message}`);
+      });
+    }, this.REPORT_INTERVAL);
 
+    // Количество уникальных номеров в каждой партиции сборки
+    const partitionCounts = new Map<string, number>();
+    // Фильтр Блума каждой партиции строится при её записи
+    const partitionFilters = new Map<string, BloomFilter>();
+    // Сброшенные чанки: партиции собираются из них после чтения источника
+    const segments: BuildSegment[] = [];
     let buffer: { [key: string]: any } = {};
+    // Уникальных значений в каждой корзине каждого дополнительного индекса
+    const secondaryCounts = new Map<string, Map<string, number>>();
+    let secondaryBuffer: SecondaryBuffer = {};
     let processed = 0;
     let headers: string[] = [];
     
-    return new Promise<IndexMetadata>(async (resolve, reject) => {
-      try {
-        const s3Object = await this.s3.getObject({
-          Bucket: this.bucketName,
-          Key: s3FilePath
-        }).promise();
-        
-        if (!s3Object.Body) {
-          throw new Error(`Пустое содержимое файла: ${s3FilePath}`);
+    try {
+      if (base) {
+        await this.copyBuild(dto.databaseId, base, layout, partitionCounts, partitionFilters, secondaryCounts);
+      }
+      let isFirstLine = true;
+
+      // Записи обрабатываются последовательно: пока буфер сохраняется, чтение источника ждёт.
+      // Выход из цикла закрывает файл или соединение с СУБД.
+      for await (const fields of job.source ? this.readSourceRows(job.source, job.headers) : this.readFileRows(job.filePath!, format!, stats)) {
+        if (job.abortController.signal.aborted) {
+          throw new Error('Индексация отменена');
         }
         
-        const fileStream = Readable.from(s3Object.Body as Buffer);
+        stats.processedLines++;
         
-        let streamToUse: NodeJS.ReadableStream = fileStream;
-        
-        if (encoding !== 'utf8') {
-          const encodingMap: Record<string, string> = {
-            'windows1251': 'win1251',
-            'koi8r': 'koi8-r',
-            'iso88595': 'iso-8859-5'
-          };
-          const iconvEncoding = encodingMap[encoding] || encoding;
-          streamToUse = fileStream.pipe(iconv.decodeStream(iconvEncoding));
-        }
-        
-        const rl = readline.createInterface({
-          input: streamToUse,
-          crlfDelay: Infinity
-        });
-
-        let isFirstLine = true;
-
-        rl.on('line', async (line) => {
-          this.processingStats.processedLines++;
-          this.processingStats.bytesProcessed += Buffer.byteLength(line, 'utf8') + 1;
-          
-          try {
-            let rawData = line;
-            
-            if (line.startsWith('{"') || line.includes('_0')) {
-              try {
-                const parsedLine = JSON.parse(line);
-                rawData = parsedLine._0 || line;
-              } catch (e) {
-                rawData = line;
-              }
-            }
-            
-            const fields = rawData.split('|');
+        try {
+          if (isFirstLine) {
+            headers = fields.map(h => h.trim());
+            isFirstLine = false;
             
-            if (isFirstLine) {
-              headers = fields.map(h => h.trim());
-              isFirstLine = false;
-              
-              this.logger.log(`Обнаружены заголовки: ${headers.join(', ')}`);
-              return;
-            }
+            this.logger.log(`Обнаружены заголовки: ${headers.join(', ')}`);
+            continue;
+          }
+          
+          if (fields.length > mapping.phoneIndex) {
+            let phone = fields[mapping.phoneIndex].trim() || null;
             
-            if (fields.length >= 5) {
-              const phoneIndex = 4;
-              let phone = phoneIndex < fields.length ? fields[phoneIndex].trim() : null;
+            if (phone) {
+              phone = this.normalizePhone(phone, phoneRegion);
               
               if (phone) {
-                phone = this.normalizePhone(phone);
+                const partitionKey = partitionKeyOf(phone, partitionScheme);
+                stats.prefixesFound.add(partitionKey);
+                
+                if (!buffer[partitionKey]) {
+                  buffer[partitionKey] = {};
+                }
                 
-                if (phone) {
-                  const firstDigits = phone.substring(0, 3);
-                  this.processingStats.prefixesFound.add(firstDigits);
-                  
-                  if (!buffer[firstDigits]) {
-                    buffer[firstDigits] = {};
-                  }
-                  
-                  buffer[firstDigits][phone] = this.extractPipeDelimitedData(fields, headers);
-                  
-                  processed++;
-                  this.processingStats.recordsFound++;
-                  
-                  if (processed >= this.CHUNK_SIZE) {
-                    await this.saveBufferToS3(databaseFolder, buffer);
-                    buffer = {};
-                    processed = 0;
-                  }
+                const record: IndexedRecord = this.extractPipeDelimitedData(fields, headers, mapping, phone);
+                // У файла строка считается вместе с заголовком, у СУБД — номер строки результата
+                record.sourceLine = job.source ? stats.processedLines - 1 : stats.processedLines;
+                if (base) {
+                  record.sourceFile = sourceName;
                 }
+                buffer[partitionKey][phone] = merger.addRow(buffer[partitionKey][phone], record);
+                // Ключи удалённых номеров остаются в индексах: поиск сверяет их с партициями
+                if (importMode !== 'delete') {
+                  this.addSecondaryKeys(job, secondaryBuffer, record, phone);
+                }
+                
+                processed++;
+                stats.recordsFound++;
               }
-            } else {
-              this.logger.debug(`Строка не содержит достаточно полей: ${rawData}`);
             }
-          } catch (lineError) {
-            this.logger.debug(`Ошибка обработки строки: ${lineError.message}`);
-          }
-        });
-
-        rl.on('close', async () => {
-          clearInterval(reportInterval);
-          
-          await this.generateProgressReport(true);
-          
-          if (Object.keys(buffer).length > 0) {
-            this.logger.log(`Сохранение оставшихся ${processed} записей`);
-            await this.saveBufferToS3(databaseFolder, buffer);
+          } else {
+            this.logger.debug(`Строка не содержит достаточно полей: ${fields.join(mapping.delimiter)}`);
           }
-          
-          metadata.totalRecords = this.processingStats.recordsFound;
-          metadata.partitionsCount = Math.ceil(metadata.totalRecords / this.PARTITION_SIZE);
-          
-          this.logger.log(`Сохранение метаданных. Всего записей: ${metadata.totalRecords}, партиций: ${metadata.partitionsCount}`);
-          await this.saveMetadata(databaseFolder, metadata);
-          
-          this.logger.log('──────────────────────────────────────────────────────');
-          this.logger.log(`✓ Индексация успешно завершена`);
-          this.logger.log(`✓ Обработано строк: ${this.processingStats.processedLines.toLocaleString()}`);
-          this.logger.log(`✓ Найдено номеров: ${this.processingStats.recordsFound.toLocaleString()}`);
-          this.logger.log(`✓ Обработано данных: ${this.formatBytes(this.processingStats.bytesProcessed)}`);
-          this.logger.log(`✓ Время обработки: ${this.formatDuration(Date.now() - this.processingStats.startTime)}`);
-          this.logger.log('──────────────────────────────────────────────────────');
-          
-          this.indexingInProgress = false;
-          resolve(metadata);
-        });
+        } catch (lineError) {
+          this.logger.debug(`Ошибка обработки строки: ${lineError.message}`);
+        }
 
-        rl.on('error', (err) => {
-          clearInterval(reportInterval);
-          this.indexingInProgress = false;
-          this.logger.error(`Ошибка чтения файла: ${err.message}`);
-          reject(err);
-        });
-      } catch (error) {
-        clearInterval(reportInterval);
-        this.indexingInProgress = false;
-        this.logger.error(`Неожиданная ошибка в createIndex: ${error.message}`);
-        reject(error);
+        if (processed >= this.CHUNK_SIZE) {
+          await this.writeSegment(dto.databaseId, layout, buffer, secondaryBuffer, segments);
+          buffer = {};
+          secondaryBuffer = {};
+          processed = 0;
+        }
       }
-    });
-  }
 
-  private normalizePhone(phone: string): string | null {
-    if (!phone) return null;
-    
-    phone = phone.replace(/^["']+|["']+$/g, '');
-    
-    const digits = phone.replace(/\D/g, '');
-    
-    if (digits.length >= 10 && digits.length <= 12) {
-      if (digits.length === 10) {
-        return '7' + digits;
-      } else if (digits.length === 11) {
-        if (digits[0] === '8') {
-          return '7' + digits.substring(1);
-        } else if (digits[0] === '7') {
-          return digits;
+      clearInterval(reportInterval);
+      
+      await this.generateProgressReport(job, true);
+      
+      if (Object.keys(buffer).length > 0) {
+        this.logger.log(`Сохранение оставшихся ${processed} записей`);
+        await this.writeSegment(dto.databaseId, layout, buffer, secondaryBuffer, segments);
+      }
+      const split = base ? {} : this.rescaleSchemes(job, layout, metadata);
+      await this.mergeSegments(
+        dto.databaseId, layout, segments, partitionCounts, partitionFilters, secondaryCounts, merger, split, job.abortController.signal
+      );
+      
+      if (job.secondaryIndexes.length) {
+        metadata.secondaryIndexes = {};
+        for (const field of job.secondaryIndexes) {
+          const counts = secondaryCounts.get(field) ?? new Map<string, number>();
+          metadata.secondaryIndexes[field] = {
+            partitionScheme: job.secondaryScheme,
+            keys: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+            partitions: counts.size
+          };
+          this.logger.log(`Индекс ${field}: ${metadata.secondaryIndexes[field].keys} значений, корзин: ${counts.size}`);
         }
       }
+      
+      // Записи считаются по уникальным номерам, повторы — отдельно
+      metadata.totalRecords = Array.from(partitionCounts.values()).reduce((sum, count) => sum + count, 0);
+      metadata.partitionsCount = partitionCounts.size;
+      metadata.largestPartition = Math.max(0, ...partitionCounts.values());
+      const sourceRows = Math.max(0, stats.processedLines - 1);
+      if (!base) {
+        metadata.sourceRows = sourceRows;
+      }
+      
+      // Дозагрузка сохраняет корзины базы, а у полной индексации их число ограничено MAX_HASH_BUCKETS
+      if (layout.scheme.type === 'hash' && metadata.largestPartition > 2 * metadata.partitionSize) {
+        this.logger.warn(`⚠️ Крупнейшая партиция содержит ${metadata.largestPartition} записей при целевых ${metadata.partitionSize}`);
+      }
+      
+      metadata.duplicateRows = merger.duplicateRows;
+      if (importMode === 'delete') {
+        this.logger.log(`Удалено номеров: ${merger.deletedPhones.toLocaleString()} из ${stats.recordsFound.toLocaleString()}`);
+      }
+      if (metadata.duplicateRows > 0) {
+        const { kept, collapsed } = duplicateStatsOf(duplicatePolicy, metadata.duplicateRows);
+        this.logger.log(`Повторов номера (политика ${duplicatePolicy}): сохранено ${kept.toLocaleString()}, схлопнуто ${collapsed.toLocaleString()}`);
+      }
+      
+      const imported: ImportedSource = {
+        name: sourceName,
+        mode: importMode,
+        importedAt: new Date(),
+        rows: sourceRows,
+        records: stats.recordsFound,
+        deleted: importMode === 'delete' ? merger.deletedPhones : undefined,
+        buildId: layout.buildId
+      };
+      metadata.sources = [...(base ? this.importedSourcesOf(base) : []), imported];
+      
+      this.logger.log(`Публикация сборки ${layout.buildId}. Всего записей: ${metadata.totalRecords}, партиций: ${metadata.partitionsCount}`);
+      await this.publishBuild(dto.databaseId, metadata, this.buildManifest(dto.databaseId, layout, partitionCounts, partitionFilters, phoneRegion));
+      
+      this.logger.log('──────────────────────────────────────────────────────');
+      this.logger.log(`✓ Индексация успешно завершена`);
+      this.logger.log(`✓ Обработано строк: ${stats.processedLines.toLocaleString()}`);
+      this.logger.log(`✓ Найдено номеров: ${stats.recordsFound.toLocaleString()}`);
+      this.logger.log(`✓ Обработано данных: ${this.formatBytes(stats.bytesProcessed)}`);
+      this.logger.log(`✓ Время обработки: ${this.formatDuration(Date.now() - stats.startTime)}`);
+      this.logger.log('──────────────────────────────────────────────────────');
+      
+      return metadata;
+    } catch (error) {
+      this.logger.error(`Ошибка индексации ${job.filePath ?? sourceName}: ${error.message}`);
+      await this.discardBuild(dto.databaseId, layout.buildId!);
+      throw error;
+    } finally {
+      clearInterval(reportInterval);
     }
+  }
+
+  private async *readFileRows(filePath: string, format: FileFormat, stats: ProcessingStats): AsyncGenerator<string[]> {
+    const fileStream = this.storage.createReadStream(filePath);
+    fileStream.on('data', (chunk: Buffer) => {
+      stats.bytesProcessed += chunk.length;
+    });
     
-    return null;
+    try {
+      yield* this.parsingService.readRecords(fileStream, format);
+    } finally {
+      fileStream.destroy();
+    }
+  }
+
+  // Первой строкой идут заголовки, как в файле
+  private async *readSourceRows(source: RecordSource, headers: string[]): AsyncGenerator<string[]> {
+    yield headers;
+    yield* source.readRecords();
   }
 
-  private extractPipeDelimitedData(fields: string[], headers: string[]): any {
+  /**
+   * Приводит номер к E.164 без «+»; null, если номер не распознан.
+   * Номер без кода страны относится к региону по умолчанию.
+   */
+  normalizePhone(phone: string, region?: PhoneRegion): string | null {
+    return this.phoneNormalizer.toKey(phone, region);
+  }
+
+  private extractPipeDelimitedData(fields: string[], headers: string[], mapping: ResolvedColumnMapping, normalizedPhone: string): any {
     const record: any = {};
     
     for (let i = 0; i < Math.min(fields.length, headers.length); i++) {
@@ -698,26 +1341,29 @@ export class IndexerService {
       record[`_${i}`] = value;
     }
     
-    record.lastName = fields[0]?.trim() || '';
-    record.firstName = fields[1]?.trim() || '';
-    record.middleName = fields[2]?.trim() || '';
+    const valueOf = (index: number | undefined) => index === undefined ? '' : fields[index]?.trim() || '';
+    
+    record.lastName = valueOf(mapping.fields.lastName);
+    record.firstName = valueOf(mapping.fields.firstName);
+    record.middleName = valueOf(mapping.fields.middleName);
     record.fullName = `${record.lastName} ${record.firstName} ${record.middleName}`.trim();
-    record.birthDate = fields[3]?.trim() || '';
+    record.birthDate = valueOf(mapping.fields.birthDate);
     
-    const phoneRaw = fields[4]?.trim() || '';
-    const normalizedPhone = this.normalizePhone(phoneRaw) || '';
     record.phone = normalizedPhone;
-    record.formattedPhone = this.formatPhoneNumber(normalizedPhone);
+    record.formattedPhone = this.phoneNormalizer.format(normalizedPhone);
     
-    if (headers.length > 5) record.snils = fields[5]?.trim() || '';
-    if (headers.length > 6) record.inn = fields[6]?.trim() || '';
-    if (headers.length > 7) record.email = fields[7]?.trim() || '';
+    // СНИЛС, ИНН и email добавляются, только если для них есть колонка
+    for (const field of ['snils', 'inn', 'email'] as const) {
+      if (mapping.fields[field] !== undefined) {
+        record[field] = valueOf(mapping.fields[field]);
+      }
+    }
     
     return record;
   }
 
-  private resetStats(): void {
-    this.processingStats = {
+  private createProcessingStats(): ProcessingStats {
+    return {
       startTime: 0,
       currentTime: 0,
       totalLines: 0,
@@ -734,65 +1380,661 @@ export class IndexerService {
     };
   }
 
-  private async generateProgressReport(isFinal = false): Promise<void> {
+  private async generateProgressReport(job: IndexingJob, isFinal = false): Promise<void> {
+    const stats = job.stats;
     const now = Date.now();
-    const elapsedSinceLastReport = now - this.processingStats.lastReportTime;
+    const elapsedSinceLastReport = now - stats.lastReportTime;
     
     if (elapsedSinceLastReport < this.REPORT_INTERVAL && !isFinal) {
       return;
     }
     
-    this.processingStats.currentTime = now;
+    stats.currentTime = now;
     
-    const linesProcessedSinceLastReport = this.processingStats.processedLines - this.processingStats.lastChunkLines;
-    this.processingStats.linesPerSecond = Math.round(linesProcessedSinceLastReport / (elapsedSinceLastReport / 1000));
+    const linesProcessedSinceLastReport = stats.processedLines - stats.lastChunkLines;
+    stats.linesPerSecond = Math.round(linesProcessedSinceLastReport / (elapsedSinceLastReport / 1000));
     
-    if (this.processingStats.fileSize > 0) {
-      this.processingStats.percentComplete = Math.min(
+    if (stats.fileSize > 0) {
+      stats.percentComplete = Math.min(
         100, 
-        Math.round((this.processingStats.bytesProcessed / this.processingStats.fileSize) * 100)
+        Math.round((stats.bytesProcessed / stats.fileSize) * 100)
       );
+    } else if (stats.totalLines > 0) {
+      // У источника из СУБД прогресс считается по оценке числа строк
+      stats.percentComplete = Math.min(100, Math.round((stats.processedLines / stats.totalLines) * 100));
     }
     
-    if (this.processingStats.linesPerSecond > 0 && this.processingStats.fileSize > 0 && this.processingStats.bytesProcessed > 0) {
-      const bytesRemaining = this.processingStats.fileSize - this.processingStats.bytesProcessed;
-      const bytesPerSecond = this.processingStats.bytesProcessed / ((now - this.processingStats.startTime) / 1000);
+    if (stats.linesPerSecond > 0 && stats.fileSize > 0 && stats.bytesProcessed > 0) {
+      const bytesRemaining = stats.fileSize - stats.bytesProcessed;
+      const bytesPerSecond = stats.bytesProcessed / ((now - stats.startTime) / 1000);
       const secondsRemaining = Math.round(bytesRemaining / bytesPerSecond);
-      this.processingStats.estimatedTimeRemaining = this.formatDuration(secondsRemaining * 1000);
+      stats.estimatedTimeRemaining = this.formatDuration(secondsRemaining * 1000);
+    } else if (stats.linesPerSecond > 0 && stats.totalLines > stats.processedLines) {
+      const secondsRemaining = Math.round((stats.totalLines - stats.processedLines) / stats.linesPerSecond);
+      stats.estimatedTimeRemaining = this.formatDuration(secondsRemaining * 1000);
     } else {
-      this.processingStats.estimatedTimeRemaining = 'расчет...';
+      stats.estimatedTimeRemaining = 'расчет...';
     }
     
     this.logger.log('────────────────── ОТЧЕТ О ПРОГРЕССЕ ──────────────────');
-    this.logger.log(`Прогресс: ${this.processingStats.percentComplete}%`);
-    this.logger.log(`Обработано строк: ${this.processingStats.processedLines.toLocaleString()}`);
-    this.logger.log(`Найдено номеров: ${this.processingStats.recordsFound.toLocaleString()}`);
-    this.logger.log(`Найдено префиксов: ${this.processingStats.prefixesFound.size}`);
-    this.logger.log(`Скорость: ${this.processingStats.linesPerSecond.toLocaleString()} строк/сек`);
-    this.logger.log(`Обработано: ${this.formatBytes(this.processingStats.bytesProcessed)} из ${this.formatBytes(this.processingStats.fileSize)}`);
-    this.logger.log(`Прошло времени: ${this.formatDuration(now - this.processingStats.startTime)}`);
-    this.logger.log(`Осталось времени: ${this.processingStats.estimatedTimeRemaining}`);
+    this.logger.log(`Прогресс: ${stats.percentComplete}%`);
+    this.logger.log(`Обработано строк: ${stats.processedLines.toLocaleString()}`);
+    this.logger.log(`Найдено номеров: ${stats.recordsFound.toLocaleString()}`);
+    this.logger.log(`Найдено префиксов: ${stats.prefixesFound.size}`);
+    this.logger.log(`Скорость: ${stats.linesPerSecond.toLocaleString()} строк/сек`);
+    if (stats.fileSize > 0) {
+      this.logger.log(`Обработано: ${this.formatBytes(stats.bytesProcessed)} из ${this.formatBytes(stats.fileSize)}`);
+    }
+    this.logger.log(`Прошло времени: ${this.formatDuration(now - stats.startTime)}`);
+    this.logger.log(`Осталось времени: ${stats.estimatedTimeRemaining}`);
     this.logger.log('──────────────────────────────────────────────────────');
     
-    this.processingStats.lastReportTime = now;
-    this.processingStats.lastChunkLines = this.processingStats.processedLines;
+    stats.lastReportTime = now;
+    stats.lastChunkLines = stats.processedLines;
+    
+    this.emitJobEvent(job, 'progress');
+  }
+
+  /**
+   * Сбрасывает буфер чанка в новый сегмент сборки. Сегменты только
+   * дописываются, партиции из них собираются один раз перед публикацией.
+   */
+  private async writeSegment(
+    databaseId: string,
+    layout: PartitionLayout,
+    buffer: { [key: string]: any },
+    secondaryBuffer: SecondaryBuffer,
+    segments: BuildSegment[]
+  ): Promise<void> {
+    const groups: Record<string, Record<string, unknown>> = { ...buffer };
+    for (const [index, buckets] of Object.entries(secondaryBuffer)) {
+      for (const [bucket, entries] of Object.entries(buckets)) {
+        groups[`${SECONDARY_FOLDER}/${index}/${bucket}`] = entries;
+      }
+    }
+    
+    const { data, slices } = encodeSegment(groups);
+    const key = `${partitionRoot(databaseId, layout.buildId)}${SEGMENTS_FOLDER}/${String(segments.length).padStart(6, '0')}${SEGMENT_FILE_EXTENSION}`;
+    await this.storage.writeObject(key, data, 'application/gzip');
+    segments.push({ key, slices });
+  }
+
+  /**
+   * Число корзин подбиралось по оценке строк до чтения источника. Если строк
+   * оказалось больше, чем вмещают корзины при partitionSize, схема увеличивается
+   * кратно, и группы сегментов при слиянии делятся по новым корзинам.
+   */
+  private rescaleSchemes(job: IndexingJob, layout: PartitionLayout, metadata: IndexMetadata): SegmentSplit {
+    const split: SegmentSplit = {};
+    const rows = job.stats.recordsFound;
+    const partitions = rescaleHashScheme(layout.scheme, rows, metadata.partitionSize);
+    if (partitions) {
+      this.logger.log(`Строк больше оценки, партиционирование ${describePartitionScheme(partitions)}`);
+      job.partitionScheme = layout.scheme = metadata.partitionScheme = split.partitions = partitions;
+    }
+    
+    const secondary = job.secondaryIndexes.length ? rescaleHashScheme(job.secondaryScheme, rows, metadata.partitionSize) : null;
+    if (secondary) {
+      this.logger.log(`Дополнительные индексы ${describePartitionScheme(secondary)}`);
+      job.secondaryScheme = split.secondary = secondary;
+    }
+    return split;
   }
 
-  private async saveBufferToS3(databaseFolder: string, buffer: { [key: string]: any }): Promise<void> {
-    const prefixCount = Object.keys(buffer).length;
+  /**
+   * Собирает партиции и корзины дополнительных индексов из сегментов.
+   * Каждая пишется один раз; пакет групп читается из сегмента одним диапазоном.
+   * Каждая сборка пишется в новую папку, поэтому опубликованные версии не затрагиваются.
+   */
+  private async mergeSegments(
+    databaseId: string,
+    layout: PartitionLayout,
+    segments: BuildSegment[],
+    partitionCounts: Map<string, number>,
+    partitionFilters: Map<string, BloomFilter>,
+    secondaryCounts: Map<string, Map<string, number>>,
+    merger: ImportMerger,
+    split: SegmentSplit,
+    signal: AbortSignal
+  ): Promise<void> {
+    const batches = planMergeBatches(segments);
+    this.logger.log(`Слияние сегментов: ${segments.length}, пакетов: ${batches.length}`);
     
-    for (const prefix of Object.keys(buffer)) {
-      const prefixPath = `${databaseFolder}${prefix}/`;
+    for (const batch of batches) {
+      if (signal.aborted) {
+        throw new Error('Индексация отменена');
+      }
       
-      try {
-        await this.createFolder(prefixPath);
+      const ranges = await Promise.all(segments.map(async segment => {
+        const range = batchRange(segment, batch);
+        return range && { range, data: await this.storage.readObjectRange(segment.key, range.offset, range.length) };
+      }));
+      
+      for (const name of batch) {
+        const chunks: Map<string, unknown>[] = [];
+        segments.forEach((segment, i) => {
+          const group = ranges[i] && readSegmentGroup(segment, name, ranges[i].range, ranges[i].data);
+          if (group) {
+            chunks.push(group);
+          }
+        });
         
-        const dataKey = `${prefixPath}data.json`;
-        await this.writeJsonFile(dataKey, buffer[prefix]);
+        if (name.startsWith(`${SECONDARY_FOLDER}/`)) {
+          const [, index, bucket] = name.split('/');
+          for (const [target, parts] of this.splitChunks(bucket, chunks as Map<string, string[]>[], split.secondary)) {
+            await this.saveSecondaryBucket(databaseId, layout, index, target, parts, secondaryCounts);
+          }
+        } else {
+          for (const [target, parts] of this.splitChunks(name, chunks as Map<string, IndexedRecord[]>[], split.partitions)) {
+            await this.savePartition(databaseId, layout, target, parts, partitionCounts, partitionFilters, merger);
+          }
+        }
+      }
+    }
+    
+    await this.storage.deletePrefix(`${partitionRoot(databaseId, layout.buildId)}${SEGMENTS_FOLDER}/`);
+  }
+
+  // Чанки группы по корзинам новой схемы с сохранением порядка чанков
+  private splitChunks<T>(name: string, chunks: Map<string, T>[], scheme?: PartitionScheme): Map<string, Map<string, T>[]> {
+    if (!scheme) {
+      return new Map([[name, chunks]]);
+    }
+    
+    const targets = new Map<string, Map<string, T>[]>();
+    for (const chunk of chunks) {
+      const parts = new Map<string, Map<string, T>>();
+      for (const [key, value] of chunk) {
+        const target = partitionKeyOf(key, scheme);
+        if (!parts.has(target)) {
+          parts.set(target, new Map());
+        }
+        parts.get(target)!.set(key, value);
+      }
+      for (const [target, part] of parts) {
+        if (!targets.has(target)) {
+          targets.set(target, []);
+        }
+        targets.get(target)!.push(part);
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Записывает партицию из чанков загрузки. Партиция, скопированная
+   * из дополняемой версии, объединяется с ними по режиму загрузки.
+   */
+  private async savePartition(
+    databaseId: string,
+    layout: PartitionLayout,
+    prefix: string,
+    chunks: Map<string, IndexedRecord[]>[],
+    partitionCounts: Map<string, number>,
+    partitionFilters: Map<string, BloomFilter>,
+    merger: ImportMerger
+  ): Promise<void> {
+    try {
+      const dir = this.partitionDir(databaseId, layout, prefix);
+      const partition: Record<string, IndexedEntry> = partitionCounts.has(prefix)
+        ? await this.readWholePartition(databaseId, layout, prefix)
+        : {};
+      // Чанки идут в порядке чтения источника
+      for (const chunk of chunks) {
+        for (const [phone, records] of chunk) {
+          const merged = merger.merge(phone, partition[phone], records);
+          if (merged) {
+            partition[phone] = merged;
+          } else {
+            delete partition[phone];
+          }
+        }
+      }
+      
+      const keys = Object.keys(partition);
+      if (!keys.length) {
+        // Загрузка в режиме delete удалила все номера партиции
+        if (partitionCounts.has(prefix)) {
+          await this.storage.deletePrefix(dir);
+          partitionCounts.delete(prefix);
+          partitionFilters.delete(prefix);
+        }
+        return;
+      }
+      
+      if (!partitionCounts.has(prefix)) {
+        await this.storage.createFolder(dir);
+      }
+      await this.writePartition(databaseId, layout, prefix, partition);
+      partitionCounts.set(prefix, keys.length);
+      partitionFilters.set(prefix, BloomFilter.fromKeys(keys));
+    } catch (error) {
+      // Пропуск партиции означал бы молчаливую потерю записей, поэтому прерываем индексацию
+      this.logger.error(`Ошибка сохранения данных для префикса ${prefix}: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Копирует партиции и корзины дополнительных индексов опубликованной версии
+   * в новую сборку без распаковки. Число номеров и фильтры Блума партиций
+   * берутся из манифеста версии.
+   */
+  private async copyBuild(
+    databaseId: string,
+    base: IndexMetadata,
+    layout: PartitionLayout,
+    partitionCounts: Map<string, number>,
+    partitionFilters: Map<string, BloomFilter>,
+    secondaryCounts: Map<string, Map<string, number>>
+  ): Promise<void> {
+    const baseLayout = this.layoutOf(base);
+    const manifest = await this.readBuildManifest(databaseId, baseLayout);
+    const files = layout.format === LEGACY_PARTITION_FORMAT ? [LEGACY_DATA_FILE] : [PARTITION_RECORDS_FILE, PARTITION_INDEX_FILE];
+    
+    for (const [prefix, { count, filter }] of Object.entries(manifest.prefixes)) {
+      await this.copyFiles(this.partitionDir(databaseId, baseLayout, prefix), this.partitionDir(databaseId, layout, prefix), files);
+      partitionCounts.set(prefix, count);
+      partitionFilters.set(prefix, BloomFilter.fromJSON(filter));
+    }
+    
+    if (base.secondaryIndexes) {
+      const secondaryRoot = `${partitionRoot(databaseId, base.buildId)}${SECONDARY_FOLDER}/`;
+      for (const index of await this.storage.listFolders(secondaryRoot)) {
+        const counts = new Map<string, number>();
+        for (const bucket of await this.storage.listFolders(`${secondaryRoot}${index}/`)) {
+          const from = this.secondaryDir(databaseId, base.buildId, index, bucket);
+          await this.copyFiles(from, this.secondaryDir(databaseId, layout.buildId, index, bucket), [PARTITION_RECORDS_FILE, PARTITION_INDEX_FILE]);
+          const bucketIndex: PartitionIndex = await this.readJsonFile(`${from}${PARTITION_INDEX_FILE}`);
+          counts.set(bucket, bucketIndex.count);
+        }
+        secondaryCounts.set(index, counts);
+      }
+    }
+    
+    this.logger.log(`Скопировано партиций: ${partitionCounts.size}, номеров: ${manifest.totalRecords.toLocaleString()}`);
+  }
+
+  // Файлы пишутся в порядке перечисления: индекс блоков — последним
+  private async copyFiles(fromDir: string, toDir: string, files: string[]): Promise<void> {
+    await this.storage.createFolder(toDir);
+    for (const file of files) {
+      const contentType = file === PARTITION_RECORDS_FILE ? 'application/gzip' : 'application/json';
+      await this.storage.writeObject(`${toDir}${file}`, await this.storage.readObject(`${fromDir}${file}`), contentType);
+    }
+  }
+
+  /**
+   * Загрузки, из которых собрана версия. У версий до их учёта — одна
+   * полная индексация с именем исходного файла
+   */
+  private importedSourcesOf(metadata: IndexMetadata): ImportedSource[] {
+    return metadata.sources ?? [{
+      name: metadata.originalFileName,
+      mode: 'replace',
+      importedAt: metadata.createdAt,
+      rows: metadata.sourceRows,
+      records: metadata.totalRecords + (metadata.duplicateRows ?? 0),
+      buildId: metadata.buildId
+    }];
+  }
+
+  private addSecondaryKeys(job: IndexingJob, buffer: SecondaryBuffer, record: Record<string, unknown>, phone: string): void {
+    // true, если значение впервые встретилось в чанке
+    const add = (index: string, key: string, value: string): boolean => {
+      const bucketKey = partitionKeyOf(key, job.secondaryScheme);
+      const buckets = buffer[index] ?? (buffer[index] = {});
+      const entries = buckets[bucketKey] ?? (buckets[bucketKey] = {});
+      if (entries[key]) {
+        entries[key].push(value);
+        return false;
+      }
+      entries[key] = [value];
+      return true;
+    };
+    
+    for (const field of job.secondaryIndexes) {
+      if (field !== 'name') {
+        const key = secondaryKeyOf(field, record);
+        if (key) {
+          add(field, key, phone);
+        }
+        continue;
+      }
+      
+      // Номер хранится с датой рождения, чтобы сужать поиск без чтения записей
+      const posting = `${phone}|${normalizeBirthDate(String(record.birthDate ?? '')) ?? ''}`;
+      for (const token of new Set(nameTokens(String(record.fullName ?? '')))) {
+        if (add(field, token, posting)) {
+          for (const gram of trigrams(token)) {
+            add(NAME_GRAMS_INDEX, gram, token);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Записывает корзину дополнительного индекса. Значение, встретившееся
+   * в нескольких чанках, объединяет номера из всех
+   */
+  private async saveSecondaryBucket(
+    databaseId: string,
+    layout: PartitionLayout,
+    index: string,
+    bucket: string,
+    chunks: Map<string, string[]>[],
+    secondaryCounts: Map<string, Map<string, number>>
+  ): Promise<void> {
+    if (!secondaryCounts.has(index)) {
+      secondaryCounts.set(index, new Map());
+    }
+    const counts = secondaryCounts.get(index)!;
+    
+    const dir = this.secondaryDir(databaseId, layout.buildId, index, bucket);
+    let entries: Record<string, string[]> = {};
+    if (counts.has(bucket)) {
+      entries = await this.readWholeBlocks(dir);
+    } else {
+      await this.storage.createFolder(dir);
+    }
+    
+    // Повторы значения внутри чанка и между чанками схлопываются
+    for (const chunk of chunks) {
+      for (const [key, values] of chunk) {
+        entries[key] = Array.from(new Set(entries[key] ? [...entries[key], ...values] : values));
+      }
+    }
+    
+    await this.writeBlocks(dir, entries);
+    counts.set(bucket, Object.keys(entries).length);
+  }
+
+  private buildManifest(
+    databaseId: string,
+    layout: PartitionLayout,
+    partitionCounts: Map<string, number>,
+    partitionFilters: Map<string, BloomFilter>,
+    phoneRegion?: PhoneRegion
+  ): DatabaseManifest {
+    const manifest: DatabaseManifest = {
+      databaseId,
+      updatedAt: new Date().toISOString(),
+      totalRecords: 0,
+      partitionScheme: layout.scheme,
+      partitionFormat: layout.format,
+      buildId: layout.buildId,
+      phoneRegion,
+      prefixes: {}
+    };
+    
+    for (const [prefix, count] of partitionCounts) {
+      manifest.prefixes[prefix] = { count, filter: partitionFilters.get(prefix)!.toJSON() };
+      manifest.totalRecords += count;
+    }
+    
+    return manifest;
+  }
+
+  /**
+   * Строит манифесты для баз, проиндексированных до их появления,
+   * читая каждую партицию один раз
+   */
+  async rebuildManifests(): Promise<{ databases: number; rebuilt: string[]; failed: string[] }> {
+    const catalog = await this.searchCatalog.rebuildCatalog();
+    const rebuilt: string[] = [];
+    const failed: string[] = [];
+    
+    for (const [databaseId, entry] of Object.entries(catalog.databases)) {
+      if (entry.hasManifest) {
+        continue;
+      }
+      
+      try {
+        const layout = await this.getPartitionLayout(databaseId, entry);
+        await this.searchCatalog.saveManifest(await this.buildManifestFromPartitions(databaseId, layout));
+        rebuilt.push(databaseId);
       } catch (error) {
-        this.logger.error(`Ошибка сохранения данных для префикса ${prefix}: ${error.message}`);
+        this.logger.error(`❌ Не удалось построить манифест базы ${databaseId}: ${error.message}`);
+        failed.push(databaseId);
+      }
+    }
+    
+    this.logger.log(`📚 Манифесты построены для ${rebuilt.length} баз, ошибок: ${failed.length}`);
+    return { databases: Object.keys(catalog.databases).length, rebuilt, failed };
+  }
+
+  /**
+   * Манифест сборки из копии рядом с её партициями; у старых версий — по самим партициям
+   */
+  private async readBuildManifest(databaseId: string, layout: PartitionLayout): Promise<DatabaseManifest> {
+    const manifestKey = `${partitionRoot(databaseId, layout.buildId)}manifest.json`;
+    if (layout.buildId && await this.storage.objectExists(manifestKey)) {
+      return this.readJsonFile(manifestKey);
+    }
+    return this.buildManifestFromPartitions(databaseId, layout);
+  }
+
+  private async buildManifestFromPartitions(databaseId: string, layout: PartitionLayout): Promise<DatabaseManifest> {
+    const partitionCounts = new Map<string, number>();
+    const partitionFilters = new Map<string, BloomFilter>();
+    
+    for (const prefix of await this.storage.listFolders(partitionRoot(databaseId, layout.buildId))) {
+      const entryKey = `${this.partitionDir(databaseId, layout, prefix)}${partitionEntryFile(layout.format)}`;
+      if (!(await this.storage.objectExists(entryKey))) {
+        continue;
       }
+      const keys = Object.keys(await this.readWholePartition(databaseId, layout, prefix));
+      partitionCounts.set(prefix, keys.length);
+      partitionFilters.set(prefix, BloomFilter.fromKeys(keys));
+    }
+    
+    return this.buildManifest(databaseId, layout, partitionCounts, partitionFilters);
+  }
+
+  /**
+   * Схема, формат и сборка партиций базы: из каталога, а для баз без манифеста — из метаданных
+   */
+  private async getPartitionLayout(databaseId: string, entry?: CatalogEntry): Promise<PartitionLayout> {
+    const catalogEntry = entry ?? (await this.searchCatalog.getCatalog()).databases[databaseId];
+    if (catalogEntry?.hasManifest) {
+      return { scheme: partitionSchemeOf(catalogEntry), format: partitionFormatOf(catalogEntry), buildId: catalogEntry.buildId };
     }
+    
+    const metadata = await this.readPublishedMetadata(databaseId);
+    return this.layoutOf(metadata ?? {});
+  }
+
+  private layoutOf(metadata: Partial<IndexMetadata>): PartitionLayout {
+    return {
+      scheme: partitionSchemeOf(metadata),
+      format: partitionFormatOf(metadata),
+      buildId: metadata.buildId
+    };
+  }
+
+  // Регион базы для номеров без кода страны; у баз без региона в манифесте — по умолчанию
+  private regionOf(entry: CatalogEntry | undefined): PhoneRegion {
+    return entry?.phoneRegion ?? this.phoneNormalizer.defaultRegion;
+  }
+
+  private queryKeyOf(phone: string, entry: CatalogEntry): string | null {
+    return this.phoneNormalizer.toKey(phone, this.regionOf(entry));
+  }
+
+  /**
+   * Номер запроса для поиска по всем базам: в регионе по умолчанию, а если
+   * там он не распознан — в регионе одной из баз. Ключ для чтения каждой
+   * базы всё равно считается в её регионе.
+   */
+  private normalizeQuery(phone: string, regions: PhoneRegion[]): PhoneNormalizationResult {
+    const query = this.phoneNormalizer.normalize(phone);
+    if (query.normalized) {
+      return query;
+    }
+    for (const region of regions) {
+      const regional = this.phoneNormalizer.normalize(phone, region);
+      if (regional.normalized) {
+        return regional;
+      }
+    }
+    return query;
+  }
+
+  // Регионы включённых в поиск баз
+  private searchRegions(catalog: SearchCatalog): PhoneRegion[] {
+    const entries = Object.values(catalog.databases).filter(entry => !entry.disabled);
+    return Array.from(new Set(entries.map(entry => this.regionOf(entry))));
+  }
+
+  private async readPublishedMetadata(databaseId: string): Promise<IndexMetadata | null> {
+    const metadataKey = `${databaseId}/metadata.json`;
+    if (!(await this.storage.objectExists(metadataKey))) {
+      return null;
+    }
+    return this.readJsonFile(metadataKey);
+  }
+
+  /**
+   * Публикует сборку: переключает указатель в metadata.json, обновляет каталог
+   * и удаляет сборки сверх BUILDS_TO_KEEP предыдущих версий
+   */
+  private async publishBuild(databaseId: string, metadata: IndexMetadata, manifest: DatabaseManifest): Promise<void> {
+    // Копия манифеста рядом с партициями нужна для отката на эту сборку
+    await this.writeJsonFile(`${partitionRoot(databaseId, metadata.buildId)}manifest.json`, manifest);
+    
+    const current = await this.readPublishedMetadata(databaseId);
+    const history = current ? [this.snapshotOf(current), ...(current.previousBuilds ?? [])] : [];
+    metadata.previousBuilds = history.slice(0, this.BUILDS_TO_KEEP);
+    
+    await this.saveMetadata(`${databaseId}/`, metadata);
+    await this.searchCatalog.saveManifest(manifest);
+    this.logger.log(`📦 Сборка ${metadata.buildId} базы ${databaseId} опубликована, предыдущих версий: ${metadata.previousBuilds.length}`);
+    
+    await this.pruneBuilds(databaseId, metadata, history.slice(this.BUILDS_TO_KEEP));
+    this.publications.next({ databaseId, metadata });
+  }
+
+  /**
+   * Поток опубликованных версий индексов: после индексации и после отката
+   */
+  watchPublications(): Observable<IndexPublication> {
+    return this.publications.asObservable();
+  }
+
+  /**
+   * Первые записи активной версии индекса, партиция за партицией.
+   * Нужны, чтобы описать колонки базы без исходного файла.
+   */
+  async sampleRecords(databaseId: string, limit: number): Promise<Record<string, any>[]> {
+    const layout = await this.getPartitionLayout(databaseId);
+    const records: Record<string, any>[] = [];
+    
+    for (const prefix of await this.storage.listFolders(partitionRoot(databaseId, layout.buildId))) {
+      if (records.length >= limit) {
+        break;
+      }
+      if (prefix === BUILDS_FOLDER) {
+        continue;
+      }
+      const entryKey = `${this.partitionDir(databaseId, layout, prefix)}${partitionEntryFile(layout.format)}`;
+      if (!(await this.storage.objectExists(entryKey))) {
+        continue;
+      }
+      const entries: IndexedEntry[] = Object.values(await this.readWholePartition(databaseId, layout, prefix));
+      records.push(...entries.flatMap(entryRecords).slice(0, limit - records.length));
+    }
+    
+    return records;
+  }
+
+  /**
+   * Удаляет сборки, которые не активны и не сохранены для отката,
+   * включая оставшиеся от прерванных индексаций
+   */
+  private async pruneBuilds(databaseId: string, metadata: IndexMetadata, dropped: IndexMetadata[]): Promise<void> {
+    const kept = new Set([metadata, ...(metadata.previousBuilds ?? [])].map(build => build.buildId));
+    
+    try {
+      for (const buildId of await this.storage.listFolders(`${databaseId}/${BUILDS_FOLDER}/`)) {
+        if (!kept.has(buildId)) {
+          await this.storage.deletePrefix(partitionRoot(databaseId, buildId));
+          this.logger.log(`🧹 Удалена сборка ${buildId} базы ${databaseId}`);
+        }
+      }
+      
+      // Партиции индекса, созданного до появления сборок, лежат в корне базы
+      if (dropped.some(build => !build.buildId) && !kept.has(undefined)) {
+        for (const folder of await this.storage.listFolders(`${databaseId}/`)) {
+          if (folder !== BUILDS_FOLDER) {
+            await this.storage.deletePrefix(`${databaseId}/${folder}/`);
+          }
+        }
+        this.logger.log(`🧹 Удалены партиции старого индекса базы ${databaseId}`);
+      }
+    } catch (error) {
+      // Лишние сборки не мешают поиску, поэтому публикация не откатывается
+      this.logger.warn(`⚠️ Не удалось удалить старые сборки базы ${databaseId}: ${error.message}`);
+    }
+    
+    this.partitionCache.invalidateDatabase(databaseId);
+  }
+
+  private async discardBuild(databaseId: string, buildId: string): Promise<void> {
+    try {
+      await this.storage.deletePrefix(partitionRoot(databaseId, buildId));
+      this.logger.log(`🧹 Незавершённая сборка ${buildId} базы ${databaseId} удалена`);
+    } catch (error) {
+      this.logger.warn(`⚠️ Не удалось удалить незавершённую сборку ${buildId}: ${error.message}`);
+    }
+  }
+
+  private snapshotOf(metadata: IndexMetadata): IndexMetadata {
+    const { previousBuilds, ...snapshot } = metadata;
+    return snapshot;
+  }
+
+  /**
+   * Возвращает базу к предыдущей версии (или к указанной сборке).
+   * Текущая версия остаётся в истории, поэтому откат можно отменить.
+   */
+  async rollbackDatabase(databaseId: string, buildId?: string): Promise<IndexMetadata> {
+    const current = await this.readPublishedMetadata(databaseId);
+    if (!current) {
+      throw new NotFoundException(`База данных ${databaseId} не найдена`);
+    }
+    
+    const previous = current.previousBuilds ?? [];
+    if (!previous.length) {
+      throw new ConflictException(`У базы ${databaseId} нет предыдущих версий для отката`);
+    }
+    
+    // Версия старого индекса без сборки указывается по id метаданных
+    const target = buildId
+      ? previous.find(build => build.buildId === buildId || (!build.buildId && build.id === buildId))
+      : previous[0];
+    if (!target) {
+      const available = previous.map(build => build.buildId ?? build.id).join(', ');
+      throw new NotFoundException(`Версия ${buildId} базы ${databaseId} не найдена. Доступные версии: ${available}`);
+    }
+    
+    const manifest = await this.readBuildManifest(databaseId, this.layoutOf(target));
+    // По времени обновления каталог сбрасывает закэшированные фильтры Блума
+    manifest.updatedAt = new Date().toISOString();
+    // У манифестов старых сборок региона нет
+    manifest.phoneRegion = target.phoneRegion;
+    
+    const metadata: IndexMetadata = {
+      ...target,
+      previousBuilds: [this.snapshotOf(current), ...previous.filter(build => build !== target)]
+    };
+    await this.saveMetadata(`${databaseId}/`, metadata);
+    await this.searchCatalog.saveManifest(manifest);
+    this.partitionCache.invalidateDatabase(databaseId);
+    this.publications.next({ databaseId, metadata });
+    
+    this.logger.log(`⏪ База ${databaseId} возвращена к версии ${target.buildId ?? target.id}`);
+    return metadata;
   }
 
   private async saveMetadata(databaseFolder: string, metadata: IndexMetadata): Promise<void> {
@@ -805,11 +2047,6 @@ export class IndexerService {
     }
   }
 
-  private formatPhoneNumber(phone: string): string {
-    if (phone.length !== 11) return phone;
-    return `+${phone[0]} (${phone.substring(1, 4)}) ${phone.substring(4, 7)}-${phone.substring(7, 9)}-${phone.substring(9, 11)}`;
-  }
-
   private formatBytes(bytes: number): string {
     if (bytes === 0) return '0 Байт';
     
@@ -843,24 +2080,28 @@ export class IndexerService {
   }
   
   async getIndexingStatus(): Promise<any> {
-    if (!this.indexingInProgress) {
+    if (!this.activeJob) {
       return {
         status: 'idle',
-        message: 'Нет активного процесса индексации'
+        message: 'Нет активного процесса индексации',
+        queued: this.jobQueue.length
       };
     }
     
+    const stats = this.activeJob.stats;
     return {
       status: 'processing',
+      jobId: this.activeJob.id,
+      queued: this.jobQueue.length,
       progress: {
-        percentComplete: this.processingStats.percentComplete,
-        processedLines: this.processingStats.processedLines,
-        recordsFound: this.processingStats.recordsFound,
-        linesPerSecond: this.processingStats.linesPerSecond,
-        elapsedTime: this.formatDuration(Date.now() - this.processingStats.startTime),
-        estimatedTimeRemaining: this.processingStats.estimatedTimeRemaining,
-        bytesProcessed: this.formatBytes(this.processingStats.bytesProcessed),
-        totalSize: this.formatBytes(this.processingStats.fileSize)
+        percentComplete: stats.percentComplete,
+        processedLines: stats.processedLines,
+        recordsFound: stats.recordsFound,
+        linesPerSecond: stats.linesPerSecond,
+        elapsedTime: this.formatDuration(Date.now() - stats.startTime),
+        estimatedTimeRemaining: stats.estimatedTimeRemaining,
+        bytesProcessed: this.formatBytes(stats.bytesProcessed),
+        totalSize: this.formatBytes(stats.fileSize)
       }
     };
   }
@@ -873,7 +2114,7 @@ export class IndexerService {
       const dbFolder = `${databaseId}/`;
       this.logger.log(`Проверка директории базы данных: "${dbFolder}"`);
       
-      const dbExists = await this.prefixExists(dbFolder);
+      const dbExists = await this.storage.prefixExists(dbFolder);
       if (!dbExists) {
         this.logger.warn(`⚠️ Директория базы данных не существует: "${dbFolder}"`);
         throw new NotFoundException(`База данных ${databaseId} не найдена`);
@@ -881,41 +2122,30 @@ export class IndexerService {
         this.logger.log(`✓ База данных существует: "${dbFolder}"`);
       }
 
-      let normalizedPhone = '';
-      if (phone) {
-        normalizedPhone = phone.replace(/\D/g, '');
-        this.logger.log(`Телефон после удаления нецифровых символов: "${normalizedPhone}"`);
-        
-        if (normalizedPhone.startsWith('8') && normalizedPhone.length === 11) {
-          normalizedPhone = '7' + normalizedPhone.substring(1);
-          this.logger.log(`Телефон нормализован с 8 на 7: "${normalizedPhone}"`);
-        }
-        
-        if (normalizedPhone.length === 10 && normalizedPhone[0] === '9') {
-          normalizedPhone = '7' + normalizedPhone;
-          this.logger.log(`Телефон дополнен 7 в начале: "${normalizedPhone}"`);
-        }
-      }
-      
-      if (!normalizedPhone || normalizedPhone.length !== 11 || normalizedPhone[0] !== '7') {
-        this.logger.warn(`⚠️ Неверный формат телефона после нормализации: "${normalizedPhone}"`);
-        throw new NotFoundException(`Неверный формат номера телефона: ${phone}`);
+      // Номер без кода страны читается в регионе, с которым индексировалась база
+      const entry = (await this.searchCatalog.getCatalog()).databases[databaseId];
+      const query = this.phoneNormalizer.normalize(phone, this.regionOf(entry));
+      if (!query.normalized) {
+        this.logger.warn(`⚠️ Неверный формат телефона: "${phone}" (${query.reason})`);
+        throw new InvalidPhoneNumberException(query);
       }
+      const normalizedPhone = query.normalized;
       
       this.logger.log(`✓ Нормализованный телефон: "${normalizedPhone}"`);
 
-      const prefix = normalizedPhone.substring(0, 3);
+      const layout = await this.getPartitionLayout(databaseId, entry);
+      const prefix = partitionKeyOf(normalizedPhone, layout.scheme);
       this.logger.log(`Извлечен префикс телефона: "${prefix}"`);
       
-      const prefixPath = `${databaseId}/${prefix}/`;
+      const prefixPath = this.partitionDir(databaseId, layout, prefix);
       this.logger.log(`Проверка директории префикса: "${prefixPath}"`);
       
-      const prefixExists = await this.prefixExists(prefixPath);
+      const prefixExists = await this.storage.prefixExists(prefixPath);
       if (!prefixExists) {
         this.logger.warn(`⚠️ Директория префикса не существует: "${prefixPath}"`);
         
         try {
-          const availablePrefixes = await this.listFolders(`${databaseId}/`);
+          const availablePrefixes = await this.storage.listFolders(partitionRoot(databaseId, layout.buildId));
           if (availablePrefixes.length > 0) {
             this.logger.log(`ℹ️ Доступные префиксы в базе "${databaseId}": ${availablePrefixes.join(', ')}`);
           } else {
@@ -925,39 +2155,23 @@ export class IndexerService {
           this.logger.error(`❌ Ошибка при получении списка префиксов: ${err.message}`);
         }
         
-        throw new PhoneNumberNotFoundException(phone, databaseId);
+        throw new PhoneNumberNotFoundException(phone, databaseId, normalizedPhone);
       } else {
         this.logger.log(`✓ Директория префикса существует: "${prefixPath}"`);
       }
 
-      const dataPath = `${databaseId}/${prefix}/data.json`;
-      this.logger.log(`Проверка файла данных: "${dataPath}"`);
+      const dataPath = `${prefixPath}${partitionEntryFile(layout.format)}`;
+      this.logger.log(`Проверка файла данных: "${dataPath}" (формат ${layout.format})`);
       
       try {
-        const data = await this.readJsonFile(dataPath);
-        this.logger.log(`✓ Файл данных успешно прочитан, количество записей: ${Object.keys(data).length}`);
-        
-        const sampleKeys = Object.keys(data).slice(0, 5);
-        this.logger.log(`ℹ️ Примеры ключей: ${sampleKeys.join(', ')}`);
-        
         this.logger.log(`🔎 Ищем ключ "${normalizedPhone}" в данных...`);
-        const record = data[normalizedPhone];
-        if (record) {
+        const entry: IndexedEntry | undefined = (await this.readPartitionRecords(databaseId, layout, prefix, [normalizedPhone])).get(normalizedPhone);
+        if (entry) {
           this.logger.log(`✅ Запись найдена для телефона: "${normalizedPhone}"`);
-          return record;
+          return { ...searchRecordOf(entry), normalizedPhone };
         } else {
           this.logger.warn(`❌ Запись не найдена для телефона: "${normalizedPhone}"`);
-          
-          const similarPhones = Object.keys(data).filter(key => 
-            key.startsWith(normalizedPhone.substring(0, 8)) || 
-            normalizedPhone.startsWith(key.substring(0, 8))
-          );
-          
-          if (similarPhones.length > 0) {
-            this.logger.log(`ℹ️ Найдены похожие телефоны: ${similarPhones.join(', ')}`);
-          }
-          
-          throw new PhoneNumberNotFoundException(phone, databaseId);
+          throw new PhoneNumberNotFoundException(phone, databaseId, normalizedPhone);
         }
       } catch (error) {
         if (error instanceof PhoneNumberNotFoundException) {
@@ -967,7 +2181,7 @@ export class IndexerService {
         throw new NotFoundException(`Ошибка доступа к данным в базе ${databaseId}`);
       }
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof PhoneNumberNotFoundException) {
+      if (error instanceof NotFoundException || error instanceof InvalidPhoneNumberException) {
         throw error;
       }
       this.logger.error(`❌ Неожиданная ошибка в findByPhone: ${error.message}`);
@@ -978,11 +2192,17 @@ export class IndexerService {
   }
 
   async findByPhoneParallel(phone: string): Promise<any> {
+    const query = this.normalizeQuery(phone, this.searchRegions(await this.searchCatalog.getCatalog()));
+    if (!query.normalized) {
+      throw new InvalidPhoneNumberException(query);
+    }
+    
     try {
-      const databases = await this.getAllDatabases();
+      // Каталог отсекает базы, в которых номера точно нет
+      const databases = Array.from((await this.searchCatalog.findCandidates(entry => this.queryKeyOf(phone, entry))).keys());
       if (databases.length === 0) {
-        this.logger.warn(`⚠️ Не найдено баз данных для поиска`);
-        throw new NotFoundException('Не найдено баз данных для поиска');
+        this.logger.log(`ℹ️ По каталогу номер ${query.normalized} не может быть ни в одной базе`);
+        throw new PhoneNumberNotFoundException(phone, null, query.normalized);
       }
       
       const batchSize = 3;
@@ -997,8 +2217,6 @@ export class IndexerService {
         
         const batchPromises = batch.map(async (databaseId) => {
           try {
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
             const result = await this.findByPhone(databaseId, phone)
               .catch(error => {
                 if (error instanceof PhoneNumberNotFoundException) {
@@ -1030,7 +2248,7 @@ export class IndexerService {
 
       if (results.length === 0) {
         this.logger.log(`❌ Результатов не найдено`);
-        throw new PhoneNumberNotFoundException(phone);
+        throw new PhoneNumberNotFoundException(phone, null, query.normalized);
       }
       
       return results[0];
@@ -1042,4 +2260,662 @@ export class IndexerService {
       throw new NotFoundException(`Ошибка при параллельном поиске телефона ${phone}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Пакетный поиск: номера группируются по партициям, и каждая партиция
+   * каждой базы читается не больше одного раза
+   */
+  async searchBatch(phones: string[]): Promise<BatchSearchResult> {
+    const startTime = Date.now();
+    
+    if (!phones.length) {
+      throw new BadRequestException('Список телефонов пуст');
+    }
+    if (phones.length > this.MAX_BATCH_SIZE) {
+      throw new BadRequestException(`Не более ${this.MAX_BATCH_SIZE} номеров за запрос, передано ${phones.length}`);
+    }
+    
+    const catalog = await this.searchCatalog.getCatalog();
+    const regions = this.searchRegions(catalog);
+    // Повторяющиеся строки запроса делят один список совпадений
+    const matchesByPhone = new Map<string, BatchSearchMatch[]>();
+    
+    const results: BatchSearchItem[] = phones.map(input => {
+      const phone = String(input ?? '');
+      const query = this.normalizeQuery(phone, regions);
+      if (!query.normalized) {
+        return {
+          input,
+          normalizedPhone: null,
+          status: 'rejected',
+          reason: query.reason,
+          message: query.message,
+          matches: []
+        };
+      }
+      
+      if (!matchesByPhone.has(phone)) {
+        matchesByPhone.set(phone, []);
+      }
+      
+      return { input, normalizedPhone: query.normalized, status: 'not_found', matches: matchesByPhone.get(phone)! };
+    });
+    
+    this.logger.log(`🔄 Пакетный поиск: ${phones.length} номеров, уникальных ${matchesByPhone.size}`);
+    
+    // Ключи номеров в каждом регионе баз: номер без кода страны читается в регионе базы
+    const keysByRegion = new Map<PhoneRegion, Map<string, string[]>>();
+    for (const region of regions) {
+      const inputsByKey = new Map<string, string[]>();
+      for (const phone of matchesByPhone.keys()) {
+        const key = this.phoneNormalizer.toKey(phone, region);
+        if (key) {
+          inputsByKey.set(key, [...(inputsByKey.get(key) ?? []), phone]);
+        }
+      }
+      keysByRegion.set(region, inputsByKey);
+    }
+    
+    const databases = Object.keys(catalog.databases).filter(databaseId => !catalog.databases[databaseId].disabled);
+    let partitionsLoaded = 0;
+    
+    for (const databaseId of databases) {
+      const entry = catalog.databases[databaseId];
+      const layout = await this.getPartitionLayout(databaseId, entry);
+      const availablePrefixes = new Set(
+        entry.hasManifest ? entry.prefixes : await this.storage.listFolders(partitionRoot(databaseId, layout.buildId))
+      );
+      
+      // Схема партиций у баз может различаться, поэтому номера группируются для каждой базы
+      const inputsByKey = keysByRegion.get(this.regionOf(entry))!;
+      const phonesByPrefix = new Map<string, string[]>();
+      for (const key of inputsByKey.keys()) {
+        const prefix = partitionKeyOf(key, layout.scheme);
+        if (!phonesByPrefix.has(prefix)) {
+          phonesByPrefix.set(prefix, []);
+        }
+        phonesByPrefix.get(prefix)!.push(key);
+      }
+      
+      for (const [prefix, prefixKeys] of phonesByPrefix) {
+        if (!availablePrefixes.has(prefix)) {
+          continue;
+        }
+        
+        // Партиция читается, только если фильтр Блума допускает хотя бы один номер
+        const keys: string[] = [];
+        for (const key of prefixKeys) {
+          if (await this.searchCatalog.mightContain(databaseId, entry, key)) {
+            keys.push(key);
+          }
+        }
+        if (!keys.length) {
+          continue;
+        }
+        
+        let records: Map<string, any>;
+        try {
+          records = await this.readPartitionRecords(databaseId, layout, prefix, keys);
+          partitionsLoaded++;
+        } catch (error) {
+          this.logger.error(`❌ Ошибка чтения партиции ${databaseId}/${prefix}: ${error.message}`);
+          continue;
+        }
+        
+        for (const [key, entry] of records) {
+          for (const phone of inputsByKey.get(key)!) {
+            matchesByPhone.get(phone)!.push({ database: databaseId, record: searchRecordOf(entry) });
+          }
+        }
+      }
+    }
+    
+    let found = 0;
+    let rejected = 0;
+    for (const item of results) {
+      if (item.status === 'rejected') {
+        rejected++;
+      } else if (item.matches.length) {
+        item.status = 'found';
+        found++;
+      }
+    }
+    
+    const durationMs = Date.now() - startTime;
+    this.logger.log(`✅ Пакетный поиск завершён за ${this.formatDuration(durationMs)}: найдено ${found}, отклонено ${rejected}, прочитано партиций ${partitionsLoaded}`);
+    
+    return {
+      total: results.length,
+      found,
+      notFound: results.length - found - rejected,
+      rejected,
+      databasesSearched: databases.length,
+      partitionsLoaded,
+      durationMs,
+      results
+    };
+  }
+
+  /**
+   * Поиск по части номера: маске (7916***4567) или началу и концу.
+   * Маска с немногими неизвестными цифрами перебирается и проверяется
+   * фильтрами Блума, поэтому годится и для хеш-партиций. Иначе читаются
+   * только партиции с префиксами, подходящими к первым цифрам, а в них —
+   * только блоки с этими цифрами. Хеш-партиции читаются все, если их не
+   * больше MAX_HASH_SCAN_PARTITIONS; более крупные базы пропускаются,
+   * и ответ предупреждает об этом, а если пропущены все базы — поиск
+   * отклоняется. Совпадения упорядочены по базе и номеру, больше
+   * MAX_PARTIAL_RESULTS не собирается.
+   */
+  async searchPartialPhone(
+    input: PhonePatternInput,
+    page = 1,
+    pageSize = this.DEFAULT_PARTIAL_PAGE_SIZE
+  ): Promise<PartialSearchResult> {
+    const startTime = Date.now();
+    const pattern = parsePhonePattern(input);
+    
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException(`Номер страницы должен быть целым числом от 1: ${page}`);
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > this.MAX_PARTIAL_PAGE_SIZE) {
+      throw new BadRequestException(`Размер страницы должен быть от 1 до ${this.MAX_PARTIAL_PAGE_SIZE}: ${pageSize}`);
+    }
+    
+    const keys = expandPhonePattern(pattern);
+    const canScan = pattern.leading.length >= MIN_SCAN_PREFIX;
+    if (!keys && !canScan) {
+      throw new BadRequestException(
+        `Слишком общий шаблон ${pattern.display}: нужно не меньше ${MIN_SCAN_PREFIX} первых цифр или маска, где неизвестных цифр не больше ${MAX_MASK_WILDCARDS}`
+      );
+    }
+    
+    const catalog = await this.searchCatalog.getCatalog();
+    const databases = Object.keys(catalog.databases).filter(databaseId => !catalog.databases[databaseId].disabled).sort();
+    const matches: PartialSearchMatch[] = [];
+    const skippedDatabases: string[] = [];
+    let databasesSearched = 0;
+    let partitionsLoaded = 0;
+    
+    for (const databaseId of databases) {
+      // Лишнее совпадение сверх предела показывает, что результат обрезан
+      if (matches.length > this.MAX_PARTIAL_RESULTS) {
+        break;
+      }
+      
+      const entry = catalog.databases[databaseId];
+      const layout = await this.getPartitionLayout(databaseId, entry);
+      if (!keys && layout.scheme.type === 'hash' && layout.scheme.buckets > this.MAX_HASH_SCAN_PARTITIONS) {
+        skippedDatabases.push(databaseId);
+        continue;
+      }
+      databasesSearched++;
+      
+      let found: { records: Map<string, any>; partitionsLoaded: number };
+      try {
+        found = keys
+          ? await this.readPhonesByMask(databaseId, entry, layout, keys)
+          : await this.scanPartitions(databaseId, entry, layout, pattern, this.MAX_PARTIAL_RESULTS + 1 - matches.length);
+      } catch (error) {
+        this.logger.error(`❌ Ошибка поиска по шаблону ${pattern.display} в базе ${databaseId}: ${error.message}`);
+        continue;
+      }
+      partitionsLoaded += found.partitionsLoaded;
+      
+      for (const phone of Array.from(found.records.keys()).sort()) {
+        matches.push({
+          database: databaseId,
+          phone,
+          formattedPhone: this.phoneNormalizer.format(phone),
+          record: searchRecordOf(found.records.get(phone))
+        });
+      }
+    }
+    
+    const warning = skippedDatabases.length
+      ? `Базы ${skippedDatabases.join(', ')} не просмотрены: в них больше ${this.MAX_HASH_SCAN_PARTITIONS} хеш-партиций. Задайте маску, где неизвестных цифр не больше ${MAX_MASK_WILDCARDS}, или переиндексируйте базу со схемой prefix`
+      : undefined;
+    if (warning && !databasesSearched) {
+      throw new BadRequestException(warning);
+    }
+    
+    const truncated = matches.length > this.MAX_PARTIAL_RESULTS;
+    const total = Math.min(matches.length, this.MAX_PARTIAL_RESULTS);
+    const durationMs = Date.now() - startTime;
+    this.logger.log(
+      `✅ Поиск по шаблону ${pattern.display}: найдено ${total}${truncated ? '+' : ''} в ${databasesSearched} базах, прочитано партиций ${partitionsLoaded}, пропущено баз ${skippedDatabases.length}`
+    );
+    
+    const offset = (page - 1) * pageSize;
+    return {
+      pattern: pattern.display,
+      page,
+      pageSize,
+      total,
+      truncated,
+      databasesSearched,
+      skippedDatabases,
+      warning,
+      partitionsLoaded,
+      durationMs,
+      matches: matches.slice(offset, Math.min(offset + pageSize, total))
+    };
+  }
+
+  /**
+   * Номера маски, которые допускает фильтр Блума, читаются как при пакетном поиске
+   */
+  private async readPhonesByMask(
+    databaseId: string,
+    entry: CatalogEntry,
+    layout: PartitionLayout,
+    keys: string[]
+  ): Promise<{ records: Map<string, any>; partitionsLoaded: number }> {
+    const available = new Set(await this.listPartitions(databaseId, entry, layout));
+    const keysByPrefix = new Map<string, string[]>();
+    for (const key of keys) {
+      const prefix = partitionKeyOf(key, layout.scheme);
+      if (!available.has(prefix) || !(await this.searchCatalog.mightContain(databaseId, entry, key))) {
+        continue;
+      }
+      if (!keysByPrefix.has(prefix)) {
+        keysByPrefix.set(prefix, []);
+      }
+      keysByPrefix.get(prefix)!.push(key);
+    }
+    
+    const records = new Map<string, any>();
+    for (const [prefix, prefixKeys] of keysByPrefix) {
+      for (const [key, record] of await this.readPartitionRecords(databaseId, layout, prefix, prefixKeys)) {
+        records.set(key, record);
+      }
+    }
+    return { records, partitionsLoaded: keysByPrefix.size };
+  }
+
+  /**
+   * Просматривает партиции, которые могут содержать номера шаблона, и
+   * останавливается на limit совпадениях. Блоки внутри партиции упорядочены
+   * по номеру, поэтому и в хеш-партициях читаются только блоки с первыми цифрами.
+   */
+  private async scanPartitions(
+    databaseId: string,
+    entry: CatalogEntry,
+    layout: PartitionLayout,
+    pattern: PhonePattern,
+    limit: number
+  ): Promise<{ records: Map<string, any>; partitionsLoaded: number }> {
+    const prefixes = (await this.listPartitions(databaseId, entry, layout))
+      .filter(prefix => layout.scheme.type !== 'prefix' || patternAllowsPrefix(pattern, prefix))
+      .sort();
+    const records = new Map<string, any>();
+    let partitionsLoaded = 0;
+    
+    for (const prefix of prefixes) {
+      if (records.size >= limit) {
+        break;
+      }
+      partitionsLoaded++;
+      
+      const dir = this.partitionDir(databaseId, layout, prefix);
+      if (layout.format === LEGACY_PARTITION_FORMAT) {
+        const data = await this.readCachedPartitionFile<Record<string, any>>(databaseId, dir, LEGACY_DATA_FILE);
+        for (const key of Object.keys(data).sort()) {
+          if (records.size < limit && pattern.regex.test(key)) {
+            records.set(key, data[key]);
+          }
+        }
+        continue;
+      }
+      
+      const index = await this.readCachedPartitionFile<PartitionIndex>(databaseId, dir, PARTITION_INDEX_FILE);
+      for (const block of findBlocksWithPrefix(index, pattern.leading)) {
+        if (records.size >= limit) {
+          break;
+        }
+        const chunk = await this.storage.readObjectRange(`${dir}${PARTITION_RECORDS_FILE}`, block.offset, block.length);
+        for (const [key, record] of decodeBlock(chunk)) {
+          if (records.size < limit && pattern.regex.test(key)) {
+            records.set(key, record);
+          }
+        }
+      }
+    }
+    return { records, partitionsLoaded };
+  }
+
+  private async listPartitions(databaseId: string, entry: CatalogEntry, layout: PartitionLayout): Promise<string[]> {
+    return entry.hasManifest ? entry.prefixes : this.storage.listFolders(partitionRoot(databaseId, layout.buildId));
+  }
+
+  /**
+   * Читает номера из загруженного файла: по одному в строке или из указанной
+   * колонки. Первая строка без телефона считается заголовком.
+   */
+  async readPhonesFromFile(filePath: string, phoneColumn?: ColumnRef): Promise<string[]> {
+    const sample = Buffer.alloc(this.parsingService.SAMPLE_SIZE);
+    const fd = await fs.promises.open(filePath, 'r');
+    let bytesRead: number;
+    try {
+      ({ bytesRead } = await fd.read(sample, 0, sample.length, 0));
+    } finally {
+      await fd.close();
+    }
+    const format = this.parsingService.detectFormat(sample.subarray(0, bytesRead));
+    
+    const phones: string[] = [];
+    let columnIndex = 0;
+    let isFirstLine = true;
+    const fileStream = fs.createReadStream(filePath);
+    
+    try {
+      for await (const fields of this.parsingService.readRecords(fileStream, format)) {
+        if (isFirstLine) {
+          isFirstLine = false;
+          
+          if (phoneColumn !== undefined && phoneColumn !== '') {
+            const index = findColumn(fields.map(field => field.trim()), phoneColumn);
+            if (index === undefined) {
+              throw new BadRequestException(`Колонка "${phoneColumn}" не найдена среди заголовков: ${fields.join(', ')}`);
+            }
+            columnIndex = index;
+          }
+          
+          if (!this.normalizePhone(fields[columnIndex] || '')) {
+            continue;
+          }
+        }
+        
+        const value = fields[columnIndex]?.trim();
+        if (value) {
+          phones.push(value);
+        }
+        if (phones.length > this.MAX_BATCH_SIZE) {
+          throw new BadRequestException(`Не более ${this.MAX_BATCH_SIZE} номеров за запрос`);
+        }
+      }
+    } finally {
+      fileStream.destroy();
+    }
+    
+    return phones;
+  }
+
+  /**
+   * Ищет номер во всех базах и сводит найденные записи в профиль
+   * с указанием источника каждого значения
+   */
+  async findAllByPhone(phone: string): Promise<ConsolidatedProfile> {
+    const query = this.normalizeQuery(phone, this.searchRegions(await this.searchCatalog.getCatalog()));
+    if (!query.normalized) {
+      throw new InvalidPhoneNumberException(query);
+    }
+    
+    const batch = await this.searchBatch([phone]);
+    const { matches } = batch.results[0];
+    if (!matches.length) {
+      throw new PhoneNumberNotFoundException(phone, null, query.normalized);
+    }
+    
+    const sources = (await Promise.all(matches.map(match => this.profileSourcesOf(match.database, match.record)))).flat();
+    
+    const profile = mergeProfile(query.normalized, this.phoneNormalizer.format(query.normalized), sources, batch.databasesSearched);
+    this.logger.log(`✅ Профиль ${query.normalized}: ${matches.length} совпадений, расхождения: ${profile.conflicts.join(', ') || 'нет'}`);
+    
+    return profile;
+  }
+
+  /**
+   * Источники профиля из найденной записи номера: каждая сохранённая
+   * запись повторяющегося номера — отдельный источник. Записи дозагрузок
+   * помнят свой файл, остальные взяты из файла базы.
+   */
+  private async profileSourcesOf(database: string, result: SearchRecord): Promise<(ProfileSource & { record: any })[]> {
+    const originalFileName = await this.getOriginalFileName(database);
+    return searchRecordEntries(result).map(record => ({
+      database,
+      originalFileName: record.sourceFile ?? originalFileName,
+      record
+    }));
+  }
+
+  /**
+   * Ищет записи по дополнительному индексу (email, ИНН, СНИЛС, ФИО с датой рождения)
+   * во всех базах, где он построен. Найденные номера читаются из партиций,
+   * и запись возвращается, только если её значение совпадает с запросом:
+   * при повторе номера в индексе могло остаться значение отброшенной строки.
+   */
+  async findBySecondaryKey(field: ExactIndexField, query: Record<string, string>): Promise<SecondarySearchResult> {
+    const label = SECONDARY_FIELD_LABELS[field];
+    const value = secondaryKeyOf(field, query);
+    if (!value) {
+      throw new BadRequestException(`Неверный формат значения (${label}): ${Object.values(query).join(' ')}`);
+    }
+    
+    const matches: SecondarySearchMatch[] = [];
+    const databasesSearched = await this.forEachSecondaryIndex(field, async (databaseId, metadata, scheme) => {
+      const entries = await this.readSecondaryEntries(databaseId, metadata.buildId, field, scheme, [value]);
+      const records = await this.readRecordsByPhone(databaseId, metadata, entries.get(value) ?? []);
+      for (const [phone, entry] of records) {
+        const record = entryRecords(entry).find(candidate => secondaryKeyOf(field, candidate) === value);
+        if (record) {
+          matches.push({ database: databaseId, phone, record: searchRecordOf(entry, record) });
+        }
+      }
+    });
+    
+    if (!matches.length) {
+      throw new NotFoundException(`Записи не найдены (${label}: ${value}, проверено баз: ${databasesSearched})`);
+    }
+    
+    this.logger.log(`✅ Поиск по ${field}: ${matches.length} записей в ${databasesSearched} базах`);
+    return { field, normalizedValue: value, databasesSearched, matches };
+  }
+
+  /**
+   * Нечёткий поиск по ФИО во всех базах с индексом name. Слова запроса
+   * сравниваются со словами индекса по триграммам и расстоянию Левенштейна,
+   * порядок слов не важен. Кандидаты ранжируются по среднему сходству слов.
+   */
+  async findByName(query: string, birthDate?: string, limit = this.DEFAULT_NAME_RESULTS): Promise<NameSearchResult> {
+    const tokens = Array.from(new Set(nameTokens(query ?? '')));
+    if (!tokens.length) {
+      throw new BadRequestException(`В запросе нет слов ФИО: "${query ?? ''}"`);
+    }
+    
+    let birth: string | undefined;
+    if (birthDate) {
+      birth = normalizeBirthDate(birthDate) ?? undefined;
+      if (!birth) {
+        throw new BadRequestException(`Неверный формат даты рождения: ${birthDate}`);
+      }
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.MAX_NAME_RESULTS) {
+      throw new BadRequestException(`Число результатов должно быть от 1 до ${this.MAX_NAME_RESULTS}: ${limit}`);
+    }
+    
+    const matches: NameSearchMatch[] = [];
+    const databasesSearched = await this.forEachSecondaryIndex('name', async (databaseId, metadata, scheme) => {
+      const ranked = await this.rankNameCandidates(databaseId, metadata.buildId, scheme, tokens, birth, limit);
+      const records = await this.readRecordsByPhone(databaseId, metadata, Array.from(ranked.keys()));
+      // Запись могла быть схлопнута с повтором номера: сходство считается заново по записям
+      for (const [phone, entry] of records) {
+        let best: { record: IndexedRecord; score: number } | undefined;
+        for (const record of entryRecords(entry)) {
+          const score = nameScore(tokens, nameTokens(String(record.fullName ?? '')));
+          if (score > (best?.score ?? 0) && (!birth || normalizeBirthDate(String(record.birthDate ?? '')) === birth)) {
+            best = { record, score };
+          }
+        }
+        if (best) {
+          matches.push({ database: databaseId, phone, score: best.score, record: searchRecordOf(entry, best.record) });
+        }
+      }
+    });
+    
+    matches.sort((a, b) => b.score - a.score);
+    this.logger.log(`✅ Поиск по ФИО "${query}": кандидатов ${matches.length} в ${databasesSearched} базах`);
+    return { query, tokens, birthDate: birth, databasesSearched, matches: matches.slice(0, limit) };
+  }
+
+  /**
+   * Номера, в ФИО которых нашлось каждое слово запроса, с оценкой сходства;
+   * не больше limit лучших
+   */
+  private async rankNameCandidates(
+    databaseId: string,
+    buildId: string | undefined,
+    scheme: PartitionScheme,
+    tokens: string[],
+    birthDate: string | undefined,
+    limit: number
+  ): Promise<Map<string, number>> {
+    // Слова индекса, у которых есть общие триграммы со словами запроса
+    const grams = await this.readSecondaryEntries(
+      databaseId, buildId, NAME_GRAMS_INDEX, scheme, Array.from(new Set(tokens.flatMap(trigrams)))
+    );
+    const vocabulary = new Set(Array.from(grams.values()).flat());
+    
+    const similar = tokens.map(token => {
+      const words = new Map<string, number>();
+      for (const word of vocabulary) {
+        const similarity = tokenSimilarity(token, word);
+        if (similarity >= MIN_NAME_SIMILARITY) {
+          words.set(word, similarity);
+        }
+      }
+      return words;
+    });
+    if (similar.some(words => !words.size)) {
+      return new Map();
+    }
+    
+    const postings = await this.readSecondaryEntries(
+      databaseId, buildId, 'name', scheme, Array.from(new Set(similar.flatMap(words => Array.from(words.keys()))))
+    );
+    
+    // Сходство каждого слова запроса с лучшим подходящим словом ФИО номера
+    const scores = new Map<string, number[]>();
+    similar.forEach((words, i) => {
+      for (const [word, similarity] of words) {
+        for (const posting of postings.get(word) ?? []) {
+          const [phone, birth] = posting.split('|');
+          if (birthDate && birth !== birthDate) {
+            continue;
+          }
+          if (!scores.has(phone)) {
+            scores.set(phone, new Array<number>(tokens.length).fill(0));
+          }
+          const phoneScores = scores.get(phone)!;
+          phoneScores[i] = Math.max(phoneScores[i], similarity);
+        }
+      }
+    });
+    
+    const ranked = Array.from(scores)
+      .filter(([, phoneScores]) => phoneScores.every(score => score > 0))
+      .map(([phone, phoneScores]): [string, number] => [
+        phone,
+        Math.round((phoneScores.reduce((sum, score) => sum + score, 0) / tokens.length) * 1000) / 1000
+      ])
+      .sort((a, b) => b[1] - a[1]);
+    return new Map(ranked.slice(0, limit));
+  }
+
+  /**
+   * Вызывает search для каждой включённой базы, где построен индекс field,
+   * и возвращает число таких баз. Ошибка одной базы не прерывает поиск.
+   */
+  private async forEachSecondaryIndex(
+    field: SecondaryIndexField,
+    search: (databaseId: string, metadata: IndexMetadata, scheme: PartitionScheme) => Promise<void>
+  ): Promise<number> {
+    const catalog = await this.searchCatalog.getCatalog();
+    let databasesSearched = 0;
+    
+    for (const databaseId of Object.keys(catalog.databases)) {
+      if (catalog.databases[databaseId].disabled) {
+        continue;
+      }
+      const metadata = await this.readPublishedMetadata(databaseId);
+      const info = metadata?.secondaryIndexes?.[field];
+      if (!metadata || !info) {
+        continue;
+      }
+      databasesSearched++;
+      
+      try {
+        await search(databaseId, metadata, info.partitionScheme);
+      } catch (error) {
+        this.logger.error(`❌ Ошибка поиска по индексу ${field} в базе ${databaseId}: ${error.message}`);
+      }
+    }
+    
+    if (!databasesSearched) {
+      throw new NotFoundException(`Ни в одной базе нет индекса (${SECONDARY_FIELD_LABELS[field]})`);
+    }
+    return databasesSearched;
+  }
+
+  private async readSecondaryEntries(
+    databaseId: string,
+    buildId: string | undefined,
+    index: string,
+    scheme: PartitionScheme,
+    keys: string[]
+  ): Promise<Map<string, string[]>> {
+    const keysByBucket = new Map<string, string[]>();
+    for (const key of keys) {
+      const bucket = partitionKeyOf(key, scheme);
+      keysByBucket.set(bucket, [...(keysByBucket.get(bucket) ?? []), key]);
+    }
+    
+    const found = new Map<string, string[]>();
+    for (const [bucket, bucketKeys] of keysByBucket) {
+      const dir = this.secondaryDir(databaseId, buildId, index, bucket);
+      if (!(await this.storage.objectExists(`${dir}${PARTITION_INDEX_FILE}`))) {
+        continue;
+      }
+      for (const [key, values] of await this.readBlockRecords(databaseId, dir, bucketKeys)) {
+        found.set(key, values);
+      }
+    }
+    return found;
+  }
+
+  private async readRecordsByPhone(databaseId: string, metadata: IndexMetadata, phones: string[]): Promise<Map<string, any>> {
+    const layout = this.layoutOf(metadata);
+    const phonesByPrefix = new Map<string, string[]>();
+    for (const phone of phones) {
+      const prefix = partitionKeyOf(phone, layout.scheme);
+      phonesByPrefix.set(prefix, [...(phonesByPrefix.get(prefix) ?? []), phone]);
+    }
+    
+    const records = new Map<string, any>();
+    for (const [prefix, prefixPhones] of phonesByPrefix) {
+      let found: Map<string, any>;
+      try {
+        found = await this.readPartitionRecords(databaseId, layout, prefix, prefixPhones);
+      } catch (error) {
+        // Загрузка в режиме delete удаляет опустевшую партицию, а вторичные индексы ещё ссылаются на её номера
+        if (await this.storage.prefixExists(this.partitionDir(databaseId, layout, prefix))) {
+          throw error;
+        }
+        continue;
+      }
+      for (const [phone, record] of found) {
+        records.set(phone, record);
+      }
+    }
+    return records;
+  }
+
+  private async getOriginalFileName(databaseId: string): Promise<string | undefined> {
+    try {
+      const metadata: IndexMetadata = await this.readJsonFile(`${databaseId}/metadata.json`);
+      return metadata.originalFileName;
+    } catch {
+      return undefined;
+    }
+  }
+}
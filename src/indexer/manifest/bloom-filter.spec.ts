@@ -0,0 +1,25 @@
+import { BloomFilter } from './bloom-filter';
+
+describe('BloomFilter', () => {
+  const keys = Array.from(
+    { length: 5000 },
+    (_, i) => `7916${String(i * 7).padStart(7, '0')}`,
+  );
+
+  it('never rejects an added key, including after serialization', () => {
+    const filter = BloomFilter.fromJSON(BloomFilter.fromKeys(keys).toJSON());
+    expect(keys.every((key) => filter.mightContain(key))).toBe(true);
+  });
+
+  it('keeps the false positive rate near the target', () => {
+    const filter = BloomFilter.fromKeys(keys, 0.01);
+    const probes = Array.from(
+      { length: 10000 },
+      (_, i) => `7495${String(i).padStart(7, '0')}`,
+    );
+    const falsePositives = probes.filter((key) =>
+      filter.mightContain(key),
+    ).length;
+    expect(falsePositives / probes.length).toBeLessThan(0.03);
+  });
+});
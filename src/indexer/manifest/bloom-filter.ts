@@ -0,0 +1,79 @@
+import { SerializedBloomFilter } from '../types/index.types';
+
+/**
+ * Фильтр Блума по номерам партиции: «нет» — точно нет, «да» — вероятно есть.
+ * k хешей получаются двойным хешированием из двух 32-битных хешей.
+ */
+export class BloomFilter {
+  private constructor(
+    private readonly bits: Uint8Array,
+    private readonly size: number,
+    private readonly hashes: number,
+  ) {}
+
+  static forCapacity(capacity: number, falsePositiveRate = 0.01): BloomFilter {
+    const n = Math.max(capacity, 1);
+    const size = Math.max(
+      64,
+      Math.ceil((-n * Math.log(falsePositiveRate)) / Math.LN2 ** 2),
+    );
+    const hashes = Math.max(1, Math.round((size / n) * Math.LN2));
+    return new BloomFilter(new Uint8Array(Math.ceil(size / 8)), size, hashes);
+  }
+
+  static fromKeys(keys: string[], falsePositiveRate = 0.01): BloomFilter {
+    const filter = BloomFilter.forCapacity(keys.length, falsePositiveRate);
+    for (const key of keys) {
+      filter.add(key);
+    }
+    return filter;
+  }
+
+  static fromJSON(data: SerializedBloomFilter): BloomFilter {
+    return new BloomFilter(
+      new Uint8Array(Buffer.from(data.bits, 'base64')),
+      data.size,
+      data.hashes,
+    );
+  }
+
+  add(key: string): void {
+    const [h1, h2] = this.hashPair(key);
+    for (let i = 0; i < this.hashes; i++) {
+      const bit = (h1 + i * h2) % this.size;
+      this.bits[bit >>> 3] |= 1 << (bit & 7);
+    }
+  }
+
+  mightContain(key: string): boolean {
+    const [h1, h2] = this.hashPair(key);
+    for (let i = 0; i < this.hashes; i++) {
+      const bit = (h1 + i * h2) % this.size;
+      if (!(this.bits[bit >>> 3] & (1 << (bit & 7)))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  toJSON(): SerializedBloomFilter {
+    return {
+      size: this.size,
+      hashes: this.hashes,
+      bits: Buffer.from(this.bits).toString('base64'),
+    };
+  }
+
+  private hashPair(key: string): [number, number] {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x9747b28c;
+    for (let i = 0; i < key.length; i++) {
+      const c = key.charCodeAt(i);
+      h1 = Math.imul(h1 ^ c, 0x01000193);
+      h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+      h2 ^= h2 >>> 15;
+    }
+    // Второй хеш нечётный, чтобы шаг не вырождался в ноль
+    return [h1 >>> 0, (h2 | 1) >>> 0];
+  }
+}
@@ -0,0 +1,286 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { STORAGE_BACKEND, StorageBackend } from '../storage/storage.types';
+import {
+  CatalogEntry,
+  DatabaseManifest,
+  SearchCatalog,
+} from '../types/index.types';
+import { BloomFilter } from './bloom-filter';
+import {
+  partitionKeyOf,
+  partitionSchemeOf,
+} from '../partitioning/partition-scheme';
+import { partitionFormatOf } from '../partitioning/partition-format';
+
+const CATALOG_KEY = 'catalog.json';
+// Настройки базы (название, теги, включена ли в поиск) лежат рядом с metadata.json
+export const DATABASE_SETTINGS_FILE = 'settings.json';
+// Каталог могли обновить другие экземпляры сервиса
+const CATALOG_TTL = 60 * 1000;
+
+/**
+ * Глобальный каталог баз и манифесты префиксов. По ним поиск выбирает
+ * только базы, в которых номер может быть, не перебирая хранилище.
+ */
+@Injectable()
+export class SearchCatalogService {
+  private readonly logger = new Logger(SearchCatalogService.name);
+  private catalog: SearchCatalog | null = null;
+  private catalogLoadedAt = 0;
+  private readonly filters = new Map<
+    string,
+    { updatedAt: string; prefixes: Map<string, BloomFilter> }
+  >();
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+  ) {}
+
+  async getCatalog(): Promise<SearchCatalog> {
+    if (this.catalog && Date.now() - this.catalogLoadedAt < CATALOG_TTL) {
+      return this.catalog;
+    }
+
+    if (await this.storage.objectExists(CATALOG_KEY)) {
+      try {
+        const data = await this.storage.readObject(CATALOG_KEY);
+        return this.cacheCatalog(
+          JSON.parse(data.toString('utf8')) as SearchCatalog,
+        );
+      } catch (error) {
+        this.logger.error(
+          `❌ Каталог поврежден, собираем заново: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return this.rebuildCatalog();
+  }
+
+  /**
+   * Собирает каталог по списку баз в хранилище и их манифестам
+   */
+  async rebuildCatalog(): Promise<SearchCatalog> {
+    // База без metadata.json ещё не опубликована: первая сборка идёт или упала
+    const databases: string[] = [];
+    for (const folder of await this.storage.listFolders()) {
+      if (await this.storage.objectExists(`${folder}/metadata.json`)) {
+        databases.push(folder);
+      }
+    }
+    const catalog: SearchCatalog = {
+      updatedAt: new Date().toISOString(),
+      databases: {},
+    };
+
+    for (const databaseId of databases) {
+      const manifest = await this.readManifest(databaseId);
+      const disabled = await this.readDisabled(databaseId);
+      catalog.databases[databaseId] = manifest
+        ? this.toEntry(manifest, disabled)
+        : {
+            updatedAt: catalog.updatedAt,
+            totalRecords: 0,
+            prefixes: [],
+            hasManifest: false,
+            disabled,
+          };
+    }
+
+    const legacy = Object.values(catalog.databases).filter(
+      (entry) => !entry.hasManifest,
+    ).length;
+    this.logger.log(
+      `📚 Каталог собран: ${databases.length} баз, без манифеста: ${legacy}`,
+    );
+
+    await this.writeCatalog(catalog);
+    return catalog;
+  }
+
+  /**
+   * Сохраняет манифест базы и обновляет её запись в каталоге
+   */
+  async saveManifest(manifest: DatabaseManifest): Promise<void> {
+    await this.storage.writeObject(
+      `${manifest.databaseId}/manifest.json`,
+      JSON.stringify(manifest),
+      'application/json',
+    );
+    this.filters.delete(manifest.databaseId);
+
+    const catalog = await this.getCatalog();
+    catalog.databases[manifest.databaseId] = this.toEntry(
+      manifest,
+      catalog.databases[manifest.databaseId]?.disabled,
+    );
+    catalog.updatedAt = new Date().toISOString();
+    await this.writeCatalog(catalog);
+
+    this.logger.log(
+      `📚 Манифест базы ${manifest.databaseId} сохранён: ${Object.keys(manifest.prefixes).length} префиксов`,
+    );
+  }
+
+  async removeDatabase(databaseId: string): Promise<void> {
+    const catalog = await this.getCatalog();
+    if (!catalog.databases[databaseId]) {
+      return;
+    }
+    delete catalog.databases[databaseId];
+    catalog.updatedAt = new Date().toISOString();
+    this.filters.delete(databaseId);
+    await this.writeCatalog(catalog);
+  }
+
+  /**
+   * Включает или исключает базу из поиска. Флаг хранится в настройках базы,
+   * каталог лишь повторяет его, чтобы поиск не читал настройки каждой базы.
+   */
+  async setDisabled(databaseId: string, disabled: boolean): Promise<void> {
+    const catalog = await this.getCatalog();
+    const entry = catalog.databases[databaseId];
+    if (!entry || Boolean(entry.disabled) === disabled) {
+      return;
+    }
+    entry.disabled = disabled || undefined;
+    catalog.updatedAt = new Date().toISOString();
+    await this.writeCatalog(catalog);
+
+    this.logger.log(
+      `${disabled ? '⏸️' : '▶️'} База ${databaseId} ${disabled ? 'исключена из поиска' : 'снова участвует в поиске'}`,
+    );
+  }
+
+  /**
+   * Базы, в которых номер может быть: префикс есть и фильтр Блума не исключает
+   * номер. Ключ номера считается для каждой базы (keyOf), ведь номер без кода
+   * страны читается в регионе базы; базы, где номер не распознан, пропускаются.
+   * Возвращает ключ номера в каждой подходящей базе.
+   */
+  async findCandidates(
+    keyOf: (entry: CatalogEntry) => string | null,
+  ): Promise<Map<string, string>> {
+    const catalog = await this.getCatalog();
+    const candidates = new Map<string, string>();
+
+    for (const [databaseId, entry] of Object.entries(catalog.databases)) {
+      const phone = entry.disabled ? null : keyOf(entry);
+      if (phone && (await this.mightContain(databaseId, entry, phone))) {
+        candidates.set(databaseId, phone);
+      }
+    }
+
+    return candidates;
+  }
+
+  async mightContain(
+    databaseId: string,
+    entry: CatalogEntry,
+    phone: string,
+  ): Promise<boolean> {
+    if (!entry.hasManifest) {
+      return true;
+    }
+
+    const prefix = partitionKeyOf(phone, partitionSchemeOf(entry));
+    if (!entry.prefixes.includes(prefix)) {
+      return false;
+    }
+
+    const filters = await this.getFilters(databaseId, entry);
+    const filter = filters?.get(prefix);
+    return !filter || filter.mightContain(phone);
+  }
+
+  private async getFilters(
+    databaseId: string,
+    entry: CatalogEntry,
+  ): Promise<Map<string, BloomFilter> | null> {
+    const cached = this.filters.get(databaseId);
+    if (cached && cached.updatedAt === entry.updatedAt) {
+      return cached.prefixes;
+    }
+
+    const manifest = await this.readManifest(databaseId);
+    if (!manifest) {
+      return null;
+    }
+
+    const prefixes = new Map<string, BloomFilter>();
+    for (const [prefix, info] of Object.entries(manifest.prefixes)) {
+      prefixes.set(prefix, BloomFilter.fromJSON(info.filter));
+    }
+    this.filters.set(databaseId, { updatedAt: manifest.updatedAt, prefixes });
+    return prefixes;
+  }
+
+  private async readManifest(
+    databaseId: string,
+  ): Promise<DatabaseManifest | null> {
+    const key = `${databaseId}/manifest.json`;
+    try {
+      if (!(await this.storage.objectExists(key))) {
+        return null;
+      }
+      const data = await this.storage.readObject(key);
+      return JSON.parse(data.toString('utf8')) as DatabaseManifest;
+    } catch (error) {
+      this.logger.error(
+        `❌ Ошибка чтения манифеста ${key}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async readDisabled(databaseId: string): Promise<true | undefined> {
+    const key = `${databaseId}/${DATABASE_SETTINGS_FILE}`;
+    try {
+      if (!(await this.storage.objectExists(key))) {
+        return undefined;
+      }
+      const data = await this.storage.readObject(key);
+      const settings = JSON.parse(data.toString('utf8')) as {
+        enabled?: boolean;
+      };
+      return settings.enabled === false || undefined;
+    } catch (error) {
+      this.logger.error(
+        `❌ Ошибка чтения настроек ${key}: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  private toEntry(
+    manifest: DatabaseManifest,
+    disabled?: boolean,
+  ): CatalogEntry {
+    return {
+      updatedAt: manifest.updatedAt,
+      totalRecords: manifest.totalRecords,
+      partitionScheme: partitionSchemeOf(manifest),
+      partitionFormat: partitionFormatOf(manifest),
+      buildId: manifest.buildId,
+      phoneRegion: manifest.phoneRegion,
+      prefixes: Object.keys(manifest.prefixes).sort(),
+      hasManifest: true,
+      disabled: disabled || undefined,
+    };
+  }
+
+  private async writeCatalog(catalog: SearchCatalog): Promise<void> {
+    await this.storage.writeObject(
+      CATALOG_KEY,
+      JSON.stringify(catalog),
+      'application/json',
+    );
+    this.cacheCatalog(catalog);
+  }
+
+  private cacheCatalog(catalog: SearchCatalog): SearchCatalog {
+    this.catalog = catalog;
+    this.catalogLoadedAt = Date.now();
+    return catalog;
+  }
+}
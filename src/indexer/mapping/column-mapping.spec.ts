@@ -0,0 +1,109 @@
+import { BadRequestException } from '@nestjs/common';
+import { findColumn, resolveColumnMapping } from './column-mapping';
+
+describe('resolveColumnMapping', () => {
+  const headers = ['Фамилия', 'Имя', 'Телефон', 'E-mail'];
+
+  const errorOf = (run: () => unknown) => {
+    try {
+      run();
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      return (error as BadRequestException).getResponse() as {
+        errors: string[];
+        headers: string[];
+      };
+    }
+    throw new Error('Ожидалась ошибка описания колонок');
+  };
+
+  it('maps fields by header name and index', () => {
+    expect(
+      resolveColumnMapping(headers, {
+        fieldMapping: { lastName: '"фамилия"', phone: 2, email: '3' },
+        delimiter: ';',
+      }),
+    ).toEqual({
+      delimiter: ';',
+      phoneIndex: 2,
+      fields: { lastName: 0, phone: 2, email: 3 },
+    });
+  });
+
+  it('reports every unknown field and missing column at once', () => {
+    const response = errorOf(() =>
+      resolveColumnMapping(headers, {
+        fieldMapping: {
+          lastName: 'Отчество',
+          phone: 7,
+          passport: 'Паспорт',
+        } as never,
+      }),
+    );
+
+    expect(response.headers).toEqual(headers);
+    expect(response.errors).toEqual([
+      'Колонка "Отчество" для поля lastName не найдена среди заголовков: Фамилия, Имя, Телефон, E-mail',
+      'Колонка "7" для поля phone не найдена среди заголовков: Фамилия, Имя, Телефон, E-mail',
+      expect.stringContaining('Неизвестное поле passport'),
+    ]);
+  });
+
+  it('requires a phone column in an explicit mapping', () => {
+    expect(
+      errorOf(() =>
+        resolveColumnMapping(headers, { fieldMapping: { lastName: 0 } }),
+      ).errors,
+    ).toEqual([
+      'Не указана колонка с телефоном (phoneColumn или fieldMapping.phone)',
+    ]);
+  });
+
+  it('falls back to the legacy positions without a mapping', () => {
+    const legacy = ['Ф', 'И', 'О', 'ДР', 'Тел', 'СНИЛС', 'ИНН', 'Email'];
+
+    expect(resolveColumnMapping(legacy, {})).toEqual({
+      delimiter: '|',
+      phoneIndex: 4,
+      fields: {
+        lastName: 0,
+        firstName: 1,
+        middleName: 2,
+        birthDate: 3,
+        phone: 4,
+        snils: 5,
+        inn: 6,
+        email: 7,
+      },
+    });
+    expect(errorOf(() => resolveColumnMapping(headers, {})).errors).toEqual([
+      'В файле 4 колонок, а телефон по умолчанию ожидается в колонке 5. Укажите phoneColumn',
+    ]);
+  });
+
+  it('moves only the phone column with phoneColumn', () => {
+    expect(resolveColumnMapping(headers, { phoneColumn: 'телефон' })).toEqual({
+      delimiter: '|',
+      phoneIndex: 2,
+      fields: { lastName: 0, firstName: 1, birthDate: 3, phone: 2 },
+    });
+  });
+});
+
+describe('findColumn', () => {
+  const headers = ['\uFEFF"Phone"', 'Email'];
+
+  it('ignores the BOM, quotes and case of headers', () => {
+    expect(findColumn(headers, 'phone')).toBe(0);
+    expect(findColumn(headers, ' EMAIL ')).toBe(1);
+  });
+
+  it('accepts indexes as numbers or numeric strings within the headers', () => {
+    expect(findColumn(headers, 1)).toBe(1);
+    expect(findColumn(headers, '1')).toBe(1);
+    expect(findColumn(headers, 2)).toBeUndefined();
+    expect(findColumn(headers, -1)).toBeUndefined();
+    expect(findColumn(headers, 1.5)).toBeUndefined();
+    expect(findColumn(headers, 'inn')).toBeUndefined();
+  });
+});
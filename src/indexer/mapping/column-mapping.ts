@@ -0,0 +1,154 @@
+import { BadRequestException } from '@nestjs/common';
+import { ColumnMappingDto } from '../dto/create-index.dto';
+import {
+  CanonicalField,
+  ColumnRef,
+  ResolvedColumnMapping,
+} from '../types/index.types';
+
+export const CANONICAL_FIELDS: CanonicalField[] = [
+  'lastName',
+  'firstName',
+  'middleName',
+  'birthDate',
+  'phone',
+  'snils',
+  'inn',
+  'email',
+];
+
+export const DEFAULT_DELIMITER = '|';
+
+// Раскладка выгрузок по умолчанию: ФИО, дата рождения, телефон, СНИЛС, ИНН, email
+const LEGACY_POSITIONS: Record<CanonicalField, number> = {
+  lastName: 0,
+  firstName: 1,
+  middleName: 2,
+  birthDate: 3,
+  phone: 4,
+  snils: 5,
+  inn: 6,
+  email: 7,
+};
+
+/**
+ * Сопоставляет описание колонок с заголовками файла.
+ * Без fieldMapping используется раскладка по умолчанию (телефон — пятая колонка),
+ * phoneColumn при этом переопределяет только колонку телефона.
+ * Все ошибки собираются и возвращаются одним BadRequestException.
+ */
+export function resolveColumnMapping(
+  headers: string[],
+  options: ColumnMappingDto,
+): ResolvedColumnMapping {
+  const errors: string[] = [];
+  const fields: Partial<Record<CanonicalField, number>> = {};
+
+  const resolveRef = (field: string, ref: ColumnRef): number | undefined => {
+    const index = findColumn(headers, ref);
+    if (index === undefined) {
+      errors.push(
+        `Колонка "${ref}" для поля ${field} не найдена среди заголовков: ${headers.join(', ')}`,
+      );
+    }
+    return index;
+  };
+
+  if (options.fieldMapping) {
+    for (const [field, ref] of Object.entries(options.fieldMapping)) {
+      if (!CANONICAL_FIELDS.includes(field as CanonicalField)) {
+        errors.push(
+          `Неизвестное поле ${field}. Допустимые поля: ${CANONICAL_FIELDS.join(', ')}`,
+        );
+        continue;
+      }
+      if (ref === undefined || ref === null || ref === '') {
+        continue;
+      }
+      const index = resolveRef(field, ref);
+      if (index !== undefined) {
+        fields[field as CanonicalField] = index;
+      }
+    }
+  } else {
+    for (const field of CANONICAL_FIELDS) {
+      if (LEGACY_POSITIONS[field] < headers.length) {
+        fields[field] = LEGACY_POSITIONS[field];
+      }
+    }
+  }
+
+  if (options.phoneColumn !== undefined && options.phoneColumn !== '') {
+    const index = resolveRef('phone', options.phoneColumn);
+    if (index !== undefined) {
+      fields.phone = index;
+
+      // Позиция по умолчанию не должна указывать на колонку телефона
+      if (!options.fieldMapping) {
+        for (const field of CANONICAL_FIELDS) {
+          if (field !== 'phone' && fields[field] === index) {
+            delete fields[field];
+          }
+        }
+      }
+    }
+  }
+
+  if (fields.phone === undefined && !errors.length) {
+    errors.push(
+      options.fieldMapping || options.phoneColumn !== undefined
+        ? 'Не указана колонка с телефоном (phoneColumn или fieldMapping.phone)'
+        : `В файле ${headers.length} колонок, а телефон по умолчанию ожидается в колонке ${LEGACY_POSITIONS.phone + 1}. Укажите phoneColumn`,
+    );
+  }
+
+  if (errors.length) {
+    throw new BadRequestException({
+      message: 'Описание колонок не соответствует заголовкам файла',
+      errors,
+      headers,
+    });
+  }
+
+  return {
+    delimiter: options.delimiter || DEFAULT_DELIMITER,
+    phoneIndex: fields.phone as number,
+    fields,
+  };
+}
+
+/**
+ * Находит колонку по имени заголовка (без учёта регистра и кавычек) или индексу
+ */
+export function findColumn(
+  headers: string[],
+  ref: ColumnRef,
+): number | undefined {
+  if (typeof ref === 'number') {
+    return Number.isInteger(ref) && ref >= 0 && ref < headers.length
+      ? ref
+      : undefined;
+  }
+
+  const wanted = normalizeHeader(ref);
+  const byName = headers.findIndex(
+    (header) => normalizeHeader(header) === wanted,
+  );
+  if (byName !== -1) {
+    return byName;
+  }
+
+  // Индекс мог прийти строкой из query-параметров или формы
+  if (/^\d+$/.test(ref.trim())) {
+    return findColumn(headers, parseInt(ref, 10));
+  }
+
+  return undefined;
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .replace(/^[\uFEFF"']+|["']+$/g, '')
+    .trim()
+    .toLowerCase();
+}
@@ -0,0 +1,50 @@
+import {
+  batchRange,
+  encodeSegment,
+  planMergeBatches,
+  readSegmentGroup,
+} from './build-segments';
+import { BuildSegment } from '../types/index.types';
+
+describe('build segments', () => {
+  const segmentOf = (
+    key: string,
+    groups: Record<string, Record<string, unknown>>,
+  ) => {
+    const { data, slices } = encodeSegment(groups);
+    return { segment: { key, slices } as BuildSegment, data };
+  };
+
+  it('reads each group back from a batch range in insertion order', () => {
+    const { segment, data } = segmentOf('s0', {
+      h1: { '79160000002': ['b'], '79160000001': ['a'] },
+      h0: { '79160000000': ['c'] },
+      'secondary/email/h0': { 'a@b.ru': ['79160000001'] },
+    });
+
+    const range = batchRange(segment, ['h0', 'h1'])!;
+    const slice = data.subarray(range.offset, range.offset + range.length);
+    const group = readSegmentGroup(segment, 'h1', range, slice)!;
+
+    expect([...group.keys()]).toEqual(['79160000002', '79160000001']);
+    expect(
+      readSegmentGroup(segment, 'h0', range, slice)!.get('79160000000'),
+    ).toEqual(['c']);
+    expect(readSegmentGroup(segment, 'h2', range, slice)).toBeNull();
+    expect(batchRange(segment, ['h2'])).toBeNull();
+  });
+
+  it('splits sorted group names into batches by compressed size', () => {
+    const first = segmentOf('s0', { h0: { a: 1 }, h1: { b: 2 }, h2: { c: 3 } });
+    const second = segmentOf('s1', { h1: { d: 4 }, h3: { e: 5 } });
+    const segments = [first.segment, second.segment];
+
+    expect(planMergeBatches(segments)).toEqual([['h0', 'h1', 'h2', 'h3']]);
+    expect(planMergeBatches(segments, 1)).toEqual([
+      ['h0'],
+      ['h1'],
+      ['h2'],
+      ['h3'],
+    ]);
+  });
+});
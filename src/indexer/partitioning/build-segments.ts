@@ -0,0 +1,104 @@
+import { gzipSync } from 'zlib';
+import { BuildSegment, SegmentSlice } from '../types/index.types';
+import { decodeBlock } from './partition-format';
+
+export const SEGMENTS_FOLDER = 'segments';
+export const SEGMENT_FILE_EXTENSION = '.ndjson.gz';
+
+// Сжатых данных всех сегментов, которые держатся в памяти за один пакет слияния
+export const MERGE_BATCH_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Сегмент сброса буфера: записи каждой группы (партиции или корзины
+ * дополнительного индекса) — отдельный gzip-поток NDJSON, группы по порядку имён
+ */
+export function encodeSegment(
+  groups: Record<string, Record<string, unknown>>,
+): { data: Buffer; slices: Map<string, SegmentSlice> } {
+  const slices = new Map<string, SegmentSlice>();
+  const chunks: Buffer[] = [];
+  let offset = 0;
+
+  for (const name of Object.keys(groups).sort()) {
+    const lines = Object.entries(groups[name]).map((entry) =>
+      JSON.stringify(entry),
+    );
+    const chunk = gzipSync(lines.join('\n') + '\n');
+    slices.set(name, { offset, length: chunk.length });
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+
+  return { data: Buffer.concat(chunks), slices };
+}
+
+/**
+ * Делит группы на пакеты слияния по порядку имён. Группы пакета лежат
+ * в каждом сегменте подряд, поэтому читаются одним диапазоном.
+ */
+export function planMergeBatches(
+  segments: BuildSegment[],
+  maxBytes = MERGE_BATCH_BYTES,
+): string[][] {
+  const sizes = new Map<string, number>();
+  for (const segment of segments) {
+    for (const [name, slice] of segment.slices) {
+      sizes.set(name, (sizes.get(name) ?? 0) + slice.length);
+    }
+  }
+
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let bytes = 0;
+  for (const name of [...sizes.keys()].sort()) {
+    const size = sizes.get(name)!;
+    if (batch.length && bytes + size > maxBytes) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(name);
+    bytes += size;
+  }
+  if (batch.length) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Диапазон сегмента с группами пакета; null, если их в сегменте нет
+ */
+export function batchRange(
+  segment: BuildSegment,
+  batch: string[],
+): SegmentSlice | null {
+  let start = Infinity;
+  let end = -1;
+  for (const name of batch) {
+    const slice = segment.slices.get(name);
+    if (slice) {
+      start = Math.min(start, slice.offset);
+      end = Math.max(end, slice.offset + slice.length);
+    }
+  }
+  return end < 0 ? null : { offset: start, length: end - start };
+}
+
+/**
+ * Записи группы из прочитанного диапазона сегмента в порядке добавления;
+ * null, если группы в сегменте нет
+ */
+export function readSegmentGroup(
+  segment: BuildSegment,
+  name: string,
+  range: SegmentSlice,
+  data: Buffer,
+): Map<string, unknown> | null {
+  const slice = segment.slices.get(name);
+  if (!slice) {
+    return null;
+  }
+  const from = slice.offset - range.offset;
+  return decodeBlock(data.subarray(from, from + slice.length));
+}
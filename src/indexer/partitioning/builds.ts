@@ -0,0 +1,37 @@
+import { randomBytes } from 'crypto';
+
+export const BUILDS_FOLDER = 'builds';
+
+/**
+ * Идентификатор сборки: сортируется по времени создания
+ */
+export function newBuildId(date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, '');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Папка с партициями сборки; без сборки — партиции старого индекса в корне базы
+ */
+export function partitionRoot(databaseId: string, buildId?: string): string {
+  return buildId
+    ? `${databaseId}/${BUILDS_FOLDER}/${buildId}/`
+    : `${databaseId}/`;
+}
+
+const DEFAULT_BUILDS_TO_KEEP = 2;
+
+/**
+ * Число предыдущих версий, сохраняемых для отката
+ */
+export function buildsToKeep(
+  value: string | undefined = process.env.INDEX_BUILDS_TO_KEEP,
+): number {
+  const count = Number(value);
+  return value !== undefined && Number.isInteger(count) && count >= 0
+    ? count
+    : DEFAULT_BUILDS_TO_KEEP;
+}
@@ -0,0 +1,66 @@
+import { gunzipSync } from 'zlib';
+import {
+  decodeBlock,
+  decodePartition,
+  encodePartition,
+  findBlocks,
+  findBlocksWithPrefix,
+} from './partition-format';
+
+describe('partition format', () => {
+  const records: Record<string, any> = {};
+  for (let i = 0; i < 2000; i++) {
+    const key = `7916${String((i * 7919) % 10000000).padStart(7, '0')}`;
+    records[key] = { lastName: `Фамилия ${i}`, phone: key };
+  }
+
+  it('round-trips a partition split into sorted blocks', () => {
+    const { index, data } = encodePartition(records);
+
+    expect(index.count).toBe(2000);
+    expect(index.blocks.length).toBeGreaterThan(1);
+    expect(decodePartition(index, data)).toEqual(records);
+    for (let i = 1; i < index.blocks.length; i++) {
+      expect(index.blocks[i].firstKey > index.blocks[i - 1].lastKey).toBe(true);
+    }
+  });
+
+  it('reads a single record from its block only', () => {
+    const { index, data } = encodePartition(records);
+    const key = Object.keys(records)[1234];
+    const missing = '79169999999';
+
+    const blocks = findBlocks(index, [key, missing]);
+    const [[block, keys]] = [...blocks];
+    expect(keys).toContain(key);
+
+    const chunk = data.subarray(block.offset, block.offset + block.length);
+    expect(decodeBlock(chunk).get(key)).toEqual(records[key]);
+  });
+
+  it('limits a prefix scan to the blocks that can hold the prefix', () => {
+    const { index, data } = encodePartition(records);
+    const prefix = Object.keys(records)[500].slice(0, 7);
+    const blocks = findBlocksWithPrefix(index, prefix);
+    expect(blocks.length).toBeLessThan(index.blocks.length);
+
+    const found = blocks.flatMap((block) => [
+      ...decodeBlock(
+        data.subarray(block.offset, block.offset + block.length),
+      ).keys(),
+    ]);
+    const expected = Object.keys(records).filter((key) =>
+      key.startsWith(prefix),
+    );
+    expect(expected.length).toBeGreaterThan(0);
+    expect(found.filter((key) => key.startsWith(prefix)).sort()).toEqual(
+      expected.sort(),
+    );
+  });
+
+  it('keeps the whole file readable as plain gzipped NDJSON', () => {
+    const { data } = encodePartition(records);
+    const lines = gunzipSync(data).toString('utf8').trim().split('\n');
+    expect(lines).toHaveLength(2000);
+  });
+});
@@ -0,0 +1,161 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+  PartitionBlock,
+  PartitionFormat,
+  PartitionIndex,
+} from '../types/index.types';
+
+export const LEGACY_PARTITION_FORMAT: PartitionFormat = 'json';
+export const CURRENT_PARTITION_FORMAT: PartitionFormat = 'ndjson-gzip-v1';
+
+export const LEGACY_DATA_FILE = 'data.json';
+export const PARTITION_INDEX_FILE = 'index.json';
+export const PARTITION_RECORDS_FILE = 'records.ndjson.gz';
+
+// Размер блока до сжатия: за один запрос читается несколько килобайт
+const BLOCK_TARGET_BYTES = 16 * 1024;
+
+/**
+ * Формат из метаданных или манифеста; без него — старый data.json
+ */
+export function partitionFormatOf(source?: {
+  partitionFormat?: PartitionFormat;
+}): PartitionFormat {
+  return source?.partitionFormat ?? LEGACY_PARTITION_FORMAT;
+}
+
+/**
+ * Файл, по которому видно, что партиция записана: в новом формате
+ * индекс пишется последним
+ */
+export function partitionEntryFile(format: PartitionFormat): string {
+  return format === LEGACY_PARTITION_FORMAT
+    ? LEGACY_DATA_FILE
+    : PARTITION_INDEX_FILE;
+}
+
+/**
+ * Сортирует записи по номеру и сжимает блоками. Каждый блок — отдельный
+ * gzip-поток, поэтому его можно прочитать по смещению, а файл целиком
+ * распаковывается как обычный NDJSON.
+ */
+export function encodePartition(records: Record<string, any>): {
+  index: PartitionIndex;
+  data: Buffer;
+} {
+  const keys = Object.keys(records).sort();
+  const blocks: PartitionBlock[] = [];
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  let lines: string[] = [];
+  let lineBytes = 0;
+  let firstKey = '';
+
+  const flush = (lastKey: string) => {
+    const chunk = gzipSync(lines.join('\n') + '\n');
+    blocks.push({
+      firstKey,
+      lastKey,
+      offset,
+      length: chunk.length,
+      count: lines.length,
+    });
+    chunks.push(chunk);
+    offset += chunk.length;
+    lines = [];
+    lineBytes = 0;
+  };
+
+  keys.forEach((key, i) => {
+    if (!lines.length) {
+      firstKey = key;
+    }
+    const line = JSON.stringify([key, records[key]]);
+    lines.push(line);
+    lineBytes += Buffer.byteLength(line);
+
+    if (lineBytes >= BLOCK_TARGET_BYTES || i === keys.length - 1) {
+      flush(key);
+    }
+  });
+
+  return {
+    index: { format: CURRENT_PARTITION_FORMAT, count: keys.length, blocks },
+    data: Buffer.concat(chunks),
+  };
+}
+
+/**
+ * Группирует номера по блокам, в которых они могут лежать.
+ * Номера вне диапазонов блоков отбрасываются без чтения.
+ */
+export function findBlocks(
+  index: PartitionIndex,
+  keys: string[],
+): Map<PartitionBlock, string[]> {
+  const found = new Map<PartitionBlock, string[]>();
+
+  for (const key of keys) {
+    let low = 0;
+    let high = index.blocks.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const block = index.blocks[mid];
+      if (key < block.firstKey) {
+        high = mid - 1;
+      } else if (key > block.lastKey) {
+        low = mid + 1;
+      } else {
+        if (!found.has(block)) {
+          found.set(block, []);
+        }
+        found.get(block)!.push(key);
+        break;
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Блоки, в которых могут лежать ключи с началом prefix: блоки
+ * отсортированы, поэтому это непрерывный отрезок
+ */
+export function findBlocksWithPrefix(
+  index: PartitionIndex,
+  prefix: string,
+): PartitionBlock[] {
+  return index.blocks.filter(
+    (block) =>
+      block.lastKey.slice(0, prefix.length) >= prefix &&
+      block.firstKey.slice(0, prefix.length) <= prefix,
+  );
+}
+
+export function decodeBlock(chunk: Buffer): Map<string, unknown> {
+  const records = new Map<string, unknown>();
+  for (const line of gunzipSync(chunk).toString('utf8').split('\n')) {
+    if (!line) continue;
+    const [key, record] = JSON.parse(line) as [string, unknown];
+    records.set(key, record);
+  }
+  return records;
+}
+
+/**
+ * Распаковывает партицию целиком (дозапись при индексации, сборка манифеста)
+ */
+export function decodePartition(
+  index: PartitionIndex,
+  data: Buffer,
+): Record<string, any> {
+  const records: Record<string, any> = {};
+  for (const block of index.blocks) {
+    const chunk = data.subarray(block.offset, block.offset + block.length);
+    for (const [key, record] of decodeBlock(chunk)) {
+      records[key] = record;
+    }
+  }
+  return records;
+}
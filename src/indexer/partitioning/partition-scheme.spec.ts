@@ -0,0 +1,78 @@
+import {
+  LEGACY_PARTITION_SCHEME,
+  estimateRecordCount,
+  partitionKeyOf,
+  partitionSchemeOf,
+  planPartitionScheme,
+  rescaleHashScheme,
+} from './partition-scheme';
+
+describe('partition scheme', () => {
+  it('keeps the three-digit layout for indexes without a stored scheme', () => {
+    expect(partitionSchemeOf({})).toEqual(LEGACY_PARTITION_SCHEME);
+    expect(partitionKeyOf('79161234567', partitionSchemeOf())).toBe('791');
+  });
+
+  it('uses the configured prefix depth', () => {
+    const scheme = planPartitionScheme({ prefixDepth: 5, estimatedRecords: 1 });
+    expect(partitionKeyOf('79161234567', scheme)).toBe('79161');
+  });
+
+  it('sizes hash buckets for the target partition size and spreads phones evenly', () => {
+    const scheme = planPartitionScheme({
+      type: 'hash',
+      partitionSize: 1000,
+      estimatedRecords: 100000,
+    });
+    expect(scheme).toEqual({ type: 'hash', buckets: 100 });
+
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 100000; i++) {
+      const key = partitionKeyOf(`7916${String(i).padStart(7, '0')}`, scheme);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    expect(counts.size).toBe(100);
+    expect([...counts.keys()].every((key) => /^h\d{2}$/.test(key))).toBe(true);
+    expect(Math.max(...counts.values())).toBeLessThan(1300);
+  });
+
+  it('grows an underestimated hash scheme so each new bucket splits one old bucket', () => {
+    const scheme = { type: 'hash' as const, buckets: 4 };
+    const rescaled = rescaleHashScheme(scheme, 10500, 1000)!;
+    expect(rescaled).toEqual({ type: 'hash', buckets: 12 });
+
+    for (let i = 0; i < 1000; i++) {
+      const phone = `7916${String(i).padStart(7, '0')}`;
+      const bucket = Number(partitionKeyOf(phone, rescaled).slice(1));
+      expect(bucket % 4).toBe(Number(partitionKeyOf(phone, scheme).slice(1)));
+    }
+
+    expect(rescaleHashScheme(scheme, 4000, 1000)).toBeNull();
+    expect(rescaleHashScheme({ type: 'prefix', depth: 3 }, 1e6, 1)).toBeNull();
+    expect(
+      rescaleHashScheme({ type: 'hash', buckets: 40000 }, 1e9, 1),
+    ).toBeNull();
+    expect(rescaleHashScheme({ type: 'hash', buckets: 1 }, 1e9, 1)).toEqual({
+      type: 'hash',
+      buckets: 65536,
+    });
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() =>
+      planPartitionScheme({ prefixDepth: 12, estimatedRecords: 1 }),
+    ).toThrow();
+    expect(() =>
+      planPartitionScheme({
+        type: 'hash',
+        partitionSize: 0,
+        estimatedRecords: 1,
+      }),
+    ).toThrow();
+  });
+
+  it('estimates the number of lines from a sample', () => {
+    const sample = Buffer.from('a|1\nb|2\nc|3\nd|4\n');
+    expect(estimateRecordCount(sample, sample.length * 10)).toBe(40);
+  });
+});
@@ -0,0 +1,135 @@
+import { BadRequestException } from '@nestjs/common';
+import { PartitionScheme, PartitionSchemeType } from '../types/index.types';
+
+const LEGACY_PREFIX_DEPTH = 3;
+
+// Раскладка индексов, созданных до появления настройки
+export const LEGACY_PARTITION_SCHEME: PartitionScheme = {
+  type: 'prefix',
+  depth: LEGACY_PREFIX_DEPTH,
+};
+
+export const DEFAULT_PARTITION_SIZE = 10000;
+export const MAX_PREFIX_DEPTH = 8;
+export const MAX_HASH_BUCKETS = 65536;
+
+/**
+ * Имя папки партиции для нормализованного номера. Корзины хеша
+ * начинаются с буквы и не пересекаются с цифровыми префиксами.
+ */
+export function partitionKeyOf(phone: string, scheme: PartitionScheme): string {
+  if (scheme.type === 'prefix') {
+    return phone.substring(0, scheme.depth);
+  }
+
+  const width = String(scheme.buckets - 1).length;
+  return 'h' + String(hashPhone(phone) % scheme.buckets).padStart(width, '0');
+}
+
+/**
+ * Схема из метаданных или манифеста; без неё — старая раскладка по 3 цифрам
+ */
+export function partitionSchemeOf(source?: {
+  partitionScheme?: PartitionScheme;
+}): PartitionScheme {
+  return source?.partitionScheme ?? LEGACY_PARTITION_SCHEME;
+}
+
+/**
+ * Выбирает схему новой индексации. Для хеша число корзин подбирается так,
+ * чтобы в среднем в партиции было partitionSize записей.
+ */
+export function planPartitionScheme(options: {
+  type?: PartitionSchemeType;
+  prefixDepth?: number;
+  partitionSize?: number;
+  estimatedRecords: number;
+}): PartitionScheme {
+  const type = options.type ?? (options.prefixDepth ? 'prefix' : 'hash');
+
+  if (type === 'prefix') {
+    const depth = options.prefixDepth ?? LEGACY_PREFIX_DEPTH;
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_PREFIX_DEPTH) {
+      throw new BadRequestException(
+        `Глубина префикса должна быть целым числом от 1 до ${MAX_PREFIX_DEPTH}: ${depth}`,
+      );
+    }
+    return { type, depth };
+  }
+
+  if (type !== 'hash') {
+    throw new BadRequestException(
+      `Неизвестная схема партиционирования: ${String(type)}`,
+    );
+  }
+  if (options.prefixDepth !== undefined) {
+    throw new BadRequestException(
+      'Глубина префикса задаётся только для схемы prefix',
+    );
+  }
+
+  const partitionSize = options.partitionSize ?? DEFAULT_PARTITION_SIZE;
+  if (!Number.isInteger(partitionSize) || partitionSize < 1) {
+    throw new BadRequestException(
+      `Размер партиции должен быть положительным целым числом: ${partitionSize}`,
+    );
+  }
+
+  const buckets = Math.min(
+    MAX_HASH_BUCKETS,
+    Math.max(1, Math.ceil(options.estimatedRecords / partitionSize)),
+  );
+  return { type, buckets };
+}
+
+/**
+ * Схема хеша с числом корзин, кратным прежнему, если записей больше, чем
+ * вмещают корзины при partitionSize; null, если корзин хватает.
+ * При кратном числе каждая новая корзина получает номера только одной старой.
+ */
+export function rescaleHashScheme(
+  scheme: PartitionScheme,
+  records: number,
+  partitionSize: number,
+): PartitionScheme | null {
+  if (scheme.type !== 'hash') {
+    return null;
+  }
+
+  const needed = Math.ceil(records / partitionSize);
+  const factor = Math.min(
+    Math.ceil(needed / scheme.buckets),
+    Math.floor(MAX_HASH_BUCKETS / scheme.buckets),
+  );
+  return factor > 1 ? { type: 'hash', buckets: scheme.buckets * factor } : null;
+}
+
+/**
+ * Оценка числа строк файла по началу: средняя длина строки в образце
+ */
+export function estimateRecordCount(sample: Buffer, fileSize: number): number {
+  let lines = 0;
+  for (const byte of sample) {
+    if (byte === 0x0a) lines++;
+  }
+
+  if (sample.length >= fileSize) {
+    return lines + 1;
+  }
+  return Math.ceil(fileSize / (sample.length / Math.max(lines, 1)));
+}
+
+export function describePartitionScheme(scheme: PartitionScheme): string {
+  return scheme.type === 'prefix'
+    ? `по первым ${scheme.depth} цифрам`
+    : `по хешу в ${scheme.buckets} корзин`;
+}
+
+// FNV-1a: быстрый и равномерный для строк из цифр
+function hashPhone(phone: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < phone.length; i++) {
+    hash = Math.imul(hash ^ phone.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,58 @@
+import { PhoneNormalizerService } from './phone-normalizer.service';
+
+describe('PhoneNormalizerService', () => {
+  const normalizer = new PhoneNormalizerService();
+
+  it.each([
+    ['89161234567', '79161234567'],
+    ['8 916 123 45 67', '79161234567'],
+    ['8-916-123-45-67', '79161234567'],
+    ['8 (916) 123-45-67', '79161234567'],
+    ['+7 (916) 123-45-67', '79161234567'],
+    ['+79161234567', '79161234567'],
+    ['79161234567', '79161234567'],
+    ['9161234567', '79161234567'],
+    ['(495) 123-45-67', '74951234567'],
+    ['"89161234567"', '79161234567'],
+    ["'+7 916 123 45 67", '79161234567'],
+    ['="89161234567"', '79161234567'],
+    [' 8 916 123-45-67 ', '79161234567'],
+    ['+7 916 123-45-67 доб. 123', '79161234567'],
+    ['8 (495) 123-45-67 ext 12', '74951234567'],
+    ['+7 916 1234567 x5', '79161234567'],
+    ['8 701 123 45 67', '77011234567'],
+    ['+375 (29) 123-45-67', '375291234567'],
+    ['375291234567', '375291234567'],
+    ['8 10 375 29 123 45 67', '375291234567'],
+    ['00380671234567', '380671234567'],
+    ['+998 90 123 45 67', '998901234567'],
+  ])('normalizes %s', (input, expected) => {
+    expect(normalizer.normalize(input).normalized).toBe(expected);
+  });
+
+  it('uses the region for numbers without a country code', () => {
+    expect(normalizer.toKey('8 029 123-45-67', 'BY')).toBe('375291234567');
+    expect(normalizer.toKey('067 123 45 67', 'UA')).toBe('380671234567');
+    expect(normalizer.normalize('87011234567').region).toBe('KZ');
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['нет телефона', 'empty'],
+    ['12345', 'too_short'],
+    ['+1 212 555 1234', 'unknown_country_code'],
+    ['+375 29 123 45', 'invalid_length'],
+    ['+7 (016) 123-45-67', 'invalid_number'],
+    ['1234567890123456', 'too_long'],
+  ])('rejects %j as %s', (input, reason) => {
+    const result = normalizer.normalize(input);
+    expect(result.normalized).toBeNull();
+    expect(result.reason).toBe(reason);
+    expect(result.message).toBeTruthy();
+  });
+
+  it('formats normalized numbers', () => {
+    expect(normalizer.format('79161234567')).toBe('+7 (916) 123-45-67');
+    expect(normalizer.format('375291234567')).toBe('+375 (29) 123-45-67');
+  });
+});
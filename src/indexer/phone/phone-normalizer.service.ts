@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  PhoneNormalizationResult,
+  PhoneRegion,
+  PhoneRejectionReason,
+} from '../types/index.types';
+import {
+  DEFAULT_PHONE_REGION,
+  formatPhoneNumber,
+  isPhoneRegion,
+  parsePhoneNumber,
+  phoneRegionOf,
+} from './phone-number';
+
+const REJECTION_MESSAGES: Record<PhoneRejectionReason, string> = {
+  empty: 'Номер не содержит цифр',
+  too_short: 'Слишком мало цифр для номера телефона',
+  too_long: 'Слишком много цифр для номера телефона',
+  unknown_country_code: 'Неизвестный код страны',
+  invalid_length: 'Количество цифр не соответствует коду страны',
+  invalid_number: 'Номер с такими первыми цифрами не существует',
+};
+
+/**
+ * Единая нормализация телефонов для индексации и поиска:
+ * ключ партиции, найденный при поиске, совпадает с ключом при индексации.
+ */
+@Injectable()
+export class PhoneNormalizerService {
+  private readonly logger = new Logger(PhoneNormalizerService.name);
+
+  // Регион для номеров без кода страны (PHONE_DEFAULT_REGION)
+  readonly defaultRegion: PhoneRegion;
+
+  constructor() {
+    const region = process.env.PHONE_DEFAULT_REGION?.toUpperCase();
+    if (region && !isPhoneRegion(region)) {
+      this.logger.warn(
+        `⚠️ Неизвестный регион PHONE_DEFAULT_REGION=${region}, используется ${DEFAULT_PHONE_REGION}`,
+      );
+    }
+    this.defaultRegion = isPhoneRegion(region) ? region : DEFAULT_PHONE_REGION;
+  }
+
+  /**
+   * Нормализует номер и объясняет отказ, если номер не распознан
+   */
+  normalize(
+    input: string,
+    region: PhoneRegion = this.defaultRegion,
+  ): PhoneNormalizationResult {
+    const { normalized, reason } = parsePhoneNumber(input, region);
+
+    if (!normalized) {
+      return {
+        input,
+        normalized: null,
+        region: null,
+        reason,
+        message: reason && REJECTION_MESSAGES[reason],
+      };
+    }
+
+    return { input, normalized, region: phoneRegionOf(normalized) };
+  }
+
+  /**
+   * Ключ номера в индексе; null, если номер не распознан
+   */
+  toKey(
+    input: string,
+    region: PhoneRegion = this.defaultRegion,
+  ): string | null {
+    return parsePhoneNumber(input, region).normalized;
+  }
+
+  format(normalized: string): string {
+    return formatPhoneNumber(normalized);
+  }
+}
@@ -0,0 +1,226 @@
+import { PhoneRegion, PhoneRejectionReason } from '../types/index.types';
+
+interface CountryRule {
+  region: PhoneRegion;
+  countryCode: string;
+  nationalLength: number;
+  // Префикс междугородней связи внутри страны (8 в России, 0 в Украине)
+  trunkPrefix?: string;
+  // Первые цифры национального номера, по которым страны с общим кодом различаются
+  nationalPrefixes?: RegExp;
+  // Группы цифр национального номера для форматирования
+  groups: number[];
+}
+
+// Россия и Казахстан делят код +7 и различаются по первой цифре национального номера
+const COUNTRY_RULES: CountryRule[] = [
+  {
+    region: 'KZ',
+    countryCode: '7',
+    nationalLength: 10,
+    trunkPrefix: '8',
+    nationalPrefixes: /^[67]/,
+    groups: [3, 3, 2, 2],
+  },
+  {
+    region: 'RU',
+    countryCode: '7',
+    nationalLength: 10,
+    trunkPrefix: '8',
+    nationalPrefixes: /^[3489]/,
+    groups: [3, 3, 2, 2],
+  },
+  {
+    region: 'BY',
+    countryCode: '375',
+    nationalLength: 9,
+    trunkPrefix: '80',
+    groups: [2, 3, 2, 2],
+  },
+  {
+    region: 'UA',
+    countryCode: '380',
+    nationalLength: 9,
+    trunkPrefix: '0',
+    groups: [2, 3, 2, 2],
+  },
+  { region: 'UZ', countryCode: '998', nationalLength: 9, groups: [2, 3, 2, 2] },
+  {
+    region: 'KG',
+    countryCode: '996',
+    nationalLength: 9,
+    trunkPrefix: '0',
+    groups: [3, 3, 3],
+  },
+  { region: 'TJ', countryCode: '992', nationalLength: 9, groups: [2, 3, 2, 2] },
+  {
+    region: 'TM',
+    countryCode: '993',
+    nationalLength: 8,
+    trunkPrefix: '8',
+    groups: [2, 2, 2, 2],
+  },
+  {
+    region: 'AM',
+    countryCode: '374',
+    nationalLength: 8,
+    trunkPrefix: '0',
+    groups: [2, 3, 3],
+  },
+  {
+    region: 'AZ',
+    countryCode: '994',
+    nationalLength: 9,
+    trunkPrefix: '0',
+    groups: [2, 3, 2, 2],
+  },
+  { region: 'GE', countryCode: '995', nationalLength: 9, groups: [3, 2, 2, 2] },
+  {
+    region: 'MD',
+    countryCode: '373',
+    nationalLength: 8,
+    trunkPrefix: '0',
+    groups: [2, 3, 3],
+  },
+];
+
+export const PHONE_REGIONS: PhoneRegion[] = COUNTRY_RULES.map(
+  (rule) => rule.region,
+);
+
+export const DEFAULT_PHONE_REGION: PhoneRegion = 'RU';
+
+// Выход на международную линию: 00 — общепринятый, 810 — из России и СНГ
+const INTERNATIONAL_PREFIX = /^(?:00|810)/;
+
+export function isPhoneRegion(value: unknown): value is PhoneRegion {
+  return PHONE_REGIONS.includes(value as PhoneRegion);
+}
+
+// Добавочный номер в конце строки: «доб. 123», «ext 12», «x12», «#12»
+const EXTENSION = /\s*(?:доб(?:авочный)?\.?|ext\.?|x|#)\s*\d{1,6}\s*$/i;
+
+// Обрамление из выгрузок: кавычки, пробелы, формулы Excel вида ="8916..."
+const WRAPPING = /^[="'\s]+|["'\s]+$/g;
+
+// Максимальная длина номера по E.164
+const MAX_DIGITS = 15;
+
+/**
+ * Приводит номер к E.164 без знака «+» (например, 79161234567, 375291234567).
+ * Номер без кода страны дополняется кодом региона по умолчанию.
+ * Для нераспознанного номера возвращается причина отказа.
+ */
+export function parsePhoneNumber(
+  input: string,
+  defaultRegion: PhoneRegion = DEFAULT_PHONE_REGION,
+): { normalized: string | null; reason?: PhoneRejectionReason } {
+  const value = (input || '').replace(WRAPPING, '').replace(EXTENSION, '');
+  let digits = value.replace(/\D/g, '');
+
+  if (!digits) {
+    return { normalized: null, reason: 'empty' };
+  }
+  if (digits.length > MAX_DIGITS) {
+    return { normalized: null, reason: 'too_long' };
+  }
+
+  if (value.startsWith('+')) {
+    return matchInternational(digits);
+  }
+  if (INTERNATIONAL_PREFIX.test(digits)) {
+    const international = matchInternational(
+      digits.replace(INTERNATIONAL_PREFIX, ''),
+    );
+    if (international.normalized) return international;
+  }
+
+  const rule = ruleForRegion(defaultRegion);
+
+  if (
+    rule.trunkPrefix &&
+    digits.length === rule.trunkPrefix.length + rule.nationalLength &&
+    digits.startsWith(rule.trunkPrefix)
+  ) {
+    digits = digits.substring(rule.trunkPrefix.length);
+  }
+  if (digits.length === rule.nationalLength) {
+    // Код страны может делиться с соседним регионом (+7: Россия и Казахстан)
+    return matchInternational(rule.countryCode + digits);
+  }
+  if (digits.length < rule.nationalLength) {
+    return { normalized: null, reason: 'too_short' };
+  }
+
+  // Номер уже с кодом страны, но без «+»
+  return matchInternational(digits);
+}
+
+/**
+ * Определяет регион нормализованного номера
+ */
+export function phoneRegionOf(normalized: string): PhoneRegion | null {
+  return findRule(normalized)?.region ?? null;
+}
+
+/**
+ * Форматирует нормализованный номер: +7 (916) 123-45-67, +375 (29) 123-45-67
+ */
+export function formatPhoneNumber(normalized: string): string {
+  const rule = findRule(normalized);
+  if (!rule) return normalized;
+
+  const national = normalized.substring(rule.countryCode.length);
+  const parts: string[] = [];
+  let offset = 0;
+  for (const size of rule.groups) {
+    parts.push(national.substring(offset, offset + size));
+    offset += size;
+  }
+
+  const [area, ...rest] = parts;
+  return `+${rule.countryCode} (${area}) ${rest.join('-')}`;
+}
+
+function matchInternational(digits: string): {
+  normalized: string | null;
+  reason?: PhoneRejectionReason;
+} {
+  if (findRule(digits)) {
+    return { normalized: digits };
+  }
+
+  const sameCode = COUNTRY_RULES.filter((rule) =>
+    digits.startsWith(rule.countryCode),
+  );
+  if (!sameCode.length) {
+    return { normalized: null, reason: 'unknown_country_code' };
+  }
+
+  const lengthMatches = sameCode.some(
+    (rule) => digits.length === rule.countryCode.length + rule.nationalLength,
+  );
+  return {
+    normalized: null,
+    reason: lengthMatches ? 'invalid_number' : 'invalid_length',
+  };
+}
+
+function findRule(digits: string): CountryRule | undefined {
+  return COUNTRY_RULES.find((rule) => {
+    if (
+      !digits.startsWith(rule.countryCode) ||
+      digits.length !== rule.countryCode.length + rule.nationalLength
+    ) {
+      return false;
+    }
+    return (
+      !rule.nationalPrefixes ||
+      rule.nationalPrefixes.test(digits.substring(rule.countryCode.length))
+    );
+  });
+}
+
+function ruleForRegion(region: PhoneRegion): CountryRule {
+  return COUNTRY_RULES.find((rule) => rule.region === region) as CountryRule;
+}
@@ -0,0 +1,68 @@
+import { BatchSearchResult } from '../types/index.types';
+
+// Точка с запятой и BOM — чтобы файл без настройки открывался в русском Excel
+const SEPARATOR = ';';
+const BOM = '\uFEFF';
+
+const COLUMNS = [
+  'input',
+  'normalizedPhone',
+  'status',
+  'reason',
+  'database',
+  'formattedPhone',
+  'fullName',
+  'birthDate',
+  'email',
+  'inn',
+  'snils',
+];
+
+/**
+ * Выгружает результаты пакетного поиска в CSV: одна строка на совпадение,
+ * для ненайденных и отклонённых номеров — одна строка без данных записи
+ */
+export function batchResultToCsv(result: BatchSearchResult): string {
+  const lines = [COLUMNS.join(SEPARATOR)];
+
+  for (const item of result.results) {
+    const base = [
+      item.input,
+      item.normalizedPhone || '',
+      item.status,
+      item.reason || '',
+    ];
+
+    if (!item.matches.length) {
+      lines.push(toLine([...base, '', '', '', '', '', '', '']));
+      continue;
+    }
+
+    for (const match of item.matches) {
+      const record = (match.record || {}) as Record<string, string | undefined>;
+      lines.push(
+        toLine([
+          ...base,
+          match.database,
+          record.formattedPhone,
+          record.fullName,
+          record.birthDate,
+          record.email,
+          record.inn,
+          record.snils,
+        ]),
+      );
+    }
+  }
+
+  return BOM + lines.join('\r\n') + '\r\n';
+}
+
+function toLine(values: (string | undefined)[]): string {
+  return values.map(escape).join(SEPARATOR);
+}
+
+function escape(value: string | undefined): string {
+  const text = value ?? '';
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,57 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  expandPhonePattern,
+  parsePhonePattern,
+  patternAllowsPrefix,
+} from './phone-pattern';
+
+describe('phone pattern', () => {
+  it('parses a mask with any wildcard and separators', () => {
+    const pattern = parsePhonePattern({ mask: '8 (916) xx?-45-67' });
+
+    expect(pattern.mask).toBe('7916***4567');
+    expect(pattern.leading).toBe('7916');
+    expect(pattern.regex.test('79161234567')).toBe(true);
+    expect(pattern.regex.test('791612345678')).toBe(false);
+    expect(pattern.regex.test('79161234568')).toBe(false);
+  });
+
+  it('combines prefix and suffix without a fixed length', () => {
+    const pattern = parsePhonePattern({ prefix: '+7916', suffix: '67' });
+
+    expect(pattern.display).toBe('7916…67');
+    expect(pattern.regex.test('79161234567')).toBe(true);
+    expect(pattern.regex.test('7916123456')).toBe(false);
+    expect(() => parsePhonePattern({})).toThrow(BadRequestException);
+    expect(() => parsePhonePattern({ prefix: '79*' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parsePhonePattern({ mask: '7*', suffix: '1' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('selects prefix partitions compatible with the pattern', () => {
+    const mask = parsePhonePattern({ mask: '79*6***4567' });
+    expect(patternAllowsPrefix(mask, '7926')).toBe(true);
+    expect(patternAllowsPrefix(mask, '7917')).toBe(false);
+
+    const prefix = parsePhonePattern({ prefix: '791612' });
+    expect(patternAllowsPrefix(prefix, '7916')).toBe(true);
+    expect(patternAllowsPrefix(prefix, '79161334')).toBe(false);
+    expect(patternAllowsPrefix(prefix, 'h0012')).toBe(false);
+  });
+
+  it('expands masks with few unknown digits only', () => {
+    const keys = expandPhonePattern(parsePhonePattern({ mask: '7916123456*' }));
+    expect(keys).toHaveLength(10);
+    expect(keys).toContain('79161234560');
+
+    expect(
+      expandPhonePattern(parsePhonePattern({ mask: '7916*****67' })),
+    ).toBeNull();
+    expect(
+      expandPhonePattern(parsePhonePattern({ prefix: '7916' })),
+    ).toBeNull();
+  });
+});
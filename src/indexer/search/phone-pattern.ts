@@ -0,0 +1,104 @@
+import { BadRequestException } from '@nestjs/common';
+import { PhonePattern, PhonePatternInput } from '../types/index.types';
+
+// Перебор маски: 10^4 номеров на базу проверяются фильтром Блума
+export const MAX_MASK_WILDCARDS = 4;
+// Меньше цифр в начале — слишком много партиций для просмотра
+export const MIN_SCAN_PREFIX = 4;
+
+const WILDCARDS = /[*?_xXхХ]/g;
+const SEPARATORS = /[\s()+.-]/g;
+
+/**
+ * Разбирает маску (7916***4567, звёздочка — одна неизвестная цифра)
+ * или начало и конец номера. Ведущая 8 — российский формат, она
+ * заменяется на 7: коды поддерживаемых стран с 8 не начинаются.
+ */
+export function parsePhonePattern(input: PhonePatternInput): PhonePattern {
+  const mask = cleanPart(input.mask, true);
+  const prefix = cleanPart(input.prefix, false);
+  const suffix = cleanPart(input.suffix, false);
+
+  if (mask) {
+    if (prefix || suffix) {
+      throw new BadRequestException(
+        'Укажите либо маску, либо начало и конец номера',
+      );
+    }
+    const normalized = toInternational(mask);
+    const leading = /^\d*/.exec(normalized)![0];
+    return {
+      display: normalized,
+      mask: normalized,
+      leading,
+      regex: new RegExp(`^${normalized.replace(/\*/g, '\\d')}$`),
+    };
+  }
+
+  if (!prefix && !suffix) {
+    throw new BadRequestException(
+      'Укажите маску номера (mask) или его начало (prefix) и конец (suffix)',
+    );
+  }
+  const leading = toInternational(prefix);
+  return {
+    display: `${leading}…${suffix}`,
+    leading,
+    regex: new RegExp(`^${leading}\\d*${suffix}$`),
+  };
+}
+
+/**
+ * Может ли в партиции с префиксом partition лежать подходящий номер
+ */
+export function patternAllowsPrefix(
+  pattern: PhonePattern,
+  partition: string,
+): boolean {
+  if (pattern.mask) {
+    return (
+      partition.length <= pattern.mask.length &&
+      [...partition].every(
+        (digit, i) => pattern.mask![i] === '*' || pattern.mask![i] === digit,
+      )
+    );
+  }
+  const length = Math.min(partition.length, pattern.leading.length);
+  return partition.slice(0, length) === pattern.leading.slice(0, length);
+}
+
+/**
+ * Все номера маски, если неизвестных цифр не больше limit; иначе null
+ */
+export function expandPhonePattern(
+  pattern: PhonePattern,
+  limit = MAX_MASK_WILDCARDS,
+): string[] | null {
+  if (!pattern.mask || pattern.mask.replace(/\d/g, '').length > limit) {
+    return null;
+  }
+
+  let keys = [''];
+  for (const char of pattern.mask) {
+    const digits = char === '*' ? '0123456789' : char;
+    keys = keys.flatMap((key) => [...digits].map((digit) => key + digit));
+  }
+  return keys;
+}
+
+function cleanPart(value: string | undefined, allowWildcards: boolean): string {
+  const text = (value ?? '').replace(SEPARATORS, '');
+  const cleaned = allowWildcards ? text.replace(WILDCARDS, '*') : text;
+  if (!/^[\d*]*$/.test(cleaned) || (!allowWildcards && cleaned.includes('*'))) {
+    throw new BadRequestException(
+      allowWildcards
+        ? `В маске допустимы только цифры и * для неизвестных: ${value}`
+        : `Начало и конец номера — только цифры: ${value}`,
+    );
+  }
+  return cleaned;
+}
+
+function toInternational(value: string): string {
+  return value.startsWith('8') ? `7${value.slice(1)}` : value;
+}
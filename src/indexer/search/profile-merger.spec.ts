@@ -0,0 +1,81 @@
+import { mergeProfile } from './profile-merger';
+
+describe('mergeProfile', () => {
+  const source = (database: string, record: Record<string, string>) => ({
+    database,
+    originalFileName: `${database}.csv`,
+    record,
+  });
+
+  it('groups equal values regardless of case, «ё», date and number format', () => {
+    const profile = mergeProfile(
+      '79161234567',
+      '+7 (916) 123-45-67',
+      [
+        source('crm', {
+          lastName: 'Соловьёв',
+          birthDate: '1980-01-05',
+          snils: '112-233-445 95',
+        }),
+        source('shop', {
+          lastName: ' СОЛОВЬЕВ ',
+          birthDate: '05.01.1980',
+          snils: '11223344595',
+        }),
+      ],
+      3,
+    );
+
+    expect(profile).toMatchObject({
+      phone: '79161234567',
+      matchesCount: 2,
+      databasesSearched: 3,
+      conflicts: [],
+    });
+    expect(profile.fields.lastName).toEqual({
+      value: 'Соловьёв',
+      conflict: false,
+      values: [
+        {
+          value: 'Соловьёв',
+          sources: [
+            { database: 'crm', originalFileName: 'crm.csv' },
+            { database: 'shop', originalFileName: 'shop.csv' },
+          ],
+        },
+      ],
+    });
+    expect(profile.fields.birthDate?.values).toHaveLength(1);
+    expect(profile.fields.snils?.values).toHaveLength(1);
+  });
+
+  it('flags differing values and prefers the one most sources agree on', () => {
+    const profile = mergeProfile(
+      '79161234567',
+      '+7 (916) 123-45-67',
+      [
+        source('crm', { email: 'old@mail.ru', inn: '' }),
+        source('shop', { email: 'new@mail.ru' }),
+        source('bank', { email: 'new@mail.ru' }),
+      ],
+      3,
+    );
+
+    expect(profile.conflicts).toEqual(['email']);
+    expect(profile.fields.email).toMatchObject({
+      value: 'new@mail.ru',
+      conflict: true,
+    });
+    expect(
+      profile.fields.email?.values.map((value) => [
+        value.value,
+        value.sources.map((item) => item.database),
+      ]),
+    ).toEqual([
+      ['new@mail.ru', ['shop', 'bank']],
+      ['old@mail.ru', ['crm']],
+    ]);
+    // Пустые значения не считаются ни значением, ни расхождением
+    expect(profile.fields.inn).toBeUndefined();
+  });
+});
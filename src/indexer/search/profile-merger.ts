@@ -0,0 +1,112 @@
+import {
+  ConsolidatedProfile,
+  ConsolidatedProfileField,
+  ProfileField,
+  ProfileSource,
+} from '../types/index.types';
+
+const PROFILE_FIELDS: ProfileField[] = [
+  'lastName',
+  'firstName',
+  'middleName',
+  'fullName',
+  'birthDate',
+  'snils',
+  'inn',
+  'email',
+];
+
+// Значения сравниваются без учёта оформления: регистра, «ё», формата даты
+const COMPARE_KEYS: Partial<Record<ProfileField, (value: string) => string>> = {
+  birthDate: dateKey,
+  snils: (value) => value.replace(/\D/g, ''),
+  inn: (value) => value.replace(/\D/g, ''),
+};
+
+/**
+ * Сводит записи одного номера из разных баз в профиль: для каждого поля
+ * перечисляются различающиеся значения с источниками, расхождения помечаются
+ */
+export function mergeProfile(
+  phone: string,
+  formattedPhone: string,
+  matches: (ProfileSource & { record: any })[],
+  databasesSearched: number,
+): ConsolidatedProfile {
+  const fields: ConsolidatedProfile['fields'] = {};
+  const conflicts: ProfileField[] = [];
+
+  for (const field of PROFILE_FIELDS) {
+    const merged = mergeField(field, matches);
+    if (!merged) {
+      continue;
+    }
+    fields[field] = merged;
+    if (merged.conflict) {
+      conflicts.push(field);
+    }
+  }
+
+  return {
+    phone,
+    formattedPhone,
+    matchesCount: matches.length,
+    databasesSearched,
+    fields,
+    conflicts,
+    sources: matches,
+  };
+}
+
+function mergeField(
+  field: ProfileField,
+  matches: (ProfileSource & { record: any })[],
+): ConsolidatedProfileField | null {
+  const compareKey = COMPARE_KEYS[field] || textKey;
+  const groups = new Map<string, { value: string; sources: ProfileSource[] }>();
+
+  for (const { database, originalFileName, record } of matches) {
+    const raw = (record as Record<string, unknown> | undefined)?.[field];
+    const value = typeof raw === 'string' ? raw.trim() : '';
+    if (!value) {
+      continue;
+    }
+
+    const key = compareKey(value);
+    if (!groups.has(key)) {
+      groups.set(key, { value, sources: [] });
+    }
+    groups.get(key)!.sources.push({ database, originalFileName });
+  }
+
+  if (!groups.size) {
+    return null;
+  }
+
+  // Порядок вставки сохраняется, поэтому при равенстве выигрывает первая база
+  const values = Array.from(groups.values()).sort(
+    (a, b) => b.sources.length - a.sources.length,
+  );
+
+  return {
+    value: values[0].value,
+    values,
+    conflict: values.length > 1,
+  };
+}
+
+function textKey(value: string): string {
+  return value.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ');
+}
+
+function dateKey(value: string): string {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  }
+  const ru = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+  if (ru) {
+    return `${ru[3]}-${ru[2].padStart(2, '0')}-${ru[1].padStart(2, '0')}`;
+  }
+  return textKey(value);
+}
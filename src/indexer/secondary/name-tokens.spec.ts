@@ -0,0 +1,27 @@
+import { nameScore, nameTokens, tokenSimilarity } from './name-tokens';
+
+describe('name tokens', () => {
+  it('folds case, ё and transliterates Cyrillic', () => {
+    expect(nameTokens('Семёнов  Пётр И.')).toEqual(['semenov', 'petr']);
+    expect(nameTokens('SEMENOV Petr')).toEqual(['semenov', 'petr']);
+    expect(nameTokens('Хабибуллин Юрий')).toEqual(
+      nameTokens('Habibullin Yuriy'),
+    );
+    expect(nameTokens('Alexander')).toEqual(['aleksander']);
+  });
+
+  it('tolerates typos and spelling variants', () => {
+    expect(tokenSimilarity('ivanov', 'ivonov')).toBeGreaterThanOrEqual(0.8);
+    expect(tokenSimilarity('petr', 'pyotr')).toBeGreaterThanOrEqual(0.6);
+    expect(tokenSimilarity('ivanov', 'petrov')).toBeLessThan(0.6);
+  });
+
+  it('scores names regardless of word order', () => {
+    const name = nameTokens('Иванов Пётр Сергеевич');
+
+    expect(nameScore(nameTokens('петр иванов'), name)).toBe(1);
+    expect(nameScore(nameTokens('Ivonov Petr'), name)).toBeGreaterThan(0.8);
+    expect(nameScore(nameTokens('Петров Иван'), name)).toBeLessThan(0.8);
+    expect(nameScore(nameTokens('Сидорова Анна'), name)).toBe(0);
+  });
+});
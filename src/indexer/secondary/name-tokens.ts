@@ -0,0 +1,141 @@
+// Кириллица приводится к латинице: так «Пётр» и «Petr» дают одно написание
+const TRANSLITERATION: Record<string, string> = {
+  а: 'a',
+  б: 'b',
+  в: 'v',
+  г: 'g',
+  д: 'd',
+  е: 'e',
+  ё: 'e',
+  ж: 'zh',
+  з: 'z',
+  и: 'i',
+  й: 'y',
+  к: 'k',
+  л: 'l',
+  м: 'm',
+  н: 'n',
+  о: 'o',
+  п: 'p',
+  р: 'r',
+  с: 's',
+  т: 't',
+  у: 'u',
+  ф: 'f',
+  х: 'kh',
+  ц: 'ts',
+  ч: 'ch',
+  ш: 'sh',
+  щ: 'shch',
+  ъ: '',
+  ы: 'y',
+  ь: '',
+  э: 'e',
+  ю: 'yu',
+  я: 'ya',
+  і: 'i',
+  ї: 'yi',
+  є: 'ye',
+  ґ: 'g',
+  ў: 'u',
+};
+
+// Латинские написания одного звука сводятся к одному
+const LATIN_VARIANTS: [RegExp, string][] = [
+  [/x/g, 'ks'],
+  [/w/g, 'v'],
+  [/q/g, 'k'],
+  [/ph/g, 'f'],
+  [/j/g, 'y'],
+  [/kh/g, 'h'],
+];
+
+const MIN_TOKEN_LENGTH = 2;
+
+// Слова с меньшим сходством не считаются совпадением
+export const MIN_NAME_SIMILARITY = 0.6;
+
+/**
+ * Слова ФИО в едином написании: без регистра, диакритики и «ё»,
+ * кириллица транслитерирована. Инициалы и знаки препинания отбрасываются.
+ */
+export function nameTokens(value: string): string[] {
+  let text = value
+    .toLowerCase()
+    .replace(/[а-яёіїєґў]/g, (letter) => TRANSLITERATION[letter])
+    // Диакритика латиницы: é → e
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  for (const [pattern, replacement] of LATIN_VARIANTS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  return text
+    .split(/[^a-z]+/)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH);
+}
+
+/**
+ * Триграммы слова с границами, как в pg_trgm: «  i», « iv», …, «ov »
+ */
+export function trigrams(token: string): string[] {
+  const padded = `  ${token} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return [...grams];
+}
+
+/**
+ * Сходство слов от 0 до 1: лучшее из доли общих триграмм
+ * и расстояния Левенштейна, отнесённого к длине
+ */
+export function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const gramsA = new Set(trigrams(a));
+  const gramsB = trigrams(b);
+  const shared = gramsB.filter((gram) => gramsA.has(gram)).length;
+  const byGrams = shared / (gramsA.size + gramsB.length - shared);
+  const byEdits = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+  return Math.max(byGrams, byEdits);
+}
+
+/**
+ * Оценка ФИО по словам запроса: среднее сходство каждого слова запроса
+ * с самым похожим словом ФИО; 0, если какое-то слово не нашлось
+ */
+export function nameScore(query: string[], name: string[]): number {
+  let total = 0;
+  for (const token of query) {
+    const best = Math.max(
+      0,
+      ...name.map((word) => tokenSimilarity(token, word)),
+    );
+    if (best < MIN_NAME_SIMILARITY) {
+      return 0;
+    }
+    total += best;
+  }
+  return Math.round((total / query.length) * 1000) / 1000;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
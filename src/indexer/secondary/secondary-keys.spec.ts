@@ -0,0 +1,57 @@
+import { BadRequestException } from '@nestjs/common';
+import { ResolvedColumnMapping } from '../types/index.types';
+import {
+  normalizeBirthDate,
+  resolveSecondaryIndexes,
+  secondaryKeyOf,
+} from './secondary-keys';
+
+describe('secondary keys', () => {
+  it('normalizes values and rejects malformed ones', () => {
+    expect(secondaryKeyOf('email', { email: ' Ivanov@Mail.RU ' })).toBe(
+      'ivanov@mail.ru',
+    );
+    expect(secondaryKeyOf('email', { email: 'нет' })).toBeNull();
+    expect(secondaryKeyOf('inn', { inn: '7707 083 893' })).toBe('7707083893');
+    expect(secondaryKeyOf('inn', { inn: '12345' })).toBeNull();
+    expect(secondaryKeyOf('snils', { snils: '112-233-445 95' })).toBe(
+      '11223344595',
+    );
+    expect(secondaryKeyOf('snils', {})).toBeNull();
+  });
+
+  it('combines name and birth date regardless of formatting', () => {
+    const key = secondaryKeyOf('nameBirth', {
+      fullName: 'Семёнов  Пётр Иванович',
+      birthDate: '1.2.1990',
+    });
+
+    expect(key).toBe('семенов петр иванович|1990-02-01');
+    expect(
+      secondaryKeyOf('nameBirth', {
+        fullName: 'СЕМЕНОВ ПЕТР ИВАНОВИЧ',
+        birthDate: '1990-02-01',
+      }),
+    ).toBe(key);
+    expect(
+      secondaryKeyOf('nameBirth', { fullName: 'Семенов', birthDate: '' }),
+    ).toBeNull();
+    expect(normalizeBirthDate('31.02.1990')).toBeNull();
+  });
+
+  it('requires mapped columns for requested indexes', () => {
+    const mapping: ResolvedColumnMapping = {
+      delimiter: '|',
+      phoneIndex: 0,
+      fields: { phone: 0, email: 1, lastName: 2 },
+    };
+
+    expect(resolveSecondaryIndexes(undefined, mapping)).toEqual([]);
+    expect(resolveSecondaryIndexes(['email', 'email'], mapping)).toEqual([
+      'email',
+    ]);
+    expect(() =>
+      resolveSecondaryIndexes(['inn', 'nameBirth', 'passport'], mapping),
+    ).toThrow(BadRequestException);
+  });
+});
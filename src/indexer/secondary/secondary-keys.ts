@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  CanonicalField,
+  ExactIndexField,
+  ResolvedColumnMapping,
+  SecondaryIndexField,
+} from '../types/index.types';
+
+export const SECONDARY_INDEX_FIELDS: SecondaryIndexField[] = [
+  'email',
+  'inn',
+  'snils',
+  'nameBirth',
+  'name',
+];
+
+export const SECONDARY_FOLDER = 'secondary';
+// Триграмма → слова ФИО с ней; рядом с индексом name (слово → номера)
+export const NAME_GRAMS_INDEX = 'nameGrams';
+
+export const SECONDARY_FIELD_LABELS: Record<SecondaryIndexField, string> = {
+  email: 'email',
+  inn: 'ИНН',
+  snils: 'СНИЛС',
+  nameBirth: 'ФИО и дата рождения',
+  name: 'ФИО',
+};
+
+// Колонки, без которых индекс не построить
+const REQUIRED_COLUMNS: Record<SecondaryIndexField, CanonicalField[]> = {
+  email: ['email'],
+  inn: ['inn'],
+  snils: ['snils'],
+  nameBirth: ['lastName', 'birthDate'],
+  name: ['lastName'],
+};
+
+/**
+ * Проверяет запрошенные дополнительные индексы по описанию колонок.
+ * Все ошибки собираются и возвращаются одним BadRequestException.
+ */
+export function resolveSecondaryIndexes(
+  requested: unknown,
+  mapping: ResolvedColumnMapping,
+): SecondaryIndexField[] {
+  if (requested === undefined || requested === null) {
+    return [];
+  }
+  if (!Array.isArray(requested)) {
+    throw new BadRequestException(
+      `secondaryIndexes должен быть списком полей: ${SECONDARY_INDEX_FIELDS.join(', ')}`,
+    );
+  }
+
+  const errors: string[] = [];
+  const fields = new Set<SecondaryIndexField>();
+  for (const field of requested as unknown[]) {
+    if (!SECONDARY_INDEX_FIELDS.includes(field as SecondaryIndexField)) {
+      errors.push(
+        `Неизвестный дополнительный индекс ${String(field)}. Допустимые: ${SECONDARY_INDEX_FIELDS.join(', ')}`,
+      );
+      continue;
+    }
+    const missing = REQUIRED_COLUMNS[field as SecondaryIndexField].filter(
+      (column) => mapping.fields[column] === undefined,
+    );
+    if (missing.length) {
+      errors.push(
+        `Для индекса ${String(field)} не указаны колонки: ${missing.join(', ')}`,
+      );
+      continue;
+    }
+    fields.add(field as SecondaryIndexField);
+  }
+
+  if (errors.length) {
+    throw new BadRequestException({
+      message: 'Дополнительные индексы не соответствуют описанию колонок',
+      errors,
+    });
+  }
+  return [...fields];
+}
+
+/**
+ * Ключ дополнительного индекса для записи; null, если значения нет
+ * или оно не распознано
+ */
+export function secondaryKeyOf(
+  field: ExactIndexField,
+  record: Record<string, unknown>,
+): string | null {
+  const text = (name: string) =>
+    typeof record[name] === 'string' ? record[name] : '';
+
+  switch (field) {
+    case 'email':
+      return normalizeEmail(text('email'));
+    case 'inn':
+      return normalizeInn(text('inn'));
+    case 'snils':
+      return normalizeSnils(text('snils'));
+    case 'nameBirth': {
+      const name = normalizeName(text('fullName'));
+      const birthDate = normalizeBirthDate(text('birthDate'));
+      return name && birthDate ? `${name}|${birthDate}` : null;
+    }
+  }
+}
+
+export function normalizeEmail(value: string): string | null {
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
+
+// ИНН юрлица — 10 цифр, физлица и ИП — 12
+export function normalizeInn(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 10 || digits.length === 12 ? digits : null;
+}
+
+export function normalizeSnils(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 11 ? digits : null;
+}
+
+/**
+ * ФИО без регистра, «ё», знаков препинания и лишних пробелов
+ */
+export function normalizeName(value: string): string | null {
+  const name = value
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\s-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || null;
+}
+
+/**
+ * Дата рождения в виде ГГГГ-ММ-ДД из ДД.ММ.ГГГГ, ДД/ММ/ГГГГ или ГГГГ-ММ-ДД
+ */
+export function normalizeBirthDate(value: string): string | null {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|[T\s])/.exec(text);
+  const ru = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:$|\s)/.exec(text);
+  const parts = iso
+    ? [iso[1], iso[2], iso[3]]
+    : ru
+      ? [ru[3], ru[2], ru[1]]
+      : null;
+  if (!parts) {
+    return null;
+  }
+
+  const [year, month, day] = parts;
+  const date = new Date(Date.UTC(+year, +month - 1, +day));
+  if (date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day) {
+    return null;
+  }
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageBackend } from './local-storage.backend';
+
+describe('LocalStorageBackend', () => {
+  let rootDir: string;
+  let storage: LocalStorageBackend;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalStorageBackend({ type: 'local', rootDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('reads relative keys and absolute paths inside the root', async () => {
+    await storage.writeObject('db/metadata.json', '{}');
+
+    expect(await storage.objectExists('db/metadata.json')).toBe(true);
+    expect(
+      (await storage.readObject(path.join(rootDir, 'db/metadata.json'))).length,
+    ).toBe(2);
+    expect(await storage.listFolders('missing/')).toEqual([]);
+  });
+
+  it('rejects keys that resolve outside the root', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+    try {
+      fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+
+      await expect(
+        storage.readObject(path.join(outside, 'secret.txt')),
+      ).rejects.toThrow('за пределы хранилища');
+      await expect(storage.readObject('../etc/passwd')).rejects.toThrow(
+        'за пределы хранилища',
+      );
+      expect(await storage.objectExists('/etc/passwd')).toBe(false);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('uploads files from outside the root and keeps files already in place', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+    try {
+      const upload = path.join(outside, 'clients.csv');
+      fs.writeFileSync(upload, 'phone\n');
+
+      await storage.uploadFile('imports/clients.csv', upload);
+      expect((await storage.readObject('imports/clients.csv')).toString()).toBe(
+        'phone\n',
+      );
+
+      await storage.uploadFile(
+        'imports/clients.csv',
+        path.join(rootDir, 'imports/clients.csv'),
+      );
+      expect(await storage.getObjectSize('imports/clients.csv')).toBe(6);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
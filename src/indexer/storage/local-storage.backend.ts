@@ -0,0 +1,158 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  ObjectStat,
+  StorageBackend,
+  StorageConfig,
+  errorCodeOf,
+} from './storage.types';
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly type = 'local';
+  readonly location: string;
+
+  private readonly logger = new Logger(LocalStorageBackend.name);
+  private readonly rootDir: string;
+
+  constructor(config: StorageConfig) {
+    this.rootDir = path.resolve(
+      config.rootDir || path.join(process.cwd(), 'uploads'),
+    );
+    this.location = this.rootDir;
+
+    if (!fs.existsSync(this.rootDir)) {
+      fs.mkdirSync(this.rootDir, { recursive: true });
+    }
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async prefixExists(prefix: string): Promise<boolean> {
+    const fullPath = this.resolve(prefix);
+
+    if (prefix.endsWith('/') || prefix === '') {
+      return fs.existsSync(fullPath);
+    }
+
+    // Префикс без слеша может быть началом имени файла или папки, как в S3
+    try {
+      const entries = await fs.promises.readdir(path.dirname(fullPath));
+      const base = path.basename(fullPath);
+      return entries.some((entry) => entry.startsWith(base));
+    } catch {
+      return false;
+    }
+  }
+
+  async listFolders(prefix: string = ''): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(this.resolve(prefix), {
+        withFileTypes: true,
+      });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+    } catch (error) {
+      if (errorCodeOf(error) === 'ENOENT') {
+        return [];
+      }
+      this.logger.error(
+        `Ошибка при получении списка папок ${prefix}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async readObject(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async readObjectRange(
+    key: string,
+    start: number,
+    length: number,
+  ): Promise<Buffer> {
+    const handle = await fs.promises.open(this.resolve(key), 'r');
+    try {
+      const buffer = Buffer.alloc(Math.max(0, length));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async writeObject(key: string, body: Buffer | string): Promise<void> {
+    const fullPath = this.resolve(key);
+
+    try {
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, body);
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при записи файла ${fullPath}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async uploadFile(key: string, filePath: string): Promise<void> {
+    const fullPath = this.resolve(key);
+    // Файл уже лежит в корне хранилища под этим ключом
+    if (fullPath === path.resolve(filePath)) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.copyFile(filePath, fullPath);
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    await fs.promises.mkdir(this.resolve(folderPath), { recursive: true });
+  }
+
+  async getObjectSize(key: string): Promise<number> {
+    const stats = await fs.promises.stat(this.resolve(key));
+    return stats.size;
+  }
+
+  async statObject(key: string): Promise<ObjectStat> {
+    const stats = await fs.promises.stat(this.resolve(key));
+    return { size: stats.size, version: `${stats.mtimeMs}-${stats.size}` };
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.promises.rm(this.resolve(prefix), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  createReadStream(key: string): Readable {
+    return fs.createReadStream(this.resolve(key), { highWaterMark: 64 * 1024 });
+  }
+
+  /**
+   * Ключи разрешаются относительно корня. Абсолютный путь (исходный файл
+   * из uploads) допустим, только если он лежит внутри корня.
+   */
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    if (
+      fullPath !== this.rootDir &&
+      !fullPath.startsWith(this.rootDir + path.sep)
+    ) {
+      throw new Error(`Ключ выходит за пределы хранилища: ${key}`);
+    }
+    return fullPath;
+  }
+}
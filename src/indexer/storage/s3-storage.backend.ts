@@ -0,0 +1,308 @@
+import { Logger } from '@nestjs/common';
+import { S3 } from 'aws-sdk';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import {
+  ObjectStat,
+  StorageBackend,
+  StorageConfig,
+  errorCodeOf,
+} from './storage.types';
+
+export class S3StorageBackend implements StorageBackend {
+  readonly type = 's3';
+  readonly location: string;
+
+  private readonly logger = new Logger(S3StorageBackend.name);
+  private readonly s3: S3;
+  private readonly bucketName: string;
+
+  constructor(config: StorageConfig) {
+    this.s3 = new S3({
+      region: config.region || 'eu-west-2',
+      credentials: {
+        accessKeyId: config.accessKeyId || '',
+        secretAccessKey: config.secretAccessKey || '',
+      },
+    });
+
+    this.bucketName = config.bucketName || 'bdb-indexing';
+    this.location = `s3://${this.bucketName}`;
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.s3
+        .headObject({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+        })
+        .promise();
+      return true;
+    } catch (error) {
+      if (errorCodeOf(error) === 'NotFound') {
+        return false;
+      }
+      this.logger.error(
+        `Ошибка при проверке объекта ${key}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  async prefixExists(prefix: string): Promise<boolean> {
+    try {
+      const response = await this.s3
+        .listObjectsV2({
+          Bucket: this.bucketName,
+          Prefix: this.toKey(prefix),
+          MaxKeys: 1,
+        })
+        .promise();
+
+      return !!(response.Contents && response.Contents.length > 0);
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при проверке префикса ${prefix}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async listFolders(prefix: string = ''): Promise<string[]> {
+    const s3Prefix = this.toKey(prefix);
+
+    try {
+      const response = await this.s3
+        .listObjectsV2({
+          Bucket: this.bucketName,
+          Prefix: s3Prefix,
+          Delimiter: '/',
+        })
+        .promise();
+
+      const folders: string[] = [];
+
+      if (response.CommonPrefixes) {
+        for (const commonPrefix of response.CommonPrefixes) {
+          if (commonPrefix.Prefix) {
+            const folderName = commonPrefix.Prefix.slice(s3Prefix.length);
+            const cleanName = folderName.replace(/\/$/, '');
+            if (cleanName) {
+              folders.push(cleanName);
+            }
+          }
+        }
+      }
+
+      return folders;
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при получении списка папок ${prefix}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async readObject(key: string): Promise<Buffer> {
+    const response = await this.s3
+      .getObject({
+        Bucket: this.bucketName,
+        Key: this.toKey(key),
+      })
+      .promise();
+
+    if (!response.Body) {
+      throw new Error(`Пустое содержимое файла: ${key}`);
+    }
+
+    return Buffer.isBuffer(response.Body)
+      ? response.Body
+      : Buffer.from(response.Body as string);
+  }
+
+  async readObjectRange(
+    key: string,
+    start: number,
+    length: number,
+  ): Promise<Buffer> {
+    if (length <= 0) {
+      return Buffer.alloc(0);
+    }
+
+    try {
+      const response = await this.s3
+        .getObject({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+          Range: `bytes=${start}-${start + length - 1}`,
+        })
+        .promise();
+
+      if (!response.Body) {
+        return Buffer.alloc(0);
+      }
+      return Buffer.isBuffer(response.Body)
+        ? response.Body
+        : Buffer.from(response.Body as string);
+    } catch (error) {
+      // Диапазон за концом объекта — пустой результат, как у локального файла
+      if (errorCodeOf(error) === 'InvalidRange') {
+        return Buffer.alloc(0);
+      }
+      this.logger.error(
+        `Ошибка при чтении диапазона ${key}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async writeObject(
+    key: string,
+    body: Buffer | string,
+    contentType?: string,
+  ): Promise<void> {
+    try {
+      await this.s3
+        .putObject({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+          Body: body,
+          ContentType: contentType,
+        })
+        .promise();
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при записи объекта в S3 ${key}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async uploadFile(key: string, filePath: string): Promise<void> {
+    try {
+      // upload сам делит большие файлы на части (multipart)
+      await this.s3
+        .upload({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+          Body: fs.createReadStream(filePath),
+        })
+        .promise();
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при загрузке файла ${filePath} в S3 ${key}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    const key = this.toKey(folderPath);
+
+    try {
+      await this.s3
+        .putObject({
+          Bucket: this.bucketName,
+          Key: key.endsWith('/') ? key : key + '/',
+          Body: '',
+        })
+        .promise();
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при создании папки ${folderPath}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async getObjectSize(key: string): Promise<number> {
+    try {
+      const response = await this.s3
+        .headObject({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+        })
+        .promise();
+
+      return response.ContentLength || 0;
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при получении размера объекта ${key}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async statObject(key: string): Promise<ObjectStat> {
+    try {
+      const response = await this.s3
+        .headObject({
+          Bucket: this.bucketName,
+          Key: this.toKey(key),
+        })
+        .promise();
+
+      return {
+        size: response.ContentLength || 0,
+        version: response.ETag || String(response.LastModified?.getTime()),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при получении версии объекта ${key}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const s3Prefix = this.toKey(prefix);
+
+    try {
+      let continuationToken: string | undefined;
+      do {
+        // Список отдаётся страницами до 1000 ключей — столько же удаляет deleteObjects
+        const response = await this.s3
+          .listObjectsV2({
+            Bucket: this.bucketName,
+            Prefix: s3Prefix,
+            ContinuationToken: continuationToken,
+          })
+          .promise();
+
+        const objects = (response.Contents || [])
+          .filter((object) => object.Key)
+          .map((object) => ({ Key: object.Key as string }));
+        if (objects.length) {
+          await this.s3
+            .deleteObjects({
+              Bucket: this.bucketName,
+              Delete: { Objects: objects, Quiet: true },
+            })
+            .promise();
+        }
+
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при удалении объектов ${prefix}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  createReadStream(key: string): Readable {
+    return this.s3
+      .getObject({
+        Bucket: this.bucketName,
+        Key: this.toKey(key),
+      })
+      .createReadStream();
+  }
+
+  // Ключи S3 не начинаются со слеша, а локальные пути к исходным файлам — могут
+  private toKey(key: string): string {
+    return key.replace(/^\/+/, '');
+  }
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { LocalStorageBackend } from './local-storage.backend';
+import { S3StorageBackend } from './s3-storage.backend';
+import { StorageBackend, StorageConfig } from './storage.types';
+
+export function storageConfigFromEnv(): StorageConfig {
+  const type = (process.env.STORAGE_BACKEND || 's3').toLowerCase();
+
+  if (type === 'local') {
+    return {
+      type: 'local',
+      rootDir:
+        process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'uploads'),
+    };
+  }
+
+  if (type !== 's3') {
+    throw new Error(
+      `Неизвестный тип хранилища STORAGE_BACKEND=${type} (ожидается s3 или local)`,
+    );
+  }
+
+  return {
+    type: 's3',
+    bucketName: process.env.S3_BUCKET_NAME || 'bdb-indexing',
+    region: process.env.AWS_REGION || 'eu-west-2',
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+  };
+}
+
+/**
+ * Папка для файлов, принятых multer: корень локального хранилища, чтобы
+ * загрузку можно было сразу индексировать по имени, а у S3 — uploads
+ * рабочего каталога, откуда файл переносится в бакет.
+ */
+export function uploadDirFromEnv(): string {
+  return path.resolve(
+    storageConfigFromEnv().rootDir || path.join(process.cwd(), 'uploads'),
+  );
+}
+
+export function createStorageBackend(config: StorageConfig): StorageBackend {
+  return config.type === 'local'
+    ? new LocalStorageBackend(config)
+    : new S3StorageBackend(config);
+}
@@ -0,0 +1,62 @@
+import { Readable } from 'stream';
+
+export const STORAGE_BACKEND = 'STORAGE_BACKEND';
+
+export type StorageBackendType = 's3' | 'local';
+
+export interface StorageConfig {
+  type: StorageBackendType;
+  // Параметры S3
+  bucketName?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Параметры локального хранилища
+  rootDir?: string;
+}
+
+/** Код ошибки файловой системы или AWS SDK (ENOENT, NotFound, InvalidRange) */
+export function errorCodeOf(error: unknown): string | undefined {
+  return error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    typeof error.code === 'string'
+    ? error.code
+    : undefined;
+}
+
+/** Размер и версия объекта: ETag в S3, время изменения и размер на диске */
+export interface ObjectStat {
+  size: number;
+  version: string;
+}
+
+/**
+ * Хранилище индексов и исходных файлов.
+ * Ключи имеют вид `<db>/<prefix>/index.json` (или `data.json` у старых индексов), «папки» заканчиваются на `/`.
+ */
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  /** Бакет или корневая директория (для логов и диагностики) */
+  readonly location: string;
+
+  objectExists(key: string): Promise<boolean>;
+  prefixExists(prefix: string): Promise<boolean>;
+  listFolders(prefix?: string): Promise<string[]>;
+  readObject(key: string): Promise<Buffer>;
+  /** Читает до length байт начиная с start (меньше — если объект короче) */
+  readObjectRange(key: string, start: number, length: number): Promise<Buffer>;
+  writeObject(
+    key: string,
+    body: Buffer | string,
+    contentType?: string,
+  ): Promise<void>;
+  /** Загружает локальный файл (например, принятый multer) под ключом key */
+  uploadFile(key: string, filePath: string): Promise<void>;
+  createFolder(folderPath: string): Promise<void>;
+  getObjectSize(key: string): Promise<number>;
+  statObject(key: string): Promise<ObjectStat>;
+  /** Удаляет все объекты с ключами, начинающимися с prefix */
+  deletePrefix(prefix: string): Promise<void>;
+  createReadStream(key: string): Readable;
+}
@@ -1,3 +1,5 @@
+import { StorageConfig } from '../storage/storage.types';
+
 export interface IndexedData {
   [phoneNumber: string]: {
     data: any;
@@ -13,8 +15,167 @@ export interface IndexMetadata {
   partitionSize: number;
   createdAt: Date;
   phoneColumn: string;
+  encoding?: string;
+  delimiter?: string;
+  // Каноническое поле → заголовок исходной колонки
+  fieldMapping?: Partial<Record<CanonicalField, string>>;
+  phoneRegion?: PhoneRegion; // Регион для номеров без кода страны
+  // Раскладка номеров по партициям; у старых индексов — первые 3 цифры
+  partitionScheme?: PartitionScheme;
+  // Формат файлов партиций; у старых индексов — один data.json
+  partitionFormat?: PartitionFormat;
+  // Число записей в самой крупной партиции
+  largestPartition?: number;
+  // Сборка с партициями индекса: <db>/builds/<buildId>/; у старых индексов партиции в <db>/
+  buildId?: string;
+  // Предыдущие опубликованные версии, от новых к старым, для отката
+  previousBuilds?: IndexMetadata[];
+  // Заголовки исходного файла в порядке колонок
+  headers?: string[];
+  // Строк данных в исходном файле, включая строки без телефона; после дозагрузок не задаётся
+  sourceRows?: number;
+  // Запись реестра, из источника которой построен индекс (таблица или запрос СУБД)
+  sourceId?: string;
+  // Дополнительные индексы сборки: <сборка>/secondary/<поле>/<корзина>/
+  secondaryIndexes?: Partial<Record<SecondaryIndexField, SecondaryIndexInfo>>;
+  // Как сохранены строки с повторяющимся номером; у старых индексов осталась последняя
+  duplicatePolicy?: DuplicatePolicy;
+  // Строк с номером, уже встречавшимся в источнике
+  duplicateRows?: number;
+  // Загрузки, из которых собрана версия, от первой к последней
+  sources?: ImportedSource[];
+}
+
+/**
+ * Режим загрузки источника в базу: replace — новая версия только из него,
+ * append — строки добавляются к записям базы, upsert — записи номеров
+ * из источника заменяют прежние, delete — номера источника удаляются
+ */
+export type ImportMode = 'replace' | 'append' | 'upsert' | 'delete';
+
+export interface ImportedSource {
+  name: string; // Файл, таблица или запрос
+  mode: ImportMode;
+  importedAt: Date;
+  rows?: number; // Строк данных в источнике; у загрузок до учёта источников может не быть
+  records: number; // Строк с распознанным номером
+  deleted?: number; // Номеров, удалённых из базы (режим delete)
+  buildId?: string; // Сборка, опубликованная загрузкой
+}
+
+/**
+ * Политика повторов номера: all — хранить все строки, first и last — первую
+ * или последнюю, merge — одну запись с полями, дополненными из всех строк
+ */
+export type DuplicatePolicy = 'all' | 'first' | 'last' | 'merge';
+
+// Запись партиции: поля строки источника и её номер
+export interface IndexedRecord {
+  // У индексов до появления политики повторов номера строки нет
+  sourceLine?: number;
+  // Все строки, схлопнутые в эту запись политикой first, last или merge
+  sourceLines?: number[];
+  // Источник дозагрузки (append, upsert); у записей полной индексации — файл базы
+  sourceFile?: string;
+  [field: string]: any;
+}
+
+// Значение номера в партиции: список записей; у старых индексов — одна запись
+export type IndexedEntry = IndexedRecord[] | IndexedRecord;
+
+export interface DuplicateCounts {
+  kept: number; // Повторов, сохранённых отдельными записями
+  collapsed: number; // Повторов, отброшенных или слитых в одну запись
+}
+
+// Запись в ответе поиска: основная запись номера и сведения о повторах
+export type SearchRecord = IndexedRecord & {
+  duplicates: DuplicateCounts;
+  // Все записи номера, если их больше одной
+  records?: IndexedRecord[];
+};
+
+/**
+ * Источник строк для индексации помимо файла: таблица или запрос к СУБД.
+ * readRecords каждый раз открывает своё соединение и закрывает его,
+ * когда перебор завершён или прерван.
+ */
+export interface RecordSource {
+  id?: string;
+  name: string;
+  headers: string[];
+  estimatedRows?: number;
+  readRecords(): AsyncIterable<string[]>;
+}
+
+// Событие публикации версии индекса: новая сборка или откат
+export interface IndexPublication {
+  databaseId: string;
+  metadata: IndexMetadata;
+}
+
+export type PartitionSchemeType = 'prefix' | 'hash';
+
+/**
+ * json — вся партиция одним объектом в data.json,
+ * ndjson-gzip-v1 — отсортированные записи блоками gzip в records.ndjson.gz
+ * и индекс блоков в index.json
+ */
+export type PartitionFormat = 'json' | 'ndjson-gzip-v1';
+
+export interface PartitionLayout {
+  scheme: PartitionScheme;
+  format: PartitionFormat;
+  buildId?: string;
+}
+
+export interface PartitionBlock {
+  firstKey: string;
+  lastKey: string;
+  offset: number;
+  length: number;
+  count: number;
+}
+
+export interface PartitionIndex {
+  format: PartitionFormat;
+  count: number;
+  blocks: PartitionBlock[];
+}
+
+export interface SegmentSlice {
+  offset: number;
+  length: number;
+}
+
+// Сегмент сборки: файл одного сброса буфера и положение в нём каждой группы записей
+export interface BuildSegment {
+  key: string;
+  slices: Map<string, SegmentSlice>;
+}
+
+/**
+ * prefix — партиция по первым depth цифрам номера,
+ * hash — по хешу номера в одну из buckets корзин
+ */
+export type PartitionScheme =
+  | { type: 'prefix'; depth: number }
+  | { type: 'hash'; buckets: number };
+
+// Задание воркера поиска по телефону и его ответ
+export interface PhoneSearchWorkerData {
+  storage: StorageConfig;
+  databaseId: string;
+  phone: string;
+  partitionScheme?: PartitionScheme;
+  partitionFormat?: PartitionFormat;
+  buildId?: string;
 }
 
+export type PhoneSearchWorkerMessage =
+  | { databaseId: string; result: SearchRecord | null }
+  | { error: string };
+
 export interface Partition {
   id: number;
   data: IndexedData;
@@ -25,10 +186,311 @@ export interface DatabaseStats {
   id: string;
   records: number;
   partitions: number;
+  duplicates?: DuplicateCounts;
+}
+
+export interface PartitionCacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  invalidations: number;
 }
 
 export interface DatabaseStatsResponse {
   totalDatabases: number;
   totalRecords: number;
   databases: DatabaseStats[];
+  partitionCache: PartitionCacheStats;
+}
+
+export type IndexingJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ProcessingStats {
+  startTime: number;
+  currentTime: number;
+  totalLines: number;
+  processedLines: number;
+  recordsFound: number;
+  lastReportTime: number;
+  prefixesFound: Set<string>;
+  bytesProcessed: number;
+  fileSize: number;
+  lastChunkLines: number;
+  linesPerSecond: number;
+  estimatedTimeRemaining: string;
+  percentComplete: number;
+}
+
+export interface IndexingProgress {
+  percentComplete: number;
+  processedLines: number;
+  recordsFound: number;
+  prefixesFound: number;
+  linesPerSecond: number;
+  bytesProcessed: number;
+  fileSize: number;
+  elapsedTime: string;
+  estimatedTimeRemaining: string;
+}
+
+export interface IndexingJobInfo {
+  id: string;
+  databaseId: string;
+  fileName: string;
+  importMode: ImportMode;
+  state: IndexingJobState;
+  cancelRequested: boolean;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  progress: IndexingProgress;
+  result?: IndexMetadata;
+  error?: string;
+}
+
+export type IndexingJobEventType = 'started' | 'progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface IndexingJobEvent {
+  type: IndexingJobEventType;
+  jobId: string;
+  state: IndexingJobState;
+  progress: IndexingProgress;
+  result?: IndexMetadata;
+  error?: string;
+}
+
+/** Ссылка на колонку исходного файла: имя заголовка или индекс (с нуля) */
+export type ColumnRef = string | number;
+
+export type CanonicalField =
+  | 'lastName'
+  | 'firstName'
+  | 'middleName'
+  | 'birthDate'
+  | 'phone'
+  | 'snils'
+  | 'inn'
+  | 'email';
+
+export type FieldMapping = Partial<Record<CanonicalField, ColumnRef>>;
+
+export interface ResolvedColumnMapping {
+  delimiter: string;
+  phoneIndex: number;
+  fields: Partial<Record<CanonicalField, number>>;
+}
+
+/**
+ * Поля дополнительных индексов: нормализованное значение → номера телефонов.
+ * nameBirth — ФИО вместе с датой рождения, name — нечёткий поиск по словам ФИО.
+ */
+export type SecondaryIndexField = 'email' | 'inn' | 'snils' | 'nameBirth' | 'name';
+
+// Индексы точного совпадения: одно значение записи — один ключ
+export type ExactIndexField = Exclude<SecondaryIndexField, 'name'>;
+
+export interface SecondaryIndexInfo {
+  partitionScheme: PartitionScheme;
+  keys: number; // Уникальных значений
+  partitions: number;
+}
+
+export interface SecondarySearchMatch {
+  database: string;
+  phone: string;
+  record: any;
+}
+
+export interface SecondarySearchResult {
+  field: ExactIndexField;
+  normalizedValue: string;
+  databasesSearched: number;
+  matches: SecondarySearchMatch[];
+}
+
+export interface NameSearchMatch {
+  database: string;
+  phone: string;
+  score: number; // Среднее сходство слов запроса, от 0 до 1
+  record: any;
+}
+
+export interface NameSearchResult {
+  query: string;
+  tokens: string[]; // Слова запроса в едином написании
+  birthDate?: string;
+  databasesSearched: number;
+  matches: NameSearchMatch[];
+}
+
+export type PhoneRegion =
+  | 'RU'
+  | 'KZ'
+  | 'BY'
+  | 'UA'
+  | 'UZ'
+  | 'KG'
+  | 'TJ'
+  | 'TM'
+  | 'AM'
+  | 'AZ'
+  | 'GE'
+  | 'MD';
+
+export type PhoneRejectionReason =
+  | 'empty' // Нет ни одной цифры
+  | 'too_short'
+  | 'too_long'
+  | 'unknown_country_code'
+  | 'invalid_length' // Длина не подходит для кода страны
+  | 'invalid_number'; // Недопустимые первые цифры номера
+
+export interface PhoneNormalizationResult {
+  input: string;
+  normalized: string | null;
+  region: PhoneRegion | null;
+  reason?: PhoneRejectionReason;
+  message?: string;
+}
+
+export type BatchSearchStatus = 'found' | 'not_found' | 'rejected';
+
+export interface BatchSearchMatch {
+  database: string;
+  record: any;
+}
+
+export interface BatchSearchItem {
+  input: string;
+  normalizedPhone: string | null;
+  status: BatchSearchStatus;
+  reason?: PhoneRejectionReason;
+  message?: string;
+  matches: BatchSearchMatch[];
+}
+
+export interface BatchSearchResult {
+  total: number;
+  found: number;
+  notFound: number;
+  rejected: number;
+  databasesSearched: number;
+  partitionsLoaded: number;
+  durationMs: number;
+  results: BatchSearchItem[];
+}
+
+export interface PhonePatternInput {
+  mask?: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface PhonePattern {
+  display: string;
+  mask?: string; // Маска полной длины, * — неизвестная цифра
+  leading: string; // Известные цифры в начале номера
+  regex: RegExp;
+}
+
+export interface PartialSearchMatch {
+  database: string;
+  phone: string;
+  formattedPhone: string;
+  record: any;
+}
+
+export interface PartialSearchResult {
+  pattern: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  // Найдено больше предела: остальные совпадения не возвращаются
+  truncated: boolean;
+  databasesSearched: number;
+  // Базы со слишком многими хеш-партициями, которые пришлось бы читать целиком
+  skippedDatabases: string[];
+  // Почему результат неполон: какие базы пропущены и как их найти
+  warning?: string;
+  partitionsLoaded: number;
+  durationMs: number;
+  matches: PartialSearchMatch[];
+}
+
+export type SearchMode = 'first' | 'all';
+
+export type ProfileField = CanonicalField | 'fullName';
+
+export interface ProfileSource {
+  database: string;
+  originalFileName?: string;
+}
+
+export interface ProfileFieldValue {
+  value: string;
+  sources: ProfileSource[];
+}
+
+export interface ConsolidatedProfileField {
+  value: string; // Значение, подтверждённое наибольшим числом источников
+  values: ProfileFieldValue[];
+  conflict: boolean;
+}
+
+export interface ConsolidatedProfile {
+  phone: string;
+  formattedPhone: string;
+  matchesCount: number;
+  databasesSearched: number;
+  fields: Partial<Record<ProfileField, ConsolidatedProfileField>>;
+  conflicts: ProfileField[];
+  sources: (ProfileSource & { record: any })[];
+}
+
+export interface SerializedBloomFilter {
+  size: number; // Число бит
+  hashes: number;
+  bits: string; // base64
+}
+
+export interface PrefixManifest {
+  count: number;
+  filter: SerializedBloomFilter;
+}
+
+// <db>/manifest.json: какие префиксы есть в базе и какие номера, вероятно, в них лежат
+export interface DatabaseManifest {
+  databaseId: string;
+  updatedAt: string;
+  totalRecords: number;
+  partitionScheme?: PartitionScheme;
+  partitionFormat?: PartitionFormat;
+  buildId?: string;
+  // Регион номеров без кода страны при индексации; в нём же читается запрос
+  phoneRegion?: PhoneRegion;
+  prefixes: Record<string, PrefixManifest>;
+}
+
+export interface CatalogEntry {
+  updatedAt: string;
+  totalRecords: number;
+  partitionScheme?: PartitionScheme;
+  partitionFormat?: PartitionFormat;
+  buildId?: string;
+  phoneRegion?: PhoneRegion;
+  prefixes: string[];
+  // Базы, проиндексированные до появления манифестов, просматриваются целиком
+  hasManifest: boolean;
+  // Отключённая база остаётся в хранилище, но не участвует в поиске
+  disabled?: boolean;
+}
+
+// catalog.json в корне хранилища: все базы и их префиксы
+export interface SearchCatalog {
+  updatedAt: string;
+  databases: Record<string, CatalogEntry>;
 }
@@ -1,24 +1,68 @@
 import { parentPort, workerData } from 'worker_threads';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { createStorageBackend } from '../storage/storage.factory';
+import { StorageConfig } from '../storage/storage.types';
+import {
+  IndexedEntry,
+  PartitionFormat,
+  PartitionIndex,
+  PartitionScheme,
+  PhoneSearchWorkerData,
+  PhoneSearchWorkerMessage,
+  SearchRecord
+} from '../types/index.types';
+import { partitionKeyOf, partitionSchemeOf } from '../partitioning/partition-scheme';
+import {
+  LEGACY_DATA_FILE,
+  LEGACY_PARTITION_FORMAT,
+  PARTITION_INDEX_FILE,
+  PARTITION_RECORDS_FILE,
+  decodeBlock,
+  findBlocks,
+  partitionFormatOf
+} from '../partitioning/partition-format';
+import { partitionRoot } from '../partitioning/builds';
+import { searchRecordOf } from '../duplicates/duplicate-policy';
 
-async function searchInPartition(baseDir: string, databaseId: string, phone: string): Promise<any> {
+async function searchInPartition(
+  storage: StorageConfig,
+  databaseId: string,
+  phone: string,
+  partitionScheme?: PartitionScheme,
+  partitionFormat?: PartitionFormat,
+  buildId?: string
+): Promise<SearchRecord | null> {
   try {
-    const prefix = phone.substring(0, 3);
-    const dataPath = path.join(baseDir, databaseId, prefix, 'data.json');
-    const data = JSON.parse(await fs.readFile(dataPath, 'utf-8'));
-    return data[phone] || null;
+    const prefixPath = `${partitionRoot(databaseId, buildId)}${partitionKeyOf(phone, partitionSchemeOf({ partitionScheme }))}/`;
+    const backend = createStorageBackend(storage);
+    
+    if (partitionFormatOf({ partitionFormat }) === LEGACY_PARTITION_FORMAT) {
+      const data = JSON.parse((await backend.readObject(`${prefixPath}${LEGACY_DATA_FILE}`)).toString('utf-8')) as Record<string, IndexedEntry>;
+      return data[phone] ? searchRecordOf(data[phone]) : null;
+    }
+    
+    const index = JSON.parse((await backend.readObject(`${prefixPath}${PARTITION_INDEX_FILE}`)).toString('utf-8')) as PartitionIndex;
+    const [block] = findBlocks(index, [phone]).keys();
+    if (!block) {
+      return null;
+    }
+    const chunk = await backend.readObjectRange(`${prefixPath}${PARTITION_RECORDS_FILE}`, block.offset, block.length);
+    const entry = decodeBlock(chunk).get(phone) as IndexedEntry | undefined;
+    return entry ? searchRecordOf(entry) : null;
   } catch {
     return null;
   }
 }
 
+function reply(message: PhoneSearchWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
 async function run() {
-  const { baseDir, databaseId, phone } = workerData;
-  const result = await searchInPartition(baseDir, databaseId, phone);
-  parentPort?.postMessage({ databaseId, result });
+  const { storage, databaseId, phone, partitionScheme, partitionFormat, buildId } = workerData as PhoneSearchWorkerData;
+  const result = await searchInPartition(storage, databaseId, phone, partitionScheme, partitionFormat, buildId);
+  reply({ databaseId, result });
 }
 
 run().catch(error => {
-  parentPort?.postMessage({ error: error.message });
+  reply({ error: (error as Error).message });
 });
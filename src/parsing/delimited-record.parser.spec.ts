@@ -0,0 +1,59 @@
+import { DelimitedRecordParser } from './delimited-record.parser';
+
+function parse(
+  text: string,
+  delimiter = ',',
+  chunkSize = text.length,
+): string[][] {
+  const parser = new DelimitedRecordParser(delimiter);
+  const rows: string[][] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    rows.push(...parser.push(text.slice(i, i + chunkSize)));
+  }
+  rows.push(...parser.flush());
+  return rows;
+}
+
+describe('DelimitedRecordParser', () => {
+  it('splits plain rows and skips empty lines', () => {
+    expect(parse('a|b|c\n\n1|2|3\r\n4||6', '|')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+      ['4', '', '6'],
+    ]);
+  });
+
+  it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+    expect(parse('"a,b","line1\nline2","say ""hi"""\n')).toEqual([
+      ['a,b', 'line1\nline2', 'say "hi"'],
+    ]);
+  });
+
+  it('treats quotes in the middle of a field as literal characters', () => {
+    expect(parse('ООО "Ромашка"|7916|x\n', '|')).toEqual([
+      ['ООО "Ромашка"', '7916', 'x'],
+    ]);
+  });
+
+  it('produces the same rows regardless of chunk boundaries', () => {
+    const text = 'h1;h2\r\n"x;\r\ny";2\r\nplain;"q"\r\n';
+    expect(parse(text, ';', 1)).toEqual(parse(text, ';'));
+    expect(parse(text, ';', 1)).toEqual([
+      ['h1', 'h2'],
+      ['x;\r\ny', '2'],
+      ['plain', 'q'],
+    ]);
+  });
+
+  it('falls back to a literal quote when a quoted field never closes', () => {
+    const parser = new DelimitedRecordParser(',', '"', 10);
+    const rows = [
+      ...parser.push('"unterminated,value\nnext,row\n'),
+      ...parser.flush(),
+    ];
+    expect(rows).toEqual([
+      ['"unterminated', 'value'],
+      ['next', 'row'],
+    ]);
+  });
+});
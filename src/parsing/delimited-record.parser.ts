@@ -0,0 +1,137 @@
+type ParserState = 'start' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Потоковый разбор CSV/TSV/pipe с поддержкой кавычек.
+ * Кавычка открывает поле только в его начале; внутри такого поля допустимы
+ * разделители, переводы строк и удвоенные кавычки. Кавычка в середине поля
+ * (`ООО "Ромашка"`) считается обычным символом. Если поле в кавычках не
+ * закрывается в пределах maxQuotedLength символов, открывающая кавычка тоже
+ * считается обычным символом, чтобы одна опечатка не поглотила весь файл.
+ */
+export class DelimitedRecordParser {
+  private rows: string[][] = [];
+  private row: string[] = [];
+  private field = '';
+  // Исходный текст текущего поля в кавычках — для отката при незакрытой кавычке
+  private raw = '';
+  private state: ParserState = 'start';
+  private skipLineFeed = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly quote = '"',
+    private readonly maxQuotedLength = 64 * 1024,
+  ) {
+    if (delimiter.length !== 1) {
+      throw new Error(`Разделитель должен быть одним символом: "${delimiter}"`);
+    }
+  }
+
+  push(chunk: string): string[][] {
+    this.consume(chunk);
+    return this.takeRows();
+  }
+
+  flush(): string[][] {
+    if (this.state === 'quoted') {
+      this.fallbackFromQuoted();
+    }
+    if (this.state !== 'start' || this.row.length > 0) {
+      this.endRow();
+    }
+    return this.takeRows();
+  }
+
+  private consume(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (ch === '\n') {
+          continue;
+        }
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          this.raw += ch;
+          if (ch === this.quote) {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += ch;
+            if (this.raw.length > this.maxQuotedLength) {
+              this.fallbackFromQuoted();
+            }
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (ch === this.quote) {
+            this.raw += ch;
+            this.field += this.quote;
+            this.state = 'quoted';
+          } else {
+            this.state = 'unquoted';
+            this.consumeUnquoted(ch);
+          }
+          break;
+
+        case 'start':
+          if (ch === this.quote) {
+            this.state = 'quoted';
+            this.raw = ch;
+          } else {
+            this.state = 'unquoted';
+            this.consumeUnquoted(ch);
+          }
+          break;
+
+        default:
+          this.consumeUnquoted(ch);
+      }
+    }
+  }
+
+  private consumeUnquoted(ch: string): void {
+    if (ch === this.delimiter) {
+      this.row.push(this.field);
+      this.field = '';
+      this.state = 'start';
+    } else if (ch === '\n') {
+      this.endRow();
+    } else if (ch === '\r') {
+      this.endRow();
+      this.skipLineFeed = true;
+    } else {
+      this.field += ch;
+    }
+  }
+
+  private fallbackFromQuoted(): void {
+    const raw = this.raw;
+    this.raw = '';
+    this.field = '';
+    this.state = 'unquoted';
+    this.consume(raw);
+  }
+
+  private endRow(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.raw = '';
+    this.state = 'start';
+
+    // Пустые строки пропускаем
+    if (this.row.length > 1 || this.row[0] !== '') {
+      this.rows.push(this.row);
+    }
+    this.row = [];
+  }
+
+  private takeRows(): string[][] {
+    const rows = this.rows;
+    this.rows = [];
+    return rows;
+  }
+}
@@ -0,0 +1,197 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as chardet from 'chardet';
+import * as iconv from 'iconv-lite';
+import * as readline from 'readline';
+import { pipeline } from 'stream';
+import { DelimitedRecordParser } from './delimited-record.parser';
+import {
+  ConcreteEncoding,
+  EncodingType,
+  FileFormat,
+} from './types/parsing.types';
+
+const ICONV_ENCODINGS: Record<ConcreteEncoding, string> = {
+  utf8: 'utf8',
+  windows1251: 'win1251',
+  koi8r: 'koi8-r',
+  iso88595: 'iso-8859-5',
+};
+
+const DELIMITER_NAMES: Record<string, string> = {
+  '\t': 'табуляция',
+  ',': 'запятая',
+  ';': 'точка с запятой',
+  '|': 'вертикальная черта',
+};
+
+/**
+ * Общий разбор входных файлов для анализатора и индексатора:
+ * определение кодировки и разделителя, декодирование и чтение записей.
+ */
+@Injectable()
+export class ParsingService {
+  private readonly logger = new Logger(ParsingService.name);
+  readonly SAMPLE_SIZE = 4096; // Размер выборки для определения формата (4KB)
+
+  /**
+   * Определяет кодировку файла по содержимому
+   * @param buffer Буфер с началом файла
+   */
+  detectEncoding(buffer: Buffer): ConcreteEncoding {
+    try {
+      // UTF-8 BOM однозначно задаёт кодировку
+      if (
+        buffer.length >= 3 &&
+        buffer[0] === 0xef &&
+        buffer[1] === 0xbb &&
+        buffer[2] === 0xbf
+      ) {
+        return 'utf8';
+      }
+
+      const detectedStr = (chardet.detect(buffer) ?? '').toLowerCase();
+
+      if (detectedStr.includes('windows') || detectedStr.includes('1251')) {
+        return 'windows1251';
+      }
+      if (detectedStr.includes('koi8')) {
+        return 'koi8r';
+      }
+      if (detectedStr.includes('8859-5') || detectedStr.includes('88595')) {
+        return 'iso88595';
+      }
+
+      return 'utf8';
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при определении кодировки: ${(error as Error).message}`,
+      );
+      return 'utf8';
+    }
+  }
+
+  /**
+   * Определяет разделитель по первым строкам: предпочитается символ,
+   * встречающийся одинаковое ненулевое число раз в каждой строке.
+   */
+  detectDelimiter(sample: string): string {
+    const lines = sample
+      .split(/\r?\n/)
+      .map((line) => this.unwrapJsonLine(line))
+      .filter((line) => line.trim())
+      .slice(0, 10);
+
+    let best = ',';
+    let bestScore = 0;
+
+    for (const candidate of Object.keys(DELIMITER_NAMES)) {
+      const counts = lines.map((line) => line.split(candidate).length - 1);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      if (total === 0) {
+        continue;
+      }
+
+      const consistent = counts.every((count) => count === counts[0]);
+      const score = consistent ? total * 10 : total;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    this.logger.log(`Определен разделитель: ${DELIMITER_NAMES[best]}`);
+    return best;
+  }
+
+  /**
+   * Определяет формат файла по его началу. Явно заданные кодировка
+   * и разделитель имеют приоритет над автоопределением.
+   */
+  detectFormat(
+    sample: Buffer,
+    options: { encoding?: EncodingType; delimiter?: string } = {},
+  ): FileFormat {
+    const encoding =
+      !options.encoding || options.encoding === 'auto'
+        ? this.detectEncoding(sample)
+        : options.encoding;
+
+    const text = this.decodeSample(sample, encoding);
+    const firstLine = text.split(/\r?\n/)[0] || '';
+
+    return {
+      encoding,
+      delimiter: options.delimiter || this.detectDelimiter(text),
+      jsonWrapped: firstLine.startsWith('{"'),
+    };
+  }
+
+  /**
+   * Декодирует поток в строки; BOM отбрасывается
+   */
+  decodeStream(
+    input: NodeJS.ReadableStream,
+    encoding: ConcreteEncoding,
+  ): NodeJS.ReadableStream {
+    // pipeline пробрасывает ошибки чтения исходного файла дальше по цепочке
+    return pipeline(
+      input,
+      iconv.decodeStream(ICONV_ENCODINGS[encoding] || encoding),
+      () => {},
+    );
+  }
+
+  /**
+   * Декодирует выборку, отбрасывая последнюю (возможно обрезанную) строку
+   */
+  decodeSample(sample: Buffer, encoding: ConcreteEncoding): string {
+    const text = iconv.decode(sample, ICONV_ENCODINGS[encoding] || encoding);
+    const lastBreak = text.lastIndexOf('\n');
+    return lastBreak > 0 ? text.substring(0, lastBreak) : text;
+  }
+
+  /**
+   * Читает записи файла как массивы полей; первая запись — заголовки
+   */
+  async *readRecords(
+    input: NodeJS.ReadableStream,
+    format: FileFormat,
+  ): AsyncGenerator<string[]> {
+    const decoded = this.decodeStream(input, format.encoding);
+
+    if (format.jsonWrapped) {
+      // JSON-обёртка исключает кавычки в смысле CSV, поэтому делим построчно
+      const rl = readline.createInterface({
+        input: decoded,
+        crlfDelay: Infinity,
+      });
+      for await (const line of rl) {
+        if (line.trim()) {
+          yield this.unwrapJsonLine(line).split(format.delimiter);
+        }
+      }
+      return;
+    }
+
+    const parser = new DelimitedRecordParser(format.delimiter);
+    for await (const chunk of decoded) {
+      yield* parser.push(String(chunk));
+    }
+    yield* parser.flush();
+  }
+
+  // Некоторые выгрузки оборачивают строку в JSON вида {"_0": "..."}
+  unwrapJsonLine(line: string): string {
+    if (line.startsWith('{"')) {
+      try {
+        const parsedLine = JSON.parse(line) as { _0?: unknown };
+        return typeof parsedLine._0 === 'string' && parsedLine._0
+          ? parsedLine._0
+          : line;
+      } catch {
+        return line;
+      }
+    }
+    return line;
+  }
+}
@@ -0,0 +1,15 @@
+export type EncodingType =
+  | 'auto'
+  | 'utf8'
+  | 'windows1251'
+  | 'koi8r'
+  | 'iso88595';
+
+export type ConcreteEncoding = Exclude<EncodingType, 'auto'>;
+
+export interface FileFormat {
+  encoding: ConcreteEncoding;
+  delimiter: string;
+  // Строки обёрнуты в JSON вида {"_0": "..."}
+  jsonWrapped: boolean;
+}